@@ -0,0 +1,156 @@
+/**
+ * just enough of a flatbuffer writer for the metadata of Arrow IPC files, see https://flatbuffers.dev/internals/
+ *
+ * unlike the official builders, which write back to front, objects are written front to back: a table is written first
+ * and its children after it, so that the offsets to them are positive like the format requires.
+ */
+
+/**
+ * a field of a table, by its id in the schema. undefined fields are left out of the table, so readers see the default.
+ */
+export type FlatField = FlatScalar | FlatChild | undefined;
+
+export type FlatScalar = { size: 1 | 2 | 4 | 8; write: (view: DataView, position: number) => void };
+
+/**
+ * an object referenced by offset (table, vector or string), which writes itself at the end and returns its position
+ */
+export type FlatChild = (writer: FlatBufferWriter) => number;
+
+export const u8 = (value: number): FlatScalar => ({
+  size: 1,
+  write: (view, position) => view.setUint8(position, value),
+});
+export const bool = (value: boolean): FlatScalar => u8(value ? 1 : 0);
+export const i16 = (value: number): FlatScalar => ({
+  size: 2,
+  write: (view, position) => view.setInt16(position, value, true),
+});
+export const i32 = (value: number): FlatScalar => ({
+  size: 4,
+  write: (view, position) => view.setInt32(position, value, true),
+});
+export const i64 = (value: number): FlatScalar => ({
+  size: 8,
+  write: (view, position) => view.setBigInt64(position, BigInt(value), true),
+});
+
+export function table(fields: FlatField[]): FlatChild {
+  return (writer) => writer.writeTable(fields);
+}
+
+export function string(value: string): FlatChild {
+  return (writer) => writer.writeString(value);
+}
+
+export function vectorOfTables(children: FlatChild[]): FlatChild {
+  return (writer) => writer.writeOffsetVector(children);
+}
+
+/**
+ * a vector of structs aligned to 8 bytes, such as the Buffer, FieldNode and Block structs of Arrow
+ */
+export function vectorOfStructs(structs: FlatScalar[][]): FlatChild {
+  return (writer) => writer.writeStructVector(structs);
+}
+
+export class FlatBufferWriter {
+  #view = new DataView(new ArrayBuffer(1024));
+  #length = 0;
+
+  /**
+   * the buffer holding the root table, padded to 8 bytes
+   */
+  static finish(root: FlatChild): Uint8Array {
+    const writer = new FlatBufferWriter();
+    writer.#reserve(4);
+    writer.#patchOffset(0, root(writer));
+    writer.#align(8);
+    return new Uint8Array(writer.#view.buffer, 0, writer.#length);
+  }
+
+  writeTable(fields: FlatField[]): number {
+    // the vtable comes first: its size, the size of the table, and the offset of every field in the table
+    const vtablePosition = this.#reserve(4 + 2 * fields.length, 2);
+    // the table starts with the offset back to its vtable, then the fields, largest first so that they stay aligned
+    const layout = fields
+      .map((field, id) => ({ field, id, size: field === undefined ? 0 : typeof field === 'function' ? 4 : field.size }))
+      .filter(({ size }) => size > 0)
+      .sort((a, b) => b.size - a.size);
+    let tableSize = 4;
+    const offsets = layout.map(({ size }) => {
+      tableSize = Math.ceil(tableSize / size) * size;
+      const offset = tableSize;
+      tableSize += size;
+      return offset;
+    });
+    const tablePosition = this.#reserve(tableSize, 8);
+
+    this.#view.setUint16(vtablePosition, 4 + 2 * fields.length, true);
+    this.#view.setUint16(vtablePosition + 2, tableSize, true);
+    this.#view.setInt32(tablePosition, tablePosition - vtablePosition, true);
+    const children: [number, FlatChild][] = [];
+    layout.forEach(({ field, id }, index) => {
+      const position = tablePosition + offsets[index];
+      this.#view.setUint16(vtablePosition + 4 + 2 * id, offsets[index], true);
+      if (typeof field === 'function') children.push([position, field]);
+      else field!.write(this.#view, position);
+    });
+    for (const [position, child] of children) this.#patchOffset(position, child(this));
+    return tablePosition;
+  }
+
+  writeString(value: string): number {
+    const bytes = new TextEncoder().encode(value);
+    // the length, the bytes, and a null terminator
+    const position = this.#reserve(4 + bytes.length + 1, 4);
+    this.#view.setUint32(position, bytes.length, true);
+    new Uint8Array(this.#view.buffer).set(bytes, position + 4);
+    return position;
+  }
+
+  writeOffsetVector(children: FlatChild[]): number {
+    const position = this.#reserve(4 + 4 * children.length, 4);
+    this.#view.setUint32(position, children.length, true);
+    children.forEach((child, index) => this.#patchOffset(position + 4 + 4 * index, child(this)));
+    return position;
+  }
+
+  writeStructVector(structs: FlatScalar[][]): number {
+    // the elements are 8-byte aligned, right after the 4-byte length
+    this.#align(8);
+    this.#reserve(4);
+    const position = this.#reserve(4);
+    this.#view.setUint32(position, structs.length, true);
+    for (const struct of structs) {
+      for (const field of struct) {
+        const fieldPosition = this.#reserve(field.size, field.size);
+        field.write(this.#view, fieldPosition);
+      }
+      this.#align(8);
+    }
+    return position;
+  }
+
+  #patchOffset(position: number, target: number) {
+    this.#view.setUint32(position, target - position, true);
+  }
+
+  #align(alignment: number) {
+    this.#reserve(0, alignment);
+  }
+
+  /**
+   * zeroed bytes at the end of the buffer, aligned from its start. returns their position.
+   */
+  #reserve(size: number, alignment = 1): number {
+    const position = Math.ceil(this.#length / alignment) * alignment;
+    this.#length = position + size;
+    if (this.#length > this.#view.byteLength) {
+      const grown = new Uint8Array(Math.max(this.#length, this.#view.byteLength * 2));
+      grown.set(new Uint8Array(this.#view.buffer));
+      this.#view = new DataView(grown.buffer);
+    }
+    return position;
+  }
+}
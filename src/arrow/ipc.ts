@@ -0,0 +1,345 @@
+import { once } from 'events';
+import zlib from 'zlib';
+import fs from 'fs-extra';
+import { z } from 'zod';
+
+import { assertNever } from '../csv/helpers/js-tools.ts';
+import { type DuckDbColumn, type DuckDbScalarType, zodTableDefToDuckdbColumnDefs } from '../duckdb/schema-gen.ts';
+import {
+  type FlatChild,
+  type FlatField,
+  FlatBufferWriter,
+  bool,
+  i16,
+  i32,
+  i64,
+  string,
+  table,
+  u8,
+  vectorOfStructs,
+  vectorOfTables,
+} from './flatbuffer.ts';
+
+/**
+ * the buffers of an Arrow IPC file can be compressed with zstd. lz4 is the other codec of the format,
+ * but it isn't built into node.
+ */
+export const ArrowCompression = {
+  UNCOMPRESSED: 'uncompressed',
+  ZSTD: 'zstd',
+} as const;
+export type ArrowCompression = (typeof ArrowCompression)[keyof typeof ArrowCompression];
+
+export type ArrowExportOptions = {
+  /** defaults to uncompressed, which every Arrow reader can memory-map */
+  compression?: ArrowCompression;
+  /** zstd level, defaults to the zstd default */
+  compressionLevel?: number;
+  /** number of rows of every record batch. defaults to 122880, the row group size of DuckDB. */
+  rowGroupSize?: number;
+};
+
+// see Schema.fbs and Message.fbs in the Arrow format, https://github.com/apache/arrow/tree/main/format
+const METADATA_VERSION_V5 = 4;
+const MessageHeader = { SCHEMA: 1, DICTIONARY_BATCH: 2, RECORD_BATCH: 3 } as const;
+const ArrowType = { INT: 2, FLOATING_POINT: 3, UTF8: 5, LIST: 12 } as const;
+const DOUBLE_PRECISION = 2;
+const ZSTD_CODEC = 1;
+const MAGIC = new TextEncoder().encode('ARROW1');
+const CONTINUATION = 0xffffffff;
+
+type ArrayData = {
+  nodes: { length: number; nullCount: number }[];
+  buffers: Uint8Array[];
+};
+
+type Body = {
+  buffers: Uint8Array[];
+  /** where every buffer is in the body, before padding */
+  bufferBlocks: { offset: number; length: number }[];
+  bodyLength: number;
+};
+
+type Block = { offset: number; metaDataLength: number; bodyLength: number };
+
+/**
+ * write the entries to an Arrow IPC file (Feather v2), with a column per field of the shape.
+ * the types come from the zod schema like the DuckDB columns: strings are utf8, integers int32, numbers float64,
+ * enums dictionary-encoded strings, and arrays lists. entries are written a record batch at a time.
+ */
+export async function exportArrow<T extends Record<string, unknown>>(
+  path: string,
+  shape: z.ZodRawShape,
+  entries: Iterable<T> | AsyncIterable<T>,
+  options: ArrowExportOptions = {},
+): Promise<void> {
+  const { compression = ArrowCompression.UNCOMPRESSED, compressionLevel, rowGroupSize = 122_880 } = options;
+  const params = compressionLevel !== undefined ? { [zlib.constants.ZSTD_c_compressionLevel]: compressionLevel } : {};
+  const compress =
+    compression === ArrowCompression.ZSTD
+      ? (buffer: Uint8Array) => zlib.zstdCompressSync(buffer, { params })
+      : undefined;
+  const columns = zodTableDefToDuckdbColumnDefs(shape);
+  const dictionaries = columns.flatMap((column, id) =>
+    column.type.kind === 'ENUM' ? [{ id, values: column.type.values }] : [],
+  );
+  const schema = schemaTable(columns);
+
+  const tempPath = `${path}.temp`;
+  const writable = fs.createWriteStream(tempPath);
+  let position = 0;
+  const write = async (bytes: Uint8Array) => {
+    position += bytes.length;
+    if (!writable.write(bytes)) await once(writable, 'drain');
+  };
+  // the metadata of a batch has the offsets of its buffers in the body, which are only known once they are compressed
+  const writeMessage = async (headerType: number, header: (body: Body) => FlatChild, data?: ArrayData) => {
+    const body = data ? encodeBody(data, compress) : { buffers: [], bufferBlocks: [], bodyLength: 0 };
+    const metadata = FlatBufferWriter.finish(
+      table([i16(METADATA_VERSION_V5), u8(headerType), header(body), i64(body.bodyLength)]),
+    );
+    const block = { offset: position, metaDataLength: 8 + metadata.length, bodyLength: body.bodyLength };
+    await write(prefix(metadata.length));
+    await write(metadata);
+    for (const buffer of body.buffers) await write(buffer);
+    return block;
+  };
+
+  const dictionaryBlocks: Block[] = [];
+  const recordBatchBlocks: Block[] = [];
+  await write(padded(MAGIC));
+  await writeMessage(MessageHeader.SCHEMA, () => schema);
+  for (const { id, values } of dictionaries) {
+    const data = encodeArray({ kind: 'VARCHAR' }, values);
+    const block = await writeMessage(
+      MessageHeader.DICTIONARY_BATCH,
+      (body) => table([i64(id), recordBatchTable(values.length, data, body, compress !== undefined), bool(false)]),
+      data,
+    );
+    dictionaryBlocks.push(block);
+  }
+  const writeBatch = async (rows: T[]) => {
+    const data: ArrayData = { nodes: [], buffers: [] };
+    for (const column of columns) {
+      const encoded = encodeColumn(column, rows.map((row) => row[column.name]));
+      data.nodes.push(...encoded.nodes);
+      data.buffers.push(...encoded.buffers);
+    }
+    const block = await writeMessage(
+      MessageHeader.RECORD_BATCH,
+      (body) => recordBatchTable(rows.length, data, body, compress !== undefined),
+      data,
+    );
+    recordBatchBlocks.push(block);
+  };
+
+  let batch: T[] = [];
+  for await (const entry of entries) {
+    batch.push(entry);
+    if (batch.length === rowGroupSize) {
+      await writeBatch(batch);
+      batch = [];
+    }
+  }
+  if (batch.length > 0) await writeBatch(batch);
+
+  // the end of the stream, then the footer pointing to every message
+  await write(prefix(0));
+  const footer = FlatBufferWriter.finish(
+    table([i16(METADATA_VERSION_V5), schema, blocks(dictionaryBlocks), blocks(recordBatchBlocks)]),
+  );
+  await write(footer);
+  const footerLength = new Uint8Array(4);
+  new DataView(footerLength.buffer).setInt32(0, footer.length, true);
+  await write(footerLength);
+  await write(MAGIC);
+  writable.end();
+  await once(writable, 'finish');
+  await fs.move(tempPath, path, { overwrite: true });
+}
+
+function schemaTable(columns: DuckDbColumn[]): FlatChild {
+  // little endian
+  return table([i16(0), vectorOfTables(columns.map((column, id) => fieldTable(column, id)))]);
+}
+
+function fieldTable(column: DuckDbColumn, id: number): FlatChild {
+  const { name, type, notNull } = column;
+  switch (type.kind) {
+    case 'VARCHAR':
+    case 'INT':
+    case 'DOUBLE':
+      return table([string(name), bool(!notNull), ...scalarType(type), undefined, vectorOfTables([])]);
+    case 'ENUM': {
+      // the field has the type of the dictionary values, and the type of the indices in its dictionary encoding
+      const dictionary = table([i64(id), intType(indexBitWidth(type.values.length)), bool(false)]);
+      return table([string(name), bool(!notNull), ...scalarType({ kind: 'VARCHAR' }), dictionary, vectorOfTables([])]);
+    }
+    case 'LIST': {
+      // enums inside lists are plain strings, since dictionaries are only written for top-level fields
+      const element = type.element.kind === 'ENUM' ? ({ kind: 'VARCHAR' } as const) : type.element;
+      const item = table([string('item'), bool(true), ...scalarType(element), undefined, vectorOfTables([])]);
+      return table([string(name), bool(!notNull), u8(ArrowType.LIST), table([]), undefined, vectorOfTables([item])]);
+    }
+    default:
+      return assertNever(type);
+  }
+}
+
+/**
+ * the type_type and type fields of a Field, which is how flatbuffers store a union
+ */
+function scalarType(type: Exclude<DuckDbScalarType, { kind: 'ENUM' }>): [FlatField, FlatField] {
+  switch (type.kind) {
+    case 'VARCHAR':
+      return [u8(ArrowType.UTF8), table([])];
+    case 'INT':
+      return [u8(ArrowType.INT), intType(32)];
+    case 'DOUBLE':
+      return [u8(ArrowType.FLOATING_POINT), table([i16(DOUBLE_PRECISION)])];
+    default:
+      return assertNever(type);
+  }
+}
+
+function intType(bitWidth: number): FlatChild {
+  return table([i32(bitWidth), bool(true)]);
+}
+
+function indexBitWidth(valueCount: number) {
+  return valueCount <= 0x80 ? 8 : valueCount <= 0x8000 ? 16 : 32;
+}
+
+function recordBatchTable(length: number, data: ArrayData, body: Body, compressed: boolean): FlatChild {
+  return table([
+    i64(length),
+    vectorOfStructs(data.nodes.map((node) => [i64(node.length), i64(node.nullCount)])),
+    vectorOfStructs(body.bufferBlocks.map((block) => [i64(block.offset), i64(block.length)])),
+    // compressed buffer by buffer
+    compressed ? table([u8(ZSTD_CODEC), u8(0)]) : undefined,
+  ]);
+}
+
+function blocks(list: Block[]): FlatChild {
+  return vectorOfStructs(list.map((block) => [i64(block.offset), i32(block.metaDataLength), i64(block.bodyLength)]));
+}
+
+function encodeColumn(column: DuckDbColumn, values: unknown[]): ArrayData {
+  const { type } = column;
+  if (type.kind !== 'ENUM') return encodeArray(type, values);
+  const indices = new Map(type.values.map((value, index) => [value, index]));
+  const keys = values.map((value) => (value == null ? null : indices.get(String(value))));
+  if (keys.includes(undefined)) {
+    throw new Error(`Column ${column.name} has a value outside of its enum ${type.values.join(', ')}`);
+  }
+  const bitWidth = indexBitWidth(type.values.length);
+  const IndexArray = bitWidth === 8 ? Int8Array : bitWidth === 16 ? Int16Array : Int32Array;
+  return {
+    nodes: [{ length: values.length, nullCount: countNulls(values) }],
+    buffers: [validity(values), bytesOf(new IndexArray(keys.map((key) => key ?? 0)))],
+  };
+}
+
+function encodeArray(type: DuckDbColumn['type'], values: unknown[]): ArrayData {
+  const node = { length: values.length, nullCount: countNulls(values) };
+  const validityBuffer = validity(values);
+  switch (type.kind) {
+    // nulls still take a value, which the validity bitmap hides
+    case 'INT':
+      return {
+        nodes: [node],
+        buffers: [validityBuffer, bytesOf(Int32Array.from(values, (value) => Number(value ?? 0)))],
+      };
+    case 'DOUBLE':
+      return {
+        nodes: [node],
+        buffers: [validityBuffer, bytesOf(Float64Array.from(values, (value) => Number(value ?? 0)))],
+      };
+    case 'VARCHAR':
+    case 'ENUM': {
+      const strings = values.map((value) => Buffer.from(value == null ? '' : String(value)));
+      return { nodes: [node], buffers: [validityBuffer, offsetsOf(strings), Buffer.concat(strings)] };
+    }
+    case 'LIST': {
+      const lists = values.map((value) => (Array.isArray(value) ? value : []));
+      const items = encodeArray(type.element, lists.flat());
+      return {
+        nodes: [node, ...items.nodes],
+        buffers: [validityBuffer, offsetsOf(lists), ...items.buffers],
+      };
+    }
+    default:
+      return assertNever(type);
+  }
+}
+
+function countNulls(values: unknown[]) {
+  return values.reduce<number>((count, value) => (value == null ? count + 1 : count), 0);
+}
+
+/**
+ * a bit per value, set if it isn't null. empty when there are no nulls, which readers take as all valid.
+ */
+function validity(values: unknown[]): Uint8Array {
+  if (values.every((value) => value != null)) return new Uint8Array(0);
+  const bitmap = new Uint8Array(Math.ceil(values.length / 8));
+  values.forEach((value, index) => {
+    if (value != null) bitmap[index >> 3] |= 1 << (index & 7);
+  });
+  return bitmap;
+}
+
+/**
+ * the start of every value in the data, and the end of the last one
+ */
+function offsetsOf(values: { length: number }[]): Uint8Array {
+  const offsets = new Int32Array(values.length + 1);
+  values.forEach((value, index) => (offsets[index + 1] = offsets[index] + value.length));
+  return bytesOf(offsets);
+}
+
+function bytesOf(array: Int8Array | Int16Array | Int32Array | Float64Array): Uint8Array {
+  return new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+}
+
+/**
+ * the buffers of a message body, each padded to 8 bytes. compressed buffers start with their uncompressed length.
+ */
+function encodeBody(data: ArrayData, compress?: (buffer: Uint8Array) => Uint8Array): Body {
+  const buffers: Uint8Array[] = [];
+  const bufferBlocks: Body['bufferBlocks'] = [];
+  let bodyLength = 0;
+  for (const raw of data.buffers) {
+    let buffer = raw;
+    if (compress && raw.length > 0) {
+      const compressed = compress(raw);
+      buffer = new Uint8Array(8 + compressed.length);
+      new DataView(buffer.buffer).setBigInt64(0, BigInt(raw.length), true);
+      buffer.set(compressed, 8);
+    }
+    bufferBlocks.push({ offset: bodyLength, length: buffer.length });
+    const paddedBuffer = padded(buffer);
+    buffers.push(paddedBuffer);
+    bodyLength += paddedBuffer.length;
+  }
+  return { buffers, bufferBlocks, bodyLength };
+}
+
+function padded(bytes: Uint8Array): Uint8Array {
+  const length = Math.ceil(bytes.length / 8) * 8;
+  if (length === bytes.length) return bytes;
+  const result = new Uint8Array(length);
+  result.set(bytes);
+  return result;
+}
+
+/**
+ * the continuation marker and the length of the metadata flatbuffer that every message starts with
+ */
+function prefix(metadataLength: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, CONTINUATION, true);
+  view.setInt32(4, metadataLength, true);
+  return bytes;
+}
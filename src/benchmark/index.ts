@@ -0,0 +1,137 @@
+import { spawn } from 'child_process';
+import { once } from 'events';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import fs from 'fs-extra';
+
+import { findFeedPath } from '../csv/itinerary-tgtfs.ts';
+import { StorageBackendName, isStorageBackendName } from '../storage/index.ts';
+import { type BenchmarkResults, type RunResult, findRegressions, summarizeRuns, toMarkdown } from './results.ts';
+
+// same feeds as import.sh
+const FEED_CODES = ['WMATA_P', 'VICMBAU', 'CARRISMPT'];
+
+const WORKDIR_PATH = path.resolve('workspace');
+const RUN_FEED_SCRIPT = path.join(import.meta.dirname, 'run-feed.ts');
+const README_PATH = path.resolve('README.md');
+const README_START_MARKER = '<!-- benchmark:start -->';
+const README_END_MARKER = '<!-- benchmark:end -->';
+
+/**
+ * usage: node ./src/benchmark/index.ts [--feeds WMATA_P,VICMBAU] [--backends csv-memory,duckdb-memory-copy]
+ *   [--repetitions 3] [--workers 1] [--out workspace/benchmark] [--baseline results.json] [--threshold 0.1]
+ *   [--update-readme] [--index-memory]
+ *
+ * exits with 1 if any metric regressed by more than the threshold against the baseline.
+ * --index-memory also measures the memory of every secondary index, outside of the timed phases.
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      feeds: { type: 'string', default: FEED_CODES.join(',') },
+      backends: { type: 'string', default: Object.values(StorageBackendName).join(',') },
+      repetitions: { type: 'string', default: '3' },
+      // import workers, the benchmark machines have 2 cpus
+      workers: { type: 'string', default: '1' },
+      out: { type: 'string', default: path.join(WORKDIR_PATH, 'benchmark') },
+      baseline: { type: 'string' },
+      threshold: { type: 'string', default: '0.1' },
+      'update-readme': { type: 'boolean', default: false },
+      'index-memory': { type: 'boolean', default: false },
+    },
+  });
+
+  const feeds = values.feeds.split(',');
+  const backends = values.backends.split(',');
+  const repetitions = Number(values.repetitions);
+  const threshold = Number(values.threshold);
+  const importWorkers = Number(values.workers);
+  const unknownBackend = backends.find((backend) => !isStorageBackendName(backend));
+  if (unknownBackend) throw new Error(`Unknown backend ${unknownBackend}`);
+  if (!Number.isInteger(repetitions) || repetitions < 1) throw new Error('--repetitions must be a positive integer');
+  if (Number.isNaN(threshold)) throw new Error('--threshold must be a number');
+  if (!Number.isInteger(importWorkers) || importWorkers < 1) throw new Error('--workers must be a positive integer');
+
+  await fs.mkdirp(values.out);
+
+  const runs: RunResult[] = [];
+  for (const feed of feeds) {
+    const inputPath = await findFeedPath(path.join(WORKDIR_PATH, feed));
+    for (const backend of backends.filter(isStorageBackendName)) {
+      for (let repetition = 1; repetition <= repetitions; repetition++) {
+        console.log(`${feed} ${backend} ${repetition}/${repetitions}`);
+        const exportPath = path.join(values.out, `${feed}-${backend}`);
+        const resultPath = path.join(values.out, `${feed}-${backend}.run.json`);
+        await runFeed(
+          [backend, inputPath, exportPath, resultPath, String(importWorkers)],
+          values['index-memory'],
+        );
+
+        const { totalMs, phases, indexMemory } = await fs.readJson(resultPath);
+        runs.push({
+          feed,
+          backend,
+          repetition,
+          totalMs,
+          phases,
+          outputBytes: await directorySize(exportPath),
+          ...(indexMemory ? { indexMemory } : {}),
+        });
+        await fs.remove(resultPath);
+      }
+    }
+  }
+
+  const results: BenchmarkResults = {
+    createdAt: new Date().toISOString(),
+    nodeVersion: process.version,
+    importWorkers,
+    runs,
+    summaries: summarizeRuns(runs),
+  };
+  const regressions = values.baseline ? findRegressions(results, await fs.readJson(values.baseline), threshold) : [];
+  const markdown = toMarkdown(results, regressions);
+
+  await fs.writeJson(path.join(values.out, 'results.json'), results, { spaces: 2 });
+  await fs.writeFile(path.join(values.out, 'results.md'), markdown);
+  if (values['update-readme']) await updateReadme(markdown);
+
+  console.log(markdown);
+  if (regressions.length > 0) process.exitCode = 1;
+}
+void main();
+
+async function runFeed(args: string[], measureIndexes: boolean) {
+  const nodeArgs = measureIndexes ? [...process.execArgv, '--expose-gc'] : process.execArgv;
+  const scriptArgs = measureIndexes ? [...args, '--index-memory'] : args;
+  const child = spawn(process.execPath, [...nodeArgs, RUN_FEED_SCRIPT, ...scriptArgs], {
+    stdio: ['ignore', 'ignore', 'inherit'],
+  });
+  const [code] = await once(child, 'exit');
+  if (code !== 0) throw new Error(`Benchmark run ${args.join(' ')} exited with code ${code}`);
+}
+
+async function directorySize(dirPath: string): Promise<number> {
+  let size = 0;
+  for (const entry of await fs.readdir(dirPath, { withFileTypes: true })) {
+    const entryPath = path.join(dirPath, entry.name);
+    size += entry.isDirectory() ? await directorySize(entryPath) : (await fs.stat(entryPath)).size;
+  }
+  return size;
+}
+
+/**
+ * replace the stats between the benchmark markers in the readme, or append them if there are no markers yet
+ */
+async function updateReadme(markdown: string) {
+  const readme = await fs.readFile(README_PATH, 'utf-8');
+  const section = `${README_START_MARKER}\n${markdown}${README_END_MARKER}`;
+  const start = readme.indexOf(README_START_MARKER);
+  const end = readme.indexOf(README_END_MARKER);
+  await fs.writeFile(
+    README_PATH,
+    start >= 0 && end > start
+      ? `${readme.slice(0, start)}${section}${readme.slice(end + README_END_MARKER.length)}`
+      : `${readme.trimEnd()}\n\nMeasured stats:\n${section}\n`,
+  );
+}
@@ -0,0 +1,65 @@
+import { type ItineraryTgtfs } from '../csv/itinerary-tgtfs.ts';
+import { type IndexMemory } from '../csv/schema/secondary-index.ts';
+import { TgtfsTableName } from '../csv/tgtfs-types/common.ts';
+
+export type MemoryPeak = {
+  rssBytes: number;
+  heapUsedBytes: number;
+};
+
+/**
+ * samples process.memoryUsage on an interval to find the peak of a phase.
+ * csv parsing yields to the event loop after every chunk read, so samples are taken during long phases too.
+ * the peak rss reported by the OS is also taken into account, since it also catches allocations between samples.
+ */
+export class MemorySampler {
+  #peak: MemoryPeak = { rssBytes: 0, heapUsedBytes: 0 };
+  #maxRssKiB = 0;
+  #timer: NodeJS.Timeout | null = null;
+
+  start(intervalMs = 25) {
+    this.#maxRssKiB = process.resourceUsage().maxRSS;
+    this.sample();
+    this.#timer = setInterval(() => this.sample(), intervalMs);
+    this.#timer.unref();
+  }
+
+  stop() {
+    if (this.#timer) clearInterval(this.#timer);
+    this.#timer = null;
+  }
+
+  sample() {
+    const { rss, heapUsed } = process.memoryUsage();
+    this.#peak.rssBytes = Math.max(this.#peak.rssBytes, rss);
+    this.#peak.heapUsedBytes = Math.max(this.#peak.heapUsedBytes, heapUsed);
+  }
+
+  /**
+   * return the peak since the last call, and start tracking a new one from the current usage
+   */
+  takePeak(): MemoryPeak {
+    this.sample();
+    const maxRssKiB = process.resourceUsage().maxRSS;
+    // the OS peak only grows, so it only says something about this phase if it grew during it
+    const peak = {
+      ...this.#peak,
+      rssBytes: maxRssKiB > this.#maxRssKiB ? Math.max(this.#peak.rssBytes, maxRssKiB * 1024) : this.#peak.rssBytes,
+    };
+    this.#maxRssKiB = maxRssKiB;
+    this.#peak = { rssBytes: 0, heapUsedBytes: 0 };
+    this.sample();
+    return peak;
+  }
+}
+
+/**
+ * the memory of every secondary index of the feed, once it is imported. needs node --expose-gc.
+ */
+export async function measureIndexMemory(tgtfs: ItineraryTgtfs): Promise<IndexMemory[]> {
+  const measured: IndexMemory[] = [];
+  for (const tableName of Object.values(TgtfsTableName)) {
+    measured.push(...(await tgtfs[tableName].measureIndexes()));
+  }
+  return measured;
+}
@@ -0,0 +1,204 @@
+import { type ProcessPhase } from '../csv/itinerary-tgtfs.ts';
+import { type IndexMemory } from '../csv/schema/secondary-index.ts';
+import { type StorageBackendName } from '../storage/index.ts';
+
+export type PhaseResult = {
+  phase: ProcessPhase;
+  durationMs: number;
+  peakRssBytes: number;
+  peakHeapUsedBytes: number;
+};
+
+export type RunResult = {
+  feed: string;
+  backend: StorageBackendName;
+  repetition: number;
+  totalMs: number;
+  outputBytes: number;
+  phases: PhaseResult[];
+  /** only measured with --index-memory */
+  indexMemory?: IndexMemory[];
+};
+
+/**
+ * medians over the repetitions of one feed and backend
+ */
+export type RunSummary = {
+  feed: string;
+  backend: StorageBackendName;
+  repetitions: number;
+  totalMs: number;
+  minTotalMs: number;
+  maxTotalMs: number;
+  peakRssBytes: number;
+  peakHeapUsedBytes: number;
+  outputBytes: number;
+  phases: PhaseResult[];
+  indexMemory?: IndexMemory[];
+};
+
+export type BenchmarkResults = {
+  createdAt: string;
+  nodeVersion: string;
+  importWorkers: number;
+  runs: RunResult[];
+  summaries: RunSummary[];
+};
+
+export type Regression = {
+  feed: string;
+  backend: StorageBackendName;
+  metric: 'totalMs' | 'peakRssBytes' | 'peakHeapUsedBytes' | 'outputBytes';
+  baseline: number;
+  current: number;
+  /** relative increase over the baseline, 0.1 is 10% */
+  change: number;
+};
+
+const COMPARED_METRICS: Regression['metric'][] = ['totalMs', 'peakRssBytes', 'peakHeapUsedBytes', 'outputBytes'];
+
+export function summarizeRuns(runs: RunResult[]): RunSummary[] {
+  const runsByKey = new Map<string, RunResult[]>();
+  for (const run of runs) {
+    const key = `${run.feed}␟${run.backend}`;
+    runsByKey.set(key, [...(runsByKey.get(key) ?? []), run]);
+  }
+
+  return [...runsByKey.values()].map((group) => {
+    const [{ feed, backend }] = group;
+    const phaseNames = group[0].phases.map(({ phase }) => phase);
+    return {
+      feed,
+      backend,
+      repetitions: group.length,
+      totalMs: median(group.map((run) => run.totalMs)),
+      minTotalMs: Math.min(...group.map((run) => run.totalMs)),
+      maxTotalMs: Math.max(...group.map((run) => run.totalMs)),
+      peakRssBytes: median(group.map((run) => Math.max(...run.phases.map((p) => p.peakRssBytes)))),
+      peakHeapUsedBytes: median(group.map((run) => Math.max(...run.phases.map((p) => p.peakHeapUsedBytes)))),
+      outputBytes: median(group.map((run) => run.outputBytes)),
+      phases: phaseNames.map((phase) => {
+        const phaseRuns = group.flatMap((run) => run.phases.filter((p) => p.phase === phase));
+        return {
+          phase,
+          durationMs: median(phaseRuns.map((p) => p.durationMs)),
+          peakRssBytes: median(phaseRuns.map((p) => p.peakRssBytes)),
+          peakHeapUsedBytes: median(phaseRuns.map((p) => p.peakHeapUsedBytes)),
+        };
+      }),
+      ...(group[0].indexMemory
+        ? {
+            indexMemory: group[0].indexMemory.map(({ tableName, index }) => ({
+              tableName,
+              index,
+              bytes: median(
+                group.map((run) => run.indexMemory?.find((measured) => measured.index === index)?.bytes ?? 0),
+              ),
+            })),
+          }
+        : {}),
+    };
+  });
+}
+
+/**
+ * compare every summary that also exists in the baseline, and return the metrics that grew by more than the threshold
+ */
+export function findRegressions(current: BenchmarkResults, baseline: BenchmarkResults, threshold: number): Regression[] {
+  const regressions: Regression[] = [];
+  for (const summary of current.summaries) {
+    const baselineSummary = baseline.summaries.find(
+      ({ feed, backend }) => feed === summary.feed && backend === summary.backend,
+    );
+    if (!baselineSummary) continue;
+    for (const metric of COMPARED_METRICS) {
+      const change = (summary[metric] - baselineSummary[metric]) / baselineSummary[metric];
+      if (change > threshold) {
+        regressions.push({
+          feed: summary.feed,
+          backend: summary.backend,
+          metric,
+          baseline: baselineSummary[metric],
+          current: summary[metric],
+          change,
+        });
+      }
+    }
+  }
+  return regressions;
+}
+
+export function toMarkdown(results: BenchmarkResults, regressions: Regression[] = []): string {
+  const rows = results.summaries.map((summary) => {
+    const phaseTime = (phase: ProcessPhase) =>
+      formatDuration(summary.phases.find((p) => p.phase === phase)?.durationMs ?? 0);
+    return [
+      summary.feed,
+      summary.backend,
+      `${formatDuration(summary.totalMs)} (${formatDuration(summary.minTotalMs)}/${formatDuration(summary.maxTotalMs)})`,
+      phaseTime('Importing'),
+      phaseTime('Processing'),
+      phaseTime('Exporting'),
+      formatBytes(summary.peakRssBytes),
+      formatBytes(summary.peakHeapUsedBytes),
+      formatBytes(summary.outputBytes),
+    ];
+  });
+
+  const lines = [
+    [
+      `Node ${results.nodeVersion}, ${results.importWorkers} import workers, ${results.createdAt}.`,
+      'Medians over the repetitions, total time also shows min/max.',
+    ].join(' '),
+    '',
+    '| Feed | Backend | Time | Importing | Processing | Exporting | Peak RSS | Peak heap | Size |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- | --- |',
+    ...rows.map((row) => `| ${row.join(' | ')} |`),
+  ];
+
+  const indexRows = results.summaries.flatMap((summary) =>
+    (summary.indexMemory ?? []).map(({ index, bytes }) => [summary.feed, summary.backend, index, formatBytes(bytes)]),
+  );
+  if (indexRows.length > 0) {
+    lines.push(
+      '',
+      'Memory of the secondary indexes, measured by building a copy of each once the feed is imported:',
+      '',
+      '| Feed | Backend | Index | Memory |',
+      '| --- | --- | --- | --- |',
+      ...indexRows.map((row) => `| ${row.join(' | ')} |`),
+    );
+  }
+
+  if (regressions.length > 0) {
+    lines.push(
+      '',
+      'Regressions against the baseline:',
+      ...regressions.map(
+        (r) =>
+          `- ${r.feed} ${r.backend}: ${r.metric} ${formatMetric(r.metric, r.baseline)} -> ${formatMetric(r.metric, r.current)} (+${Math.round(r.change * 100)}%)`,
+      ),
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function formatMetric(metric: Regression['metric'], value: number) {
+  return metric === 'totalMs' ? formatDuration(value) : formatBytes(value);
+}
+
+function formatDuration(ms: number) {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+}
+
+function formatBytes(bytes: number) {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)}GB`;
+  if (bytes >= 1024 ** 2) return `${Math.round(bytes / 1024 ** 2)}MB`;
+  return `${Math.round(bytes / 1024)}KB`;
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,69 @@
+import fs from 'fs-extra';
+import { performance } from 'perf_hooks';
+
+import { ItineraryTgtfs, ProcessPhase } from '../csv/itinerary-tgtfs.ts';
+import { isStorageBackendName } from '../storage/index.ts';
+import { MemorySampler, measureIndexMemory } from './memory.ts';
+import { type PhaseResult, type RunResult } from './results.ts';
+
+/**
+ * runs a single feed through a single backend, and writes the measured phases as json.
+ * spawned once per run by the benchmark, so that every run starts from a fresh process.
+ *
+ * usage: node ./src/benchmark/run-feed.ts <backend> <input path> <export path> <result path> [import workers]
+ *   [--index-memory]
+ *
+ * --index-memory measures the memory of every secondary index once the feed is imported, which needs --expose-gc.
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const measureIndexes = args.includes('--index-memory');
+  const [backend, inputPath, exportPath, resultPath, importWorkers = '1'] = args.filter((arg) => !arg.startsWith('--'));
+  if (!backend || !isStorageBackendName(backend) || !inputPath || !exportPath || !resultPath) {
+    throw new Error(
+      'usage: run-feed.ts <backend> <input path> <export path> <result path> [import workers] [--index-memory]',
+    );
+  }
+
+  const sampler = new MemorySampler();
+  const phases: PhaseResult[] = [];
+  let currentPhase: { phase: ProcessPhase; startedAt: number } | null = null;
+  const endPhase = () => {
+    if (!currentPhase) return;
+    const peak = sampler.takePeak();
+    phases.push({
+      phase: currentPhase.phase,
+      durationMs: performance.now() - currentPhase.startedAt,
+      peakRssBytes: peak.rssBytes,
+      peakHeapUsedBytes: peak.heapUsedBytes,
+    });
+  };
+
+  let indexMemory: RunResult['indexMemory'];
+  const tgtfs = new ItineraryTgtfs({
+    backend,
+    importWorkers: Number(importWorkers),
+    onPhase: async (phase) => {
+      endPhase();
+      // the tables are imported and still open when processing starts. measuring is left out of every phase.
+      if (phase === ProcessPhase.PROCESSING && measureIndexes) {
+        indexMemory = await measureIndexMemory(tgtfs);
+        sampler.takePeak();
+      }
+      currentPhase = { phase, startedAt: performance.now() };
+    },
+  });
+
+  await fs.remove(exportPath);
+  await fs.mkdirp(exportPath);
+
+  sampler.start();
+  const startedAt = performance.now();
+  await tgtfs.process(inputPath, exportPath);
+  const totalMs = performance.now() - startedAt;
+  endPhase();
+  sampler.stop();
+
+  await fs.writeJson(resultPath, { totalMs, phases, ...(indexMemory ? { indexMemory } : {}) });
+}
+void main();
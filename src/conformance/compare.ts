@@ -0,0 +1,71 @@
+import { isDeepStrictEqual } from 'util';
+import { type DuckDBConnection, DuckDBInstance } from '@duckdb/node-api';
+
+export type EntityMismatch = {
+  key: string;
+  /**
+   * null when the whole entity is missing or unexpected
+   */
+  field: string | null;
+  expected: unknown;
+  actual: unknown;
+};
+
+/**
+ * compare entities by key, field by field.
+ * a field set to undefined is the same as a missing field, since zod omits the keys missing from the input
+ * while the DuckDB decoder sets every column.
+ */
+export function compareEntities<T extends object>(expected: Map<string, T>, actual: Map<string, T>): EntityMismatch[] {
+  const mismatches: EntityMismatch[] = [];
+  for (const [key, expectedEntity] of expected) {
+    const actualEntity = actual.get(key);
+    if (!actualEntity) {
+      mismatches.push({ key, field: null, expected: expectedEntity, actual: undefined });
+      continue;
+    }
+    const expectedFields = expectedEntity as Record<string, unknown>;
+    const actualFields = actualEntity as Record<string, unknown>;
+    for (const field of new Set([...Object.keys(expectedFields), ...Object.keys(actualFields)])) {
+      if (!isDeepStrictEqual(expectedFields[field], actualFields[field])) {
+        mismatches.push({ key, field, expected: expectedFields[field], actual: actualFields[field] });
+      }
+    }
+  }
+  for (const [key, actualEntity] of actual) {
+    if (!expected.has(key)) mismatches.push({ key, field: null, expected: undefined, actual: actualEntity });
+  }
+  return mismatches;
+}
+
+export type BehaviourResult = {
+  /** what is checked, such as the foreign key error of two backends */
+  check: string;
+  /** what differed from the expected behaviour, empty if nothing did */
+  failures: string[];
+};
+
+/**
+ * a failure naming what differed, if the values are not deeply equal
+ */
+export function compareValues(what: string, expected: unknown, actual: unknown): string[] {
+  if (isDeepStrictEqual(expected, actual)) return [];
+  return [`${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+}
+
+/**
+ * run with a connection to the database at databasePath, or :memory:, and close it afterwards
+ */
+export async function withDuckDb<T>(
+  databasePath: string,
+  run: (connection: DuckDBConnection) => Promise<T>,
+): Promise<T> {
+  const instance = await DuckDBInstance.create(databasePath, { threads: '1' });
+  const connection = await instance.connect();
+  try {
+    return await run(connection);
+  } finally {
+    connection.closeSync();
+    instance.closeSync();
+  }
+}
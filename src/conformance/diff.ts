@@ -0,0 +1,106 @@
+import path from 'path';
+import fs from 'fs-extra';
+
+import { ItineraryTgtfs } from '../csv/itinerary-tgtfs.ts';
+import { DiffEngine, diffTrips } from '../diff/diff.ts';
+import { ChangeKind, type DiffReport } from '../diff/report.ts';
+import { DUCKDB_EXPORT_FILE_NAME } from '../storage/duckdb.ts';
+import { StorageBackendName } from '../storage/index.ts';
+import { type BehaviourResult, compareValues } from './compare.ts';
+
+/**
+ * two versions of a feed: t04 and t07 are removed, t09 and t10 added, the headsign of t02 changed,
+ * the times of t03, the block of t06 (which had none), and the route and headsign of t08
+ */
+const OLD_FEED = path.join(import.meta.dirname, 'cases', 'diff', 'old');
+const NEW_FEED = path.join(import.meta.dirname, 'cases', 'diff', 'new');
+
+/**
+ * the memory engine has to find the changes between the versions, and the duckdb engine the same report,
+ * whether the new version is a feed directory or the tgtfs.duckdb a DuckDB backend exports
+ */
+export async function checkDiff(workPath: string): Promise<BehaviourResult[]> {
+  await fs.emptyDir(workPath);
+  const newExportPath = path.join(workPath, 'new-export');
+  await new ItineraryTgtfs({ onPhase: () => {}, backend: StorageBackendName.DUCKDB_MEMORY_COPY }).process(
+    NEW_FEED,
+    newExportPath,
+  );
+
+  const expected = toJson(await diffTrips(OLD_FEED, NEW_FEED, { engine: DiffEngine.MEMORY }));
+  const results: BehaviourResult[] = [
+    { check: `diff of the ${DiffEngine.MEMORY} engine`, failures: checkExpectedDiff(expected) },
+  ];
+  const others: [name: string, newPath: string][] = [
+    [`${DiffEngine.DUCKDB} engine`, NEW_FEED],
+    [`${DiffEngine.DUCKDB} engine, from ${DUCKDB_EXPORT_FILE_NAME}`, path.join(newExportPath, DUCKDB_EXPORT_FILE_NAME)],
+  ];
+  for (const [name, newPath] of others) {
+    const actual = toJson(await diffTrips(OLD_FEED, newPath, { engine: DiffEngine.DUCKDB }));
+    results.push({
+      check: `diff of the ${DiffEngine.MEMORY} engine and the ${name}`,
+      failures: compareValues('report', expected, actual),
+    });
+  }
+  return results;
+}
+
+type DiffJson = ReturnType<DiffReport['toJson']>;
+
+function checkExpectedDiff(diff: DiffJson): string[] {
+  const modified = (key: string) => {
+    const change = diff.changes.find((change) => change.key === key);
+    return change?.kind === ChangeKind.MODIFIED ? change.fields : undefined;
+  };
+  return [
+    ...compareValues(
+      'counts',
+      { oldCount: 8, newCount: 8, added: 2, removed: 2, modified: 4, unchanged: 2 },
+      {
+        oldCount: diff.oldCount,
+        newCount: diff.newCount,
+        added: diff.added,
+        removed: diff.removed,
+        modified: diff.modified,
+        unchanged: diff.unchanged,
+      },
+    ),
+    ...compareValues(
+      'changed fields',
+      { trip_headsign: 2, arrival_times: 1, departure_times: 1, block_id: 1, route_id: 1 },
+      diff.changedFields,
+    ),
+    // ordered by trip_id
+    ...compareValues(
+      'changes',
+      [
+        ['t02', ChangeKind.MODIFIED],
+        ['t03', ChangeKind.MODIFIED],
+        ['t04', ChangeKind.REMOVED],
+        ['t06', ChangeKind.MODIFIED],
+        ['t07', ChangeKind.REMOVED],
+        ['t08', ChangeKind.MODIFIED],
+        ['t09', ChangeKind.ADDED],
+        ['t10', ChangeKind.ADDED],
+      ],
+      diff.changes.map((change) => [change.key, change.kind]),
+    ),
+    ...compareValues('changes of t02', [{ field: 'trip_headsign', old: 'North', new: 'Downtown' }], modified('t02')),
+    ...compareValues(
+      'changes of t03',
+      [
+        { field: 'arrival_times', old: [0, 60], new: [0, 75] },
+        { field: 'departure_times', old: [0, 60], new: [0, 80] },
+      ],
+      modified('t03'),
+    ),
+    ...compareValues('changes of t06', [{ field: 'block_id', old: null, new: 'B1' }], modified('t06')),
+  ];
+}
+
+/**
+ * the report as it is written, where missing fields of the added and removed entities are left out
+ */
+function toJson(report: DiffReport): DiffJson {
+  return JSON.parse(JSON.stringify(report.toJson()));
+}
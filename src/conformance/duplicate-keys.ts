@@ -0,0 +1,130 @@
+import path from 'path';
+import fs from 'fs-extra';
+
+import { ItineraryTgtfs, type ItineraryTgtfsOptions } from '../csv/itinerary-tgtfs.ts';
+import { DuplicateKeyPolicy } from '../csv/schema/duplicate-keys.ts';
+import { importRows } from '../csv/schema/make-table.ts';
+import { TABLE_CONFIGS } from '../csv/schema/table-configs.ts';
+import { TGTFS_FILE_NAMES, TgtfsTableName } from '../csv/tgtfs-types/common.ts';
+import { type BehaviourResult, compareValues } from './compare.ts';
+import { behaviourStorages } from './storages.ts';
+
+/**
+ * a feed whose route R1 is added twice and R0 three times, in that order, and whose trips k05 and k12 are added again
+ * with the headsigns second, and third for k05, after the first ones. routes have no secondary index, trips do,
+ * which the DuckDB tables merge differently.
+ */
+const DUPLICATE_KEYS_FEED = path.join(import.meta.dirname, 'cases', 'duplicate-keys');
+
+const TRIP_IDS = Array.from({ length: 20 }, (_, trip) => `k${String(trip).padStart(2, '0')}`);
+
+type PolicyOutcome = {
+  /** the error thrown by the process, from the duplicate on, since only the in-memory tables know its location */
+  error: string | null;
+  /** the rows of the exported routes and trips, in the order they were exported */
+  routes: Record<string, unknown>[];
+  trips: Record<string, unknown>[];
+  /** the duplicates report of the collect policy */
+  duplicates: unknown;
+};
+
+/**
+ * every storage has to resolve duplicate keys like the in-memory tables with every policy: throw the same error,
+ * keep the same entities in the same order, and collect the same duplicates in the same order
+ */
+export async function checkDuplicateKeys(workPath: string): Promise<BehaviourResult[]> {
+  await fs.emptyDir(workPath);
+  const storages = behaviourStorages(workPath);
+  const results: BehaviourResult[] = [];
+  for (const policy of Object.values(DuplicateKeyPolicy)) {
+    const outcomes = new Map<string, PolicyOutcome>();
+    for (const [name, options] of storages) {
+      outcomes.set(name, await processOutcome(path.join(workPath, policy, name), policy, options));
+    }
+
+    const [[expectedName], ...others] = storages;
+    const expected = outcomes.get(expectedName)!;
+    results.push({
+      check: `${policy} duplicate keys of ${expectedName}`,
+      failures: checkExpectedOutcome(policy, expected),
+    });
+    for (const [name] of others) {
+      const actual = outcomes.get(name)!;
+      results.push({
+        check: `${policy} duplicate keys of ${expectedName} and ${name}`,
+        failures: [
+          ...compareValues('error', expected.error, actual.error),
+          ...compareValues('routes', expected.routes, actual.routes),
+          ...compareValues('trips', expected.trips, actual.trips),
+          ...compareValues('duplicates', expected.duplicates, actual.duplicates),
+        ],
+      });
+    }
+  }
+  return results;
+}
+
+/**
+ * what the feed has to give with every policy, so that the in-memory tables are checked too
+ */
+function checkExpectedOutcome(policy: DuplicateKeyPolicy, outcome: PolicyOutcome): string[] {
+  if (policy === DuplicateKeyPolicy.ERROR) {
+    return compareValues('duplicate', 'Duplicate value: R1', outcome.error?.split('\n')[1].split(' in ')[0]);
+  }
+  const lastWins = policy === DuplicateKeyPolicy.KEEP_LAST;
+  return [
+    ...compareValues('error', null, outcome.error),
+    ...compareValues(
+      'routes',
+      [
+        ['R0', lastWins ? 'R0 third' : 'R0'],
+        ['R1', lastWins ? 'R1 second' : 'R1'],
+        ['R2', 'R2'],
+      ],
+      outcome.routes.map((route) => [route.route_id, route.route_short_name]),
+    ),
+    ...compareValues('trips', TRIP_IDS, outcome.trips.map((trip) => trip.trip_id)),
+    ...compareValues('headsign of k05', lastWins ? 'third' : 'first', outcome.trips[5]?.trip_headsign),
+    ...compareValues(
+      'duplicates',
+      policy === DuplicateKeyPolicy.COLLECT ? ['R1', 'R0', 'R0', 'k05', 'k12', 'k05'] : undefined,
+      (outcome.duplicates as { duplicates: { key: string }[] } | null)?.duplicates.map((duplicate) => duplicate.key),
+    ),
+  ];
+}
+
+async function processOutcome(
+  exportPath: string,
+  policy: DuplicateKeyPolicy,
+  options: ItineraryTgtfsOptions,
+): Promise<PolicyOutcome> {
+  const reportPath = `${exportPath}-duplicates.json`;
+  // exported as GTFS, so that every storage exports the same csv files
+  const tgtfs = new ItineraryTgtfs({
+    onPhase: () => {},
+    ...options,
+    gtfsExport: true,
+    duplicateKeys: { policy, reportPath },
+  });
+  let error: string | null = null;
+  try {
+    await tgtfs.process(DUPLICATE_KEYS_FEED, exportPath);
+  } catch (thrown) {
+    const message = (thrown as Error).message;
+    error = message.slice(message.indexOf('Entity with'));
+  }
+  return {
+    error,
+    routes: error ? [] : await readRows(exportPath, TgtfsTableName.ROUTES),
+    trips: error ? [] : await readRows(exportPath, TgtfsTableName.TRIPS),
+    duplicates: (await fs.pathExists(reportPath)) ? await fs.readJson(reportPath) : undefined,
+  };
+}
+
+async function readRows(exportPath: string, tableName: TgtfsTableName): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  await importRows(path.join(exportPath, TGTFS_FILE_NAMES[tableName]), TABLE_CONFIGS[tableName], {}, (row) => {
+    rows.push(row);
+  });
+  return rows;
+}
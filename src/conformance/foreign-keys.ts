@@ -0,0 +1,64 @@
+import path from 'path';
+import fs from 'fs-extra';
+
+import { ItineraryTgtfs, type ItineraryTgtfsOptions } from '../csv/itinerary-tgtfs.ts';
+import { type BehaviourResult, compareValues } from './compare.ts';
+import { behaviourStorages } from './storages.ts';
+
+/**
+ * a feed whose trips k07, k08 and k20 reference missing routes or services, in that order
+ */
+const FOREIGN_KEYS_FEED = path.join(import.meta.dirname, 'cases', 'foreign-keys');
+
+/**
+ * every storage has to fail on the same invalid foreign key as the in-memory tables,
+ * which is the first one of the file, and report the same errors when collecting them, so that callers can't tell
+ * which backend caught the problem
+ */
+export async function checkForeignKeyErrors(workPath: string): Promise<BehaviourResult[]> {
+  await fs.emptyDir(workPath);
+  const storages = behaviourStorages(workPath);
+
+  const errors = new Map<string, string | null>();
+  const reports = new Map<string, unknown>();
+  for (const [name, options] of storages) {
+    const exportPath = path.join(workPath, name);
+    errors.set(name, await processError(exportPath, options));
+    const reportPath = path.join(workPath, `${name}-report.json`);
+    await processError(exportPath, { ...options, collectErrors: { reportPath } });
+    reports.set(name, (await fs.readJson(reportPath)).issues);
+  }
+
+  const [[expectedName], ...others] = storages;
+  const expectedError = errors.get(expectedName) ?? null;
+  const results: BehaviourResult[] = [
+    {
+      check: `foreign key error of ${expectedName}`,
+      failures: compareValues(
+        'first invalid value',
+        'Invalid value: RX',
+        expectedError?.split('\n')[2].split(' in ')[0],
+      ),
+    },
+  ];
+  for (const [name] of others) {
+    results.push({
+      check: `foreign key error of ${expectedName} and ${name}`,
+      failures: [
+        ...compareValues('error', expectedError, errors.get(name)),
+        ...compareValues('report', reports.get(expectedName), reports.get(name)),
+      ],
+    });
+  }
+  return results;
+}
+
+async function processError(exportPath: string, options: ItineraryTgtfsOptions): Promise<string | null> {
+  const tgtfs = new ItineraryTgtfs({ onPhase: () => {}, ...options });
+  try {
+    await tgtfs.process(FOREIGN_KEYS_FEED, exportPath);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
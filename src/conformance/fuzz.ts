@@ -0,0 +1,97 @@
+import { isDeepStrictEqual } from 'util';
+
+import { type CsvLocation, type CsvParseOptions, parseChunks } from '../csv/helpers/parse-csv.ts';
+
+export type FuzzFailure = {
+  name: string;
+  iteration: number;
+  message: string;
+};
+
+type ParsedRecord = { row: Record<string, string | undefined>; location: CsvLocation };
+
+// the largest chunk is picked per iteration, so that some iterations split every few characters and others rarely
+const MAX_CHUNK_SIZES = [1, 2, 3, 8, 64, 1024];
+
+/**
+ * mulberry32, so that a failing run can be replayed from its seed
+ */
+export function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * parse the csv split at random boundaries, and check that every record, and where it was found,
+ * is the same as when the csv is parsed in one chunk.
+ */
+export async function fuzzChunkBoundaries(
+  name: string,
+  csv: string,
+  options: CsvParseOptions,
+  iterations: number,
+  random: () => number,
+): Promise<FuzzFailure[]> {
+  const expected = await parseRecords([csv], options);
+  const failures: FuzzFailure[] = [];
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const chunks = splitRandomly(csv, random);
+    let actual: ParsedRecord[];
+    try {
+      actual = await parseRecords(chunks, options);
+    } catch (err) {
+      failures.push({ name, iteration, message: `parsing failed: ${(err as Error).message}` });
+      continue;
+    }
+    const index = expected.findIndex((record, i) => !isDeepStrictEqual(record, actual[i]));
+    if (index >= 0 || actual.length !== expected.length) {
+      const at = index >= 0 ? index : Math.min(expected.length, actual.length);
+      failures.push({
+        name,
+        iteration,
+        message: [
+          `record ${at + 1} differs (${actual.length} records instead of ${expected.length})`,
+          `expected: ${JSON.stringify(expected[at])}`,
+          `actual: ${JSON.stringify(actual[at])}`,
+        ].join('\n'),
+      });
+    }
+  }
+  return failures;
+}
+
+async function parseRecords(chunks: string[], options: CsvParseOptions): Promise<ParsedRecord[]> {
+  const records: ParsedRecord[] = [];
+  await parseChunks(
+    chunks,
+    (row, getLocation) => {
+      records.push({ row, location: getLocation() });
+    },
+    options,
+  );
+  return records;
+}
+
+/**
+ * never splits a surrogate pair, since decoding a file stream doesn't either
+ */
+function splitRandomly(csv: string, random: () => number): string[] {
+  const maxChunkSize = MAX_CHUNK_SIZES[Math.floor(random() * MAX_CHUNK_SIZES.length)]!;
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < csv.length) {
+    let end = Math.min(start + 1 + Math.floor(random() * maxChunkSize), csv.length);
+    if (isLowSurrogate(csv.charCodeAt(end))) end++;
+    chunks.push(csv.slice(start, end));
+    start = end;
+  }
+  return chunks;
+}
+
+const isLowSurrogate = (charCode: number) => charCode >= 0xdc00 && charCode <= 0xdfff;
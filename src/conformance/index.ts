@@ -0,0 +1,141 @@
+import * as path from 'path';
+import { parseArgs } from 'util';
+import fs from 'fs-extra';
+
+import { resolveCsvDialect } from '../csv/helpers/parse-csv.ts';
+import { TGTFS_FILE_NAMES } from '../csv/tgtfs-types/common.ts';
+import { fuzzChunkBoundaries, seededRandom } from './fuzz.ts';
+import { type BehaviourResult } from './compare.ts';
+import { checkDiff } from './diff.ts';
+import { checkDuplicateKeys } from './duplicate-keys.ts';
+import { checkForeignKeyErrors } from './foreign-keys.ts';
+import { checkManifest } from './manifest.ts';
+import { checkPipeline } from './pipeline.ts';
+import { checkRoundTrips } from './round-trip.ts';
+import { checkSecondaryIndexes } from './secondary-indexes.ts';
+
+const FIXTURES_PATH = path.join(import.meta.dirname, 'fixtures');
+const LARGE_TIME_ARRAYS_FEED = 'large-time-arrays';
+// how many mismatches of a failing check are printed, the rest is only counted
+const PRINTED_MISMATCHES = 5;
+
+/**
+ * usage: node ./src/conformance/index.ts [--seed 1234] [--iterations 50] [--out workspace/conformance]
+ *
+ * checks that every fixture feed gives back the same trips through every storage path,
+ * that every storage behaves the same on the feeds of cases/, such as with duplicate keys or secondary indexes,
+ * that the sources and sinks of a pipeline give back the same trips,
+ * that verifying an export reports how it was tampered with,
+ * and that parsing it split at random chunk boundaries gives the same records as parsing it at once.
+ * exits with 1 if any check failed. the seed is printed, so that a failing fuzz run can be replayed.
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      seed: { type: 'string', default: String(Date.now() % 2 ** 32) },
+      iterations: { type: 'string', default: '50' },
+      out: { type: 'string', default: path.resolve('workspace', 'conformance') },
+    },
+  });
+  const seed = Number(values.seed);
+  const iterations = Number(values.iterations);
+  if (!Number.isInteger(seed)) throw new Error('--seed must be an integer');
+  if (!Number.isInteger(iterations) || iterations < 0) throw new Error('--iterations must be a non-negative integer');
+
+  const feeds = (await fs.readdir(FIXTURES_PATH)).map((feed) => [feed, path.join(FIXTURES_PATH, feed)]);
+  const largeTimeArraysPath = path.join(values.out, 'fixtures', LARGE_TIME_ARRAYS_FEED);
+  await writeLargeTimeArraysFeed(largeTimeArraysPath);
+  feeds.push([LARGE_TIME_ARRAYS_FEED, largeTimeArraysPath]);
+
+  let failureCount = 0;
+  for (const [feed, feedPath] of feeds) {
+    for (const result of await checkRoundTrips(feedPath, path.join(values.out, feed))) {
+      console.log(`${result.mismatches.length === 0 ? 'ok  ' : 'FAIL'} ${feed}: ${result.path}`);
+      if (result.mismatches.length === 0) continue;
+      failureCount++;
+      for (const mismatch of result.mismatches.slice(0, PRINTED_MISMATCHES)) {
+        console.log(`       ${JSON.stringify(mismatch)}`);
+      }
+      if (result.mismatches.length > PRINTED_MISMATCHES) {
+        console.log(`       and ${result.mismatches.length - PRINTED_MISMATCHES} more mismatches`);
+      }
+    }
+  }
+
+  const behaviourChecks: [name: string, check: (workPath: string) => Promise<BehaviourResult[]>][] = [
+    ['foreign-keys', checkForeignKeyErrors],
+    ['duplicate-keys', checkDuplicateKeys],
+    ['secondary-indexes', checkSecondaryIndexes],
+    ['diff', checkDiff],
+    ['pipeline', checkPipeline],
+    ['manifest', checkManifest],
+  ];
+  for (const [name, check] of behaviourChecks) {
+    for (const result of await check(path.join(values.out, name))) {
+      console.log(`${result.failures.length === 0 ? 'ok  ' : 'FAIL'} ${result.check}`);
+      if (result.failures.length === 0) continue;
+      failureCount++;
+      for (const failure of result.failures.slice(0, PRINTED_MISMATCHES)) {
+        console.log(`       ${failure.replaceAll('\n', '\n       ')}`);
+      }
+    }
+  }
+
+  console.log(`fuzzing chunk boundaries with seed ${seed}, ${iterations} iterations per file`);
+  const random = seededRandom(seed);
+  const fuzzedFiles = [
+    ...feeds.map(([feed, feedPath]) => [feed, path.join(feedPath, TGTFS_FILE_NAMES.trips), {}] as const),
+    // written by the round trips
+    ...feeds.map(
+      ([feed]) =>
+        [
+          `${feed} (foreign dialect)`,
+          path.join(values.out, feed, 'memory-dialect.txt'),
+          { delimiter: ';', lineTerminator: '\r\n', bom: true },
+        ] as const,
+    ),
+  ];
+  for (const [name, filePath, dialect] of fuzzedFiles) {
+    const csv = await fs.readFile(filePath, 'utf-8');
+    const failures = await fuzzChunkBoundaries(name, csv, { dialect: resolveCsvDialect(dialect) }, iterations, random);
+    console.log(`${failures.length === 0 ? 'ok  ' : 'FAIL'} ${name}: chunk boundaries`);
+    failureCount += failures.length;
+    for (const failure of failures.slice(0, PRINTED_MISMATCHES)) {
+      console.log(`       iteration ${failure.iteration}: ${failure.message.replaceAll('\n', '\n       ')}`);
+    }
+  }
+
+  console.log(failureCount === 0 ? 'all conformance checks passed' : `${failureCount} conformance checks failed`);
+  if (failureCount > 0) process.exitCode = 1;
+}
+void main();
+
+/**
+ * long itineraries are where the time arrays get large, and where a chunk is most likely to end inside a field
+ */
+async function writeLargeTimeArraysFeed(feedPath: string, tripCount = 5, stopCount = 2000) {
+  const rows = [
+    [
+      'trip_id',
+      'raw_trip_id',
+      'route_id',
+      'service_id',
+      'itinerary_index',
+      'arrival_times',
+      'departure_times',
+      'start_pickup_drop_off_windows',
+      'end_pickup_drop_off_windows',
+    ].join(','),
+  ];
+  for (let trip = 0; trip < tripCount; trip++) {
+    const times = Array.from({ length: stopCount }, (_, stop) => trip * 60 + stop * 90);
+    // flexible stops have windows instead of times
+    const isFlexible = (stop: number) => stop % 7 === 3;
+    const stopTimes = times.map((time, stop) => (isFlexible(stop) ? -1 : time));
+    const windowStarts = times.map((time, stop) => (isFlexible(stop) ? time : -1));
+    const windowEnds = times.map((time, stop) => (isFlexible(stop) ? time + 600 : -1));
+    const arrays = [stopTimes, stopTimes, windowStarts, windowEnds].map((array) => `"${JSON.stringify(array)}"`);
+    rows.push([`long${trip}`, `raw${trip}`, 'R1', 'S1', String(trip), ...arrays].join(','));
+  }
+  await fs.outputFile(path.join(feedPath, TGTFS_FILE_NAMES.trips), `${rows.join('\n')}\n`);
+}
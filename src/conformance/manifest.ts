@@ -0,0 +1,164 @@
+import path from 'path';
+import fs from 'fs-extra';
+
+import { ItineraryTgtfs, type ItineraryTgtfsOptions } from '../csv/itinerary-tgtfs.ts';
+import { writeZip } from '../csv/helpers/zip.ts';
+import { TgtfsTableName } from '../csv/tgtfs-types/common.ts';
+import { DUCKDB_EXPORT_FILE_NAME } from '../storage/duckdb.ts';
+import { StorageBackendName } from '../storage/index.ts';
+import { type FeedManifest, MANIFEST_FILE_NAME, type ManifestIssue, verifyExport } from '../storage/manifest.ts';
+import { type BehaviourResult, compareValues } from './compare.ts';
+import { behaviourStorages } from './storages.ts';
+
+/**
+ * the new version of the diff feed, whose tables all have a few rows or none
+ */
+const MANIFEST_FEED = path.join(import.meta.dirname, 'cases', 'diff', 'new');
+
+/**
+ * a feed whose trips reference missing routes and services
+ */
+const FAILING_FEED = path.join(import.meta.dirname, 'cases', 'foreign-keys');
+
+const ROW_COUNTS: FeedManifest['tables'] = {
+  [TgtfsTableName.AGENCY]: 1,
+  [TgtfsTableName.ROUTES]: 2,
+  [TgtfsTableName.STOPS]: 0,
+  [TgtfsTableName.CALENDAR]: 2,
+  [TgtfsTableName.CALENDAR_DATES]: 0,
+  [TgtfsTableName.SHAPES]: 0,
+  [TgtfsTableName.TRIPS]: 8,
+};
+
+const UNLISTED_FILE_NAME = 'notes.txt';
+
+/**
+ * how an export is tampered with, and the issues verifying it has to give
+ */
+type Tampering = [name: string, tamper: (exportPath: string) => Promise<ManifestIssue[]>];
+
+/**
+ * every storage has to write a manifest its export matches, as a directory and as a zip archive, and verifying them
+ * has to report a modified, a missing and an unlisted file, a checksum and a row count that don't add up.
+ * a failed process has to leave the export as it was.
+ */
+export async function checkManifest(workPath: string): Promise<BehaviourResult[]> {
+  await fs.emptyDir(workPath);
+  const storages: [name: string, options: ItineraryTgtfsOptions][] = [
+    ...behaviourStorages(workPath),
+    [`${StorageBackendName.CSV_MEMORY}, exported as GTFS`, { gtfsExport: true }],
+  ];
+  const results: BehaviourResult[] = [];
+  for (const [name, options] of storages) {
+    const exportPath = path.join(workPath, name);
+    await new ItineraryTgtfs({ onPhase: () => {}, ...options }).process(MANIFEST_FEED, exportPath);
+    const manifest: FeedManifest = await fs.readJson(path.join(exportPath, MANIFEST_FILE_NAME));
+    results.push({ check: `manifest of ${name}`, failures: compareValues('row counts', ROW_COUNTS, manifest.tables) });
+
+    const zippedPath = path.join(workPath, `${name}-zipped`);
+    await new ItineraryTgtfs({ onPhase: () => {}, ...options, zipExport: true }).process(MANIFEST_FEED, zippedPath);
+    results.push({
+      check: `manifest of ${name}, zipped`,
+      failures: [
+        ...compareValues('issues', [], await verifyExport(`${zippedPath}.zip`)),
+        ...compareValues('export directory', false, await fs.pathExists(zippedPath)),
+      ],
+    });
+
+    for (const [tampering, tamper] of tamperings(manifest)) {
+      const tamperedPath = path.join(workPath, `${name}-${tampering}`);
+      await fs.copy(exportPath, tamperedPath);
+      const expected = await tamper(tamperedPath);
+      await writeZip(`${tamperedPath}.zip`, tamperedPath);
+      for (const verifiedPath of [tamperedPath, `${tamperedPath}.zip`]) {
+        results.push({
+          check: `manifest of ${name}, ${tampering}${verifiedPath.endsWith('.zip') ? ', zipped' : ''}`,
+          failures: compareValues('issues', summarize(expected), summarize(await verifyExport(verifiedPath))),
+        });
+      }
+    }
+
+    // a failed process leaves the previous export as it was, report included
+    const failedTgtfs = new ItineraryTgtfs({ onPhase: () => {}, ...options, collectErrors: {} });
+    const failed = await failedTgtfs.process(FAILING_FEED, exportPath).then(
+      () => false,
+      () => true,
+    );
+    results.push({
+      check: `manifest of ${name}, after a failed process`,
+      failures: [
+        ...compareValues('failed', true, failed),
+        ...compareValues('issues', [], await verifyExport(exportPath)),
+        ...compareValues('report', true, await fs.pathExists(`${exportPath}.validation-report.json`)),
+      ],
+    });
+  }
+  return results;
+}
+
+function tamperings(manifest: FeedManifest): Tampering[] {
+  // trips.txt or trips.parquet, or the database of the DuckDB backends, which keeps every table
+  const tripsFile =
+    Object.keys(manifest.files).find((name) => path.parse(name).name === TgtfsTableName.TRIPS) ??
+    DUCKDB_EXPORT_FILE_NAME;
+  return [
+    ['untouched', async () => []],
+    [
+      'modified',
+      async (exportPath) => {
+        const filePath = path.join(exportPath, tripsFile);
+        await fs.appendFile(filePath, '\n');
+        const { bytes } = manifest.files[tripsFile];
+        return [
+          { file: tripsFile, message: `The file has ${bytes + 1} bytes instead of ${bytes}` },
+          // nothing can follow the footer of a parquet file, while csv files and databases are still read
+          ...(manifest.format === StorageBackendName.PARQUET
+            ? [{ file: tripsFile, message: `The rows of ${TgtfsTableName.TRIPS} cannot be read` }]
+            : []),
+        ];
+      },
+    ],
+    [
+      'checksum',
+      async (exportPath) => {
+        // the checksum is only compared when the size matches, so it is the one listed that changes
+        const sha256 = manifest.files[tripsFile].sha256;
+        const listedSha256 = '0'.repeat(sha256.length);
+        const files = { ...manifest.files, [tripsFile]: { ...manifest.files[tripsFile], sha256: listedSha256 } };
+        await fs.outputJson(path.join(exportPath, MANIFEST_FILE_NAME), { ...manifest, files }, { spaces: 2 });
+        return [{ file: tripsFile, message: `The SHA-256 checksum is ${sha256} instead of ${listedSha256}` }];
+      },
+    ],
+    [
+      'missing',
+      async (exportPath) => {
+        await fs.remove(path.join(exportPath, tripsFile));
+        return [{ file: tripsFile, message: 'The file is missing' }];
+      },
+    ],
+    [
+      'unlisted',
+      async (exportPath) => {
+        await fs.outputFile(path.join(exportPath, UNLISTED_FILE_NAME), 'not part of the feed\n');
+        return [{ file: UNLISTED_FILE_NAME, message: 'The file is not listed in the manifest' }];
+      },
+    ],
+    [
+      'row count',
+      async (exportPath) => {
+        const rowCount = manifest.tables[TgtfsTableName.TRIPS]!;
+        const tables = { ...manifest.tables, [TgtfsTableName.TRIPS]: rowCount + 1 };
+        await fs.outputJson(path.join(exportPath, MANIFEST_FILE_NAME), { ...manifest, tables }, { spaces: 2 });
+        const message = `The table ${TgtfsTableName.TRIPS} has ${rowCount} rows instead of ${rowCount + 1}`;
+        return [{ file: tripsFile, message }];
+      },
+    ],
+  ];
+}
+
+/**
+ * the issues without the error a file can't be read with, which names the file where it was read
+ */
+function summarize(issues: ManifestIssue[]): string[] {
+  return issues.map((issue) => `${issue.file}: ${issue.message.split(':')[0]}`);
+}
@@ -0,0 +1,114 @@
+import path from 'path';
+import fs from 'fs-extra';
+
+import { TABLE_CONFIGS } from '../csv/schema/table-configs.ts';
+import { type Trip, Trips } from '../csv/schema/trips.ts';
+import { TGTFS_FILE_NAMES, TgtfsTableName } from '../csv/tgtfs-types/common.ts';
+import { Pipeline } from '../pipeline/pipeline.ts';
+import { type BehaviourResult, compareValues, withDuckDb } from './compare.ts';
+import { tripsOnlyTgtfs } from './round-trip.ts';
+
+const FIXTURES_PATH = path.join(import.meta.dirname, 'fixtures');
+const TRIPS_CONFIG = TABLE_CONFIGS[TgtfsTableName.TRIPS];
+
+// what an Arrow IPC file starts and ends with
+const ARROW_MAGIC = 'ARROW1';
+
+/**
+ * every source of a pipeline has to give the trips of the fixture feeds like the in-memory table parses them,
+ * in the order of the file and without checking their keys, and every sink has to write them so that they are read
+ * back the same, in the same order.
+ * nothing reads Arrow files back, so only the number of rows written and the magic of the file are checked.
+ */
+export async function checkPipeline(workPath: string): Promise<BehaviourResult[]> {
+  await fs.emptyDir(workPath);
+  const results: BehaviourResult[] = [];
+  for (const feed of await fs.readdir(FIXTURES_PATH)) {
+    const feedWorkPath = path.join(workPath, feed);
+    await fs.mkdirp(feedWorkPath);
+    results.push(...(await checkFeed(feed, path.join(FIXTURES_PATH, feed, TGTFS_FILE_NAMES.trips), feedWorkPath)));
+  }
+  return results;
+}
+
+async function checkFeed(feed: string, tripsPath: string, workPath: string): Promise<BehaviourResult[]> {
+  const results: BehaviourResult[] = [];
+  const check = async (pipelinePath: string, expectedTrips: Trip[], read: () => Promise<Trip[]>) => {
+    results.push({
+      check: `pipeline of ${feed}: ${pipelinePath}`,
+      failures: compareValues('trips', expectedTrips, await read()),
+    });
+  };
+  const fromCsv = () => Pipeline.fromFile(TRIPS_CONFIG, tripsPath);
+  const readBack = (written: string) => collectTrips(Pipeline.fromFile(TRIPS_CONFIG, written));
+
+  // every row of the file, duplicate keys included
+  const expected = await collectTrips(fromCsv());
+  // keyed like the table, where the last of the duplicates replaces the first one in place
+  await check('csv, keyed', await memoryTrips(tripsPath), async () => [
+    ...new Map(expected.map((trip) => [trip.trip_id, trip])).values(),
+  ]);
+  await check('csv → csv', expected, async () => {
+    const written = path.join(workPath, 'trips.txt');
+    await fromCsv().toCsv(written);
+    return readBack(written);
+  });
+  await check('csv → jsonl', expected, async () => {
+    const written = path.join(workPath, 'trips.jsonl');
+    await fromCsv().toJsonl(written);
+    return readBack(written);
+  });
+  await check('csv → parquet', expected, async () => {
+    const written = path.join(workPath, 'trips.parquet');
+    await fromCsv().toParquet(written, { rowGroupSize: 2 });
+    return readBack(written);
+  });
+
+  const databasePath = path.join(workPath, 'trips.duckdb');
+  await withDuckDb(databasePath, async (connection) => {
+    await fromCsv().toDuckDb(connection, { flushEvery: 2 });
+    await check('csv → duckdb table', expected, () => collectTrips(Pipeline.fromDuckDb(TRIPS_CONFIG, connection)));
+  });
+  // once the database is closed, since it can't be opened twice
+  await check('csv → duckdb file', expected, () => readBack(databasePath));
+
+  const arrowPath = path.join(workPath, 'trips.arrow');
+  const count = await fromCsv().toArrow(arrowPath);
+  const arrow = (await fs.readFile(arrowPath)).toString('latin1');
+  results.push({
+    check: `pipeline of ${feed}: csv → arrow`,
+    failures: [
+      ...compareValues('rows written', expected.length, count),
+      ...compareValues('magic', [ARROW_MAGIC, ARROW_MAGIC], [arrow.slice(0, 6), arrow.slice(-6)]),
+    ],
+  });
+
+  const keptIds = new Set(expected.filter((_, index) => index % 2 === 0).map((trip) => trip.trip_id));
+  const express = (trip: Trip) => ({ ...trip, trip_headsign: 'Express' });
+  await check('csv → filter → map', expected.filter((trip) => keptIds.has(trip.trip_id)).map(express), () =>
+    collectTrips(
+      fromCsv()
+        .filter((trip) => keptIds.has(trip.trip_id))
+        .map(express),
+    ),
+  );
+  return results;
+}
+
+/**
+ * the trips in the order they are given, without their undefined fields, since zod omits the keys missing from the
+ * input while the DuckDB decoder sets every column
+ */
+async function collectTrips(trips: Iterable<Trip> | AsyncIterable<Trip>): Promise<Trip[]> {
+  const collected: Trip[] = [];
+  for await (const trip of trips) {
+    collected.push(Object.fromEntries(Object.entries(trip).filter(([, value]) => value !== undefined)) as Trip);
+  }
+  return collected;
+}
+
+async function memoryTrips(tripsPath: string): Promise<Trip[]> {
+  const trips = Trips(tripsOnlyTgtfs());
+  await trips.importFromPath(tripsPath);
+  return collectTrips(trips);
+}
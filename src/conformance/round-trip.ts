@@ -0,0 +1,253 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { type DuckDBConnection } from '@duckdb/node-api';
+
+import { ItineraryTgtfs, type ItineraryTgtfsOptions } from '../csv/itinerary-tgtfs.ts';
+import { assertNever } from '../csv/helpers/js-tools.ts';
+import { ExportFormat } from '../csv/helpers/export.ts';
+import { ImportFormat } from '../csv/helpers/import.ts';
+import { type CsvDialect, parseCsv } from '../csv/helpers/parse-csv.ts';
+import { writeZip } from '../csv/helpers/zip.ts';
+import { KEY_COLUMN, SEQUENCE_COLUMN } from '../csv/schema/duckdb-table.ts';
+import { type DuckDbTripTable, type Trip, type TripTable, Trips, gtfsTripFields } from '../csv/schema/trips.ts';
+import { exportStopTimes } from '../csv/schema/stop-times.ts';
+import { estimateEntityBytes } from '../csv/schema/spilling-table.ts';
+import {
+  STOP_TIMES_FILE_NAME,
+  TGTFS_FILE_NAMES,
+  TgtfsTableName,
+  gtfsTimePreprocess,
+} from '../csv/tgtfs-types/common.ts';
+import { quoteIdentifier, quoteLiteral } from '../duckdb/sql.ts';
+import { DUCKDB_EXPORT_FILE_NAME } from '../storage/duckdb.ts';
+import { StorageBackendName } from '../storage/index.ts';
+import { type EntityMismatch, compareEntities, withDuckDb } from './compare.ts';
+
+export type RoundTripResult = {
+  /** the storage path, such as csv → duckdb → csv */
+  path: string;
+  mismatches: EntityMismatch[];
+};
+
+type TripsById = Map<string, Trip>;
+
+/**
+ * a dialect as far from the default as possible, to check that exporting and importing in it is lossless
+ */
+const FOREIGN_DIALECT: Partial<CsvDialect> = { delimiter: ';', lineTerminator: '\r\n', bom: true };
+
+/**
+ * parse the trips of the feed once in memory, and check that every other way of storing them gives back the same trips
+ */
+export async function checkRoundTrips(feedPath: string, workPath: string): Promise<RoundTripResult[]> {
+  await fs.emptyDir(workPath);
+  const tripsPath = path.join(feedPath, TGTFS_FILE_NAMES.trips);
+  const tgtfs = tripsOnlyTgtfs();
+  const memoryTrips = Trips(tgtfs);
+  await memoryTrips.importFromPath(tripsPath);
+  const expected = await collectTrips(memoryTrips);
+
+  const results: RoundTripResult[] = [];
+  const check = async (storagePath: string, read: () => Promise<TripsById>) => {
+    results.push({ path: storagePath, mismatches: compareEntities(expected, await read()) });
+  };
+
+  await check('csv → memory → csv', async () => {
+    const exported = path.join(workPath, 'memory.txt');
+    await memoryTrips.exportToPath(exported);
+    return readCsvTrips(exported);
+  });
+  await check('csv → memory → csv (foreign dialect)', async () => {
+    const exported = path.join(workPath, 'memory-dialect.txt');
+    await memoryTrips.exportToPath(exported, false, { dialect: FOREIGN_DIALECT });
+    return readCsvTrips(exported, FOREIGN_DIALECT);
+  });
+
+  await check('csv → memory → jsonl', async () => {
+    const exported = path.join(workPath, 'memory.jsonl');
+    await memoryTrips.exportToJsonlPath(exported);
+    return readJsonlTrips(exported);
+  });
+
+  await check('csv → memory → parquet', async () => {
+    const exported = path.join(workPath, 'memory.parquet');
+    await memoryTrips.exportToPath(exported, false, { format: ExportFormat.PARQUET, rowGroupSize: 2 });
+    return readParquetTrips(exported);
+  });
+  await check('csv → memory → parquet → memory', async () => {
+    const trips = Trips(tripsOnlyTgtfs());
+    await trips.importFromPath(path.join(workPath, 'memory.parquet'));
+    return collectTrips(trips);
+  });
+
+  await check('csv → memory → gtfs', async () => {
+    const exportPath = path.join(workPath, 'memory-gtfs');
+    await exportGtfsTrips(memoryTrips, exportPath);
+    return readGtfsTrips(exportPath, expected);
+  });
+
+  await check('zip → memory', async () => {
+    const zipPath = path.join(workPath, 'feed.zip');
+    await writeZip(zipPath, feedPath);
+    return readCsvTrips(path.join(zipPath, TGTFS_FILE_NAMES.trips));
+  });
+
+  await check('csv → memory, parsed by 2 workers', async () => {
+    const trips = Trips(tripsOnlyTgtfs());
+    await trips.importFromPath(tripsPath, { workers: 2 });
+    return collectTrips(trips);
+  });
+
+  await withDuckDb(':memory:', async (connection) => {
+    const duckDbTrips = await Trips(tgtfs, connection).open();
+    await duckDbTrips.importFromPath(tripsPath);
+    await check('csv → duckdb', () => collectTrips(duckDbTrips));
+    await check('csv → duckdb, queried in two ranges', async () => {
+      // every trip is on one side of the middle trip id, so both queries together give back every trip
+      const middle = [...expected.keys()].sort()[Math.floor(expected.size / 2)] ?? '';
+      return collectTrips([
+        ...(await duckDbTrips.query().whereRange('trip_id', { lt: middle }).all()),
+        ...(await duckDbTrips.query().whereRange('trip_id', { gte: middle }).orderBy('trip_id').all()),
+      ]);
+    });
+    await check('csv → duckdb → csv', async () => {
+      const exported = path.join(workPath, 'duckdb.txt');
+      await duckDbTrips.exportToPath(exported);
+      return readCsvTrips(exported);
+    });
+    await check('csv → duckdb → jsonl', async () => {
+      const exported = path.join(workPath, 'duckdb.jsonl');
+      await duckDbTrips.exportToJsonlPath(exported);
+      return readJsonlTrips(exported);
+    });
+    await check('csv → duckdb → parquet', async () => {
+      const exported = path.join(workPath, 'duckdb.parquet');
+      await duckDbTrips.exportToPath(exported, false, { format: ExportFormat.PARQUET });
+      return readParquetTrips(exported);
+    });
+    await check('csv → duckdb → gtfs', async () => {
+      const exportPath = path.join(workPath, 'duckdb-gtfs');
+      await exportGtfsTrips(duckDbTrips, exportPath);
+      return readGtfsTrips(exportPath, expected);
+    });
+    await duckDbTrips.close();
+  });
+
+  for (const backend of Object.values(StorageBackendName)) {
+    const exportPath = path.join(workPath, backend);
+    await fs.mkdirp(exportPath);
+    await tripsOnlyTgtfs({ backend }).process(feedPath, exportPath);
+    await check(`csv → ${backend}`, () => readExportedTrips(backend, exportPath));
+  }
+
+  await check(`csv → ${StorageBackendName.CSV_MEMORY}, half spilled to duckdb`, async () => {
+    const exportPath = path.join(workPath, 'spilling');
+    await fs.mkdirp(exportPath);
+    const bytes = [...expected.values()].reduce((sum, trip) => sum + estimateEntityBytes(trip), 0) / 2;
+    await tripsOnlyTgtfs({ memoryBudget: { bytes, spillDirectory: workPath } }).process(feedPath, exportPath);
+    return readExportedTrips(StorageBackendName.CSV_MEMORY, exportPath);
+  });
+
+  return results;
+}
+
+/**
+ * the fixtures only have trips, so their routes, services and shapes are not checked
+ */
+export function tripsOnlyTgtfs(options: ItineraryTgtfsOptions = {}): ItineraryTgtfs {
+  const tgtfs = new ItineraryTgtfs({ onPhase: () => {}, ...options });
+  tgtfs.transcodeMode = true;
+  return tgtfs;
+}
+
+async function readExportedTrips(backend: StorageBackendName, exportPath: string): Promise<TripsById> {
+  switch (backend) {
+    case StorageBackendName.CSV_MEMORY:
+      return readCsvTrips(path.join(exportPath, TGTFS_FILE_NAMES.trips));
+    case StorageBackendName.DUCKDB_MEMORY_COPY:
+    case StorageBackendName.DUCKDB_DISK:
+      return withDuckDb(path.join(exportPath, DUCKDB_EXPORT_FILE_NAME), readDuckDbTrips);
+    case StorageBackendName.PARQUET:
+      return readParquetTrips(path.join(exportPath, `${TgtfsTableName.TRIPS}.parquet`));
+    default:
+      return assertNever(backend);
+  }
+}
+
+async function readParquetTrips(tripsPath: string): Promise<TripsById> {
+  return withDuckDb(':memory:', async (connection) => {
+    // the parquet files have no key column, any unique value does since the rows are only read back
+    await Trips(tripsOnlyTgtfs(), connection).open();
+    await connection.run(
+      [
+        `INSERT INTO ${quoteIdentifier(TgtfsTableName.TRIPS)}`,
+        `SELECT *, (row_number() OVER ())::VARCHAR AS ${KEY_COLUMN}, row_number() OVER () AS ${SEQUENCE_COLUMN}`,
+        `FROM read_parquet(${quoteLiteral(tripsPath)});`,
+      ].join(' '),
+    );
+    return readDuckDbTrips(connection);
+  });
+}
+
+async function readCsvTrips(tripsPath: string, dialect?: Partial<CsvDialect>): Promise<TripsById> {
+  const trips = Trips(tripsOnlyTgtfs());
+  await trips.importFromPath(tripsPath, dialect ? { dialect } : {});
+  return collectTrips(trips);
+}
+
+async function readJsonlTrips(tripsPath: string): Promise<TripsById> {
+  const trips = Trips(tripsOnlyTgtfs());
+  await trips.importFromPath(tripsPath, { format: ImportFormat.JSONL });
+  return collectTrips(trips);
+}
+
+async function exportGtfsTrips(trips: TripTable | DuckDbTripTable, exportPath: string) {
+  await fs.mkdirp(exportPath);
+  await trips.exportToPath(path.join(exportPath, TGTFS_FILE_NAMES.trips), true);
+  await exportStopTimes(path.join(exportPath, STOP_TIMES_FILE_NAME), trips);
+}
+
+/**
+ * the expected trips, with their GTFS columns read from trips.txt and their time arrays rebuilt from stop_times.txt.
+ * the other columns are not part of GTFS, so they are taken as they are.
+ */
+async function readGtfsTrips(exportPath: string, expected: TripsById): Promise<TripsById> {
+  const trips: TripsById = new Map();
+  await parseCsv(path.join(exportPath, TGTFS_FILE_NAMES.trips), (row) => {
+    const gtfsValues = Object.keys(gtfsTripFields).map((field) => [field, row[field] === '' ? undefined : row[field]]);
+    const trip = {
+      ...expected.get(row.trip_id!)!,
+      ...Object.fromEntries(gtfsValues),
+      arrival_times: [],
+      departure_times: [],
+      start_pickup_drop_off_windows: [],
+      end_pickup_drop_off_windows: [],
+    };
+    trips.set(trip.trip_id, trip);
+  });
+  const toTime = (value: string | undefined) => (value ? gtfsTimePreprocess(value) : -1);
+  await parseCsv(path.join(exportPath, STOP_TIMES_FILE_NAME), (row) => {
+    const trip = trips.get(row.trip_id!)!;
+    const index = Number(row.stop_sequence);
+    trip.arrival_times[index] = toTime(row.arrival_time);
+    trip.departure_times[index] = toTime(row.departure_time);
+    trip.start_pickup_drop_off_windows[index] = toTime(row.start_pickup_drop_off_window);
+    trip.end_pickup_drop_off_windows[index] = toTime(row.end_pickup_drop_off_window);
+  });
+  return trips;
+}
+
+async function readDuckDbTrips(connection: DuckDBConnection): Promise<TripsById> {
+  const trips = await Trips(tripsOnlyTgtfs(), connection, { validateReads: true }).open();
+  // written outside of the table, so nothing guarantees that the trip ids are unique
+  await trips.validateUniqueKeys();
+  const collected = await collectTrips(trips);
+  await trips.close();
+  return collected;
+}
+
+async function collectTrips(trips: Iterable<Trip> | AsyncIterable<Trip>): Promise<TripsById> {
+  const collected: TripsById = new Map();
+  for await (const trip of trips) collected.set(trip.trip_id, trip);
+  return collected;
+}
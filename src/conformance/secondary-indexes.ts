@@ -0,0 +1,124 @@
+import path from 'path';
+import fs from 'fs-extra';
+
+import { ItineraryTgtfs, type ItineraryTgtfsOptions, ProcessPhase } from '../csv/itinerary-tgtfs.ts';
+import { DuplicateKeyPolicy } from '../csv/schema/duplicate-keys.ts';
+import { makeOneIndexTable } from '../csv/schema/make-table.ts';
+import { type Trip, tripsConfig } from '../csv/schema/trips.ts';
+import { TGTFS_FILE_NAMES } from '../csv/tgtfs-types/common.ts';
+import { type BehaviourResult, compareValues, withDuckDb } from './compare.ts';
+import { tripsOnlyTgtfs } from './round-trip.ts';
+import { behaviourStorages } from './storages.ts';
+
+/**
+ * a feed of 20 trips on the routes R0 and R1 and the blocks B0 to B2, or none, whose trips k05 and k07 are added again
+ * on another route and block. k19 has the raw_trip_id of k00.
+ */
+const SECONDARY_INDEXES_FEED = path.join(import.meta.dirname, 'cases', 'secondary-indexes');
+
+/**
+ * the trips every lookup has to give, after k05 and k07 are replaced with the keep-last policy
+ */
+const EXPECTED_LOOKUPS: Record<string, string[]> = {
+  'block_id B0': ['k00', 'k06', 'k07', 'k09', 'k12', 'k18'],
+  'block_id B1': ['k01', 'k04', 'k05', 'k10', 'k13', 'k16'],
+  'block_id B2': ['k02', 'k08', 'k14', 'k17'],
+  'block_id BX': [],
+  'route_id R0': ['k00', 'k02', 'k04', 'k05', 'k06', 'k08', 'k10', 'k12', 'k14', 'k16', 'k18'],
+  'route_id R1': ['k01', 'k03', 'k07', 'k09', 'k11', 'k13', 'k15', 'k17', 'k19'],
+  'route_id RX': [],
+};
+
+type IndexedField = 'block_id' | 'route_id';
+type TripLookup = { getBy(field: IndexedField, value: string): Trip[] | Promise<Trip[]> };
+
+/**
+ * trips with a unique index on raw_trip_id, which the feed repeats
+ */
+const UNIQUE_RAW_TRIP_ID_CONFIG: typeof tripsConfig = {
+  ...tripsConfig,
+  indexes: [{ fields: ['raw_trip_id'], unique: true }],
+};
+
+/**
+ * every storage has to find the same trips with getBy as the in-memory tables, once some of them are replaced,
+ * and the in-memory and DuckDB tables have to reject the duplicate value of a unique index
+ */
+export async function checkSecondaryIndexes(workPath: string): Promise<BehaviourResult[]> {
+  await fs.emptyDir(workPath);
+  const storages = behaviourStorages(workPath);
+  const lookups = new Map<string, Record<string, string[]>>();
+  for (const [name, options] of storages) {
+    lookups.set(name, await lookUpTrips(path.join(workPath, name), options));
+  }
+
+  const [[expectedName], ...others] = storages;
+  const expected = lookups.get(expectedName)!;
+  const results: BehaviourResult[] = [
+    { check: `secondary indexes of ${expectedName}`, failures: compareValues('lookups', EXPECTED_LOOKUPS, expected) },
+  ];
+  for (const [name] of others) {
+    results.push({
+      check: `secondary indexes of ${expectedName} and ${name}`,
+      failures: compareValues('lookups', expected, lookups.get(name)),
+    });
+  }
+
+  const tripsPath = path.join(SECONDARY_INDEXES_FEED, TGTFS_FILE_NAMES.trips);
+  const UniqueTrips = makeOneIndexTable(UNIQUE_RAW_TRIP_ID_CONFIG);
+  const memoryError = await importError(() => UniqueTrips(tripsOnlyTgtfs()).importFromPath(tripsPath));
+  const duckDbError = await withDuckDb(':memory:', async (connection) => {
+    const trips = await UniqueTrips(tripsOnlyTgtfs(), connection).open();
+    return importError(() => trips.importFromPath(tripsPath));
+  });
+  const [memoryMessage, , memoryValue] = memoryError?.split('\n') ?? [];
+  results.push({
+    check: 'unique index of the in-memory and DuckDB tables',
+    failures: [
+      ...compareValues(
+        'in-memory error',
+        [
+          'Entity with duplicate value in unique index trips_raw_trip_id_idx of table trips',
+          'Duplicate value: r00 in entity:',
+        ],
+        [memoryMessage, memoryValue],
+      ),
+      // a constraint error of DuckDB, once the staged trips are merged
+      ...compareValues('DuckDB duplicate value', true, duckDbError?.includes('duplicate key "r00"')),
+    ],
+  });
+  return results;
+}
+
+/**
+ * the trip ids every lookup of EXPECTED_LOOKUPS gives once the feed is imported, sorted since getBy has no order
+ */
+async function lookUpTrips(exportPath: string, options: ItineraryTgtfsOptions): Promise<Record<string, string[]>> {
+  const lookups: Record<string, string[]> = {};
+  const tgtfs = new ItineraryTgtfs({
+    ...options,
+    duplicateKeys: { policy: DuplicateKeyPolicy.KEEP_LAST },
+    // the tables of the storage are only open while processing
+    onPhase: async (phase) => {
+      if (phase !== ProcessPhase.PROCESSING) return;
+      // the overloads of getBy can't be called on the union of the tables
+      const trips: TripLookup = tgtfs.trips;
+      for (const lookup of Object.keys(EXPECTED_LOOKUPS)) {
+        const [field, value] = lookup.split(' ') as [IndexedField, string];
+        const found = await trips.getBy(field, value);
+        lookups[lookup] = found.map((trip) => trip.trip_id).sort();
+      }
+    },
+  });
+  await tgtfs.process(SECONDARY_INDEXES_FEED, exportPath);
+  return lookups;
+}
+
+async function importError(importTrips: () => Promise<unknown>): Promise<string | null> {
+  try {
+    await importTrips();
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
@@ -0,0 +1,16 @@
+import { type ItineraryTgtfsOptions } from '../csv/itinerary-tgtfs.ts';
+import { StorageBackendName } from '../storage/index.ts';
+
+/**
+ * every storage the behaviour checks compare, starting with the in-memory tables, which the others are compared to
+ */
+export function behaviourStorages(workPath: string): [name: string, options: ItineraryTgtfsOptions][] {
+  return [
+    ...Object.values(StorageBackendName).map((backend): [string, ItineraryTgtfsOptions] => [backend, { backend }]),
+    // a budget of a few trips, so that the entities of a check are split between memory and DuckDB
+    [
+      `${StorageBackendName.CSV_MEMORY}, spilled to duckdb`,
+      { memoryBudget: { bytes: 5000, spillDirectory: workPath } },
+    ],
+  ];
+}
@@ -1,28 +1,137 @@
 import { promisify } from 'util';
 import * as stream from 'stream';
 import { once } from 'events';
-import z from 'zod';
 import fs from 'fs-extra';
+import { z } from 'zod';
+import { ArrowCompression, exportArrow } from '../../arrow/ipc.ts';
+import { type ParquetCompression, exportParquet } from '../../duckdb/parquet.ts';
+import { assertNever } from './js-tools.ts';
+import { type CsvDialect, DEFAULT_CSV_DIALECT, resolveCsvDialect } from './parse-csv.ts';
 
 const finished = promisify(stream.finished);
 
-export async function exportTable<S extends z.ZodRawShape>(
+export const ExportFormat = {
+  CSV: 'csv',
+  JSONL: 'jsonl',
+  PARQUET: 'parquet',
+  ARROW: 'arrow',
+} as const;
+export type ExportFormat = (typeof ExportFormat)[keyof typeof ExportFormat];
+
+export type ExportOptions = {
+  /** defaults to csv */
+  format?: ExportFormat;
+  /** only for csv */
+  dialect?: Partial<CsvDialect>;
+  /** only for parquet, which defaults to zstd, and arrow, which defaults to uncompressed and only supports zstd */
+  compression?: ParquetCompression | ArrowCompression;
+  /** only for zstd */
+  compressionLevel?: number;
+  /** rows per parquet row group or arrow record batch, defaults to 122880 */
+  rowGroupSize?: number;
+};
+
+/**
+ * write the entries in a format, with a column per field of the shape, typed after its zod schema in parquet and arrow.
+ * csv and jsonl keep the arrays as json, parquet and arrow as lists.
+ */
+export async function exportEntities<T extends Record<string, unknown>>(
+  path: string,
+  shape: z.ZodRawShape,
+  entries: Iterable<T> | AsyncIterable<T>,
+  options: ExportOptions = {},
+): Promise<void> {
+  const { format = ExportFormat.CSV, compression, compressionLevel, rowGroupSize } = options;
+  const fields = Object.keys(shape);
+  if ((format === ExportFormat.CSV || format === ExportFormat.JSONL) && compression !== undefined) {
+    throw new Error(`Exporting ${format} doesn't support compression`);
+  }
+  switch (format) {
+    case ExportFormat.CSV: {
+      const csvDialect = resolveCsvDialect(options.dialect);
+      await exportTable(
+        path,
+        entries,
+        (r) => writeCsvRow(fields.map((f) => r[f]), csvDialect),
+        writeCsvRow(fields, csvDialect),
+        csvDialect,
+      );
+      return;
+    }
+    case ExportFormat.JSONL:
+      await exportJsonl(path, entries, (r) => Object.fromEntries(fields.map((f) => [f, r[f]])));
+      return;
+    case ExportFormat.PARQUET:
+      await exportParquet(path, shape, entries, { compression, compressionLevel, rowGroupSize });
+      return;
+    case ExportFormat.ARROW:
+      if (compression !== undefined && !(Object.values(ArrowCompression) as string[]).includes(compression)) {
+        throw new Error(`Arrow files can't be compressed with ${compression}, only with zstd`);
+      }
+      await exportArrow(path, shape, entries, {
+        compression: compression as ArrowCompression | undefined,
+        compressionLevel,
+        rowGroupSize,
+      });
+      return;
+    default:
+      return assertNever(format);
+  }
+}
+
+export async function exportTable<T>(
   path: string,
-  entries: Iterable<z.output<z.ZodObject<S>>>,
-  converter: (entry: z.output<z.ZodObject<S>>) => string,
+  entries: Iterable<T> | AsyncIterable<T>,
+  converter: (entry: T) => string,
   header?: string,
+  /**
+   * only the line terminator and the byte order mark are used here, the converter is in charge of the rest
+   */
+  dialect?: Partial<CsvDialect>,
+): Promise<void> {
+  const { lineTerminator, bom } = resolveCsvDialect(dialect);
+  const prefix = `${bom ? '\uFEFF' : ''}${header ? `${header}${lineTerminator}` : ''}`;
+  await writeLines(path, prefix, entries, converter, lineTerminator);
+}
+
+/**
+ * write one json object per entry and line. undefined fields are left out, like they are missing from the entities.
+ */
+export async function exportJsonl<T>(
+  path: string,
+  entries: Iterable<T> | AsyncIterable<T>,
+  converter: (entry: T) => unknown = (entry) => entry,
+): Promise<void> {
+  await writeLines(path, '', entries, (entry) => JSON.stringify(converter(entry)), '\n');
+}
+
+/**
+ * written to a temp file first, so that the file at path is either the previous one or complete
+ */
+async function writeLines<T>(
+  path: string,
+  prefix: string,
+  entries: Iterable<T> | AsyncIterable<T>,
+  toLine: (entry: T) => string,
+  lineTerminator: string,
 ): Promise<void> {
   const tempPath = `${path}.temp`;
   const writable = fs.createWriteStream(tempPath);
-  if (header) {
-    const writeResult = writable.write(`${header}\n`);
-    if (!writeResult) {
-      await once(writable, 'drain');
-    }
+  if (prefix && !writable.write(prefix)) {
+    await once(writable, 'drain');
   }
-  for (const entry of entries) {
-    if (!writable.write(`${converter(entry)}\n`)) {
-      await once(writable, 'drain');
+  // iterating a sync iterable with for await costs a microtask per entry, so only do it for async sources
+  if (Symbol.asyncIterator in entries) {
+    for await (const entry of entries) {
+      if (!writable.write(`${toLine(entry)}${lineTerminator}`)) {
+        await once(writable, 'drain');
+      }
+    }
+  } else {
+    for (const entry of entries) {
+      if (!writable.write(`${toLine(entry)}${lineTerminator}`)) {
+        await once(writable, 'drain');
+      }
     }
   }
   writable.end();
@@ -34,17 +143,20 @@ export async function exportTable<S extends z.ZodRawShape>(
  * extremely rudimentary function to output a valid csv row
  * handles cases that papaparse can't, such as array fields (such as for trips.arrival_times)
  * escapes quotes with "", as per the spec
- * if the string contains a comma or a quote, wraps the field in quotes and escapes the quotes with an extra quote
+ * if the string contains a comma, a quote, a newline or surrounding whitespace, wraps the field in quotes
+ * and escapes the quotes with an extra quote
  * as per https://datatracker.ietf.org/doc/html/rfc4180
+ * the dialect replaces the comma and the quote, and is expected to be resolved once with resolveCsvDialect
  */
-export function writeCsvRow(row: unknown[]) {
+export function writeCsvRow(row: unknown[], dialect: CsvDialect = DEFAULT_CSV_DIALECT) {
+  const { delimiter, quote } = dialect;
   return row
     .map((entry) => {
       if (Array.isArray(entry)) {
-        return `"${JSON.stringify(entry)}"`;
+        return `${quote}${JSON.stringify(entry).replaceAll(quote, `${quote}${quote}`)}${quote}`;
       }
       if (typeof entry === 'string') {
-        return escapeCsvSpecialChars(entry);
+        return escapeCsvSpecialChars(entry, dialect);
       }
       if (entry == null) {
         return '';
@@ -54,13 +166,16 @@ export function writeCsvRow(row: unknown[]) {
       }
       throw new Error('Unexpected value type in CSV row to output');
     })
-    .join(',');
+    .join(delimiter);
 }
 
-export function writeCsvRows(rows: unknown[][]) {
-  return rows.map((row) => writeCsvRow(row)).join('\n');
+export function writeCsvRows(rows: unknown[][], dialect: CsvDialect = DEFAULT_CSV_DIALECT) {
+  return rows.map((row) => writeCsvRow(row, dialect)).join(dialect.lineTerminator);
 }
 
-function escapeCsvSpecialChars(string: string) {
-  return /[",\n]/.test(string) ? `"${string.replaceAll('"', '""')}"` : string;
+function escapeCsvSpecialChars(string: string, { delimiter, quote }: CsvDialect) {
+  // leading and trailing whitespace is quoted as well, since parsing trims it from unquoted values
+  return string.includes(delimiter) || string.includes(quote) || /[\r\n]|^\s|\s$/.test(string)
+    ? `${quote}${string.replaceAll(quote, `${quote}${quote}`)}${quote}`
+    : string;
 }
@@ -1,30 +1,70 @@
-import fs from 'fs-extra';
-import { type CsvParseState, parseChunk } from './parse-csv.ts';
+import { type CsvDialect, type CsvLocation, parseChunks, resolveCsvDialect } from './parse-csv.ts';
+import { type JsonlParseError, parseJsonl } from './parse-jsonl.ts';
+import { createTextReadStream, pathExists } from './zip.ts';
 
+/**
+ * parquet and duckdb are read through DuckDB, see importFromDuckDbSource
+ */
+export const ImportFormat = {
+  CSV: 'csv',
+  JSONL: 'jsonl',
+  PARQUET: 'parquet',
+  DUCKDB: 'duckdb',
+} as const;
+export type ImportFormat = (typeof ImportFormat)[keyof typeof ImportFormat];
+
+/**
+ * the format of a file by its extension: .jsonl, .parquet or .duckdb, and csv for anything else such as .txt
+ */
+export function importFormatOf(path: string): ImportFormat {
+  if (path.endsWith('.jsonl')) return ImportFormat.JSONL;
+  if (path.endsWith('.parquet')) return ImportFormat.PARQUET;
+  if (path.endsWith('.duckdb')) return ImportFormat.DUCKDB;
+  return ImportFormat.CSV;
+}
+
+/**
+ * the path can be inside a zip archive, such as feed.zip/trips.txt, which is then inflated while it is parsed
+ */
 export async function importFromCsv(
   path: string,
-  addEntity: (preEntity: Record<string, unknown>) => void,
+  /**
+   * getLocation points to the row in the file, for error messages
+   */
+  addEntity: (preEntity: Record<string, unknown>, getLocation: () => CsvLocation) => void,
   transformHeader?: (header: string) => string,
+  /**
+   * called after every chunk read from the file (and after the last line), so that consumers can write out what they buffered
+   */
+  afterChunk?: () => Promise<void> | void,
+  dialect?: Partial<CsvDialect>,
 ): Promise<void> {
-  if (!(await fs.pathExists(path))) {
+  if (!(await pathExists(path))) {
     return;
   }
-  let parseResult: { state: CsvParseState; remainder: string } | undefined = undefined;
-  const csvParseOpts = { ...(transformHeader ? { transformHeader } : {}) };
+  await parseChunks(
+    await createTextReadStream(path),
+    addEntity,
+    { ...(transformHeader ? { transformHeader } : {}), dialect: resolveCsvDialect(dialect) },
+    afterChunk,
+  );
+}
 
-  const readStream = fs.createReadStream(path, { encoding: 'utf-8' });
-  for await (const chunk of readStream) {
-    const result = parseChunk(
-      [parseResult?.remainder ?? '', chunk].join(''),
-      addEntity,
-      parseResult?.state,
-      csvParseOpts,
-    );
-    if (result === -1) return;
-    parseResult = result;
+/**
+ * the same as importFromCsv, for a file with one json object per line.
+ * values keep their json types, so arrays such as trips.arrival_times don't need to be encoded as strings.
+ */
+export async function importFromJsonl(
+  path: string,
+  addEntity: (preEntity: Record<string, unknown>, getLocation: () => CsvLocation) => void,
+  afterChunk?: () => Promise<void> | void,
+  /**
+   * called with the lines that are not a json object, which are skipped. without it, they throw.
+   */
+  onSyntaxError?: (error: JsonlParseError) => void,
+): Promise<void> {
+  if (!(await pathExists(path))) {
+    return;
   }
-  // ensure we don't omit the last line of a csv if the file doesn't have a trailing carriage return
-  // (since the parser recognizes a line only when a carriage return/newline character is met at the end.)
-  // if there is a trailing newline, this won't hurt anyways since the parser just eats newlines.
-  parseChunk([parseResult?.remainder ?? '', '\n'].join(''), addEntity, parseResult?.state, csvParseOpts);
+  await parseJsonl(await createTextReadStream(path), addEntity, onSyntaxError, afterChunk);
 }
@@ -1,34 +1,146 @@
 import { Readable } from 'stream';
-import fs from 'fs-extra';
+import { createTextReadStream } from './zip.ts';
 
 export type CsvParseState = {
   readingState: 'text' | 'escaped';
   header: string[];
   columns: string[];
   text: string;
+  /** 1-based physical line of the next character to parse */
+  line: number;
+  /** number of records parsed so far, not counting the header */
+  record: number;
+  /** byte offset in the file of the chunk being parsed */
+  offset: number;
+  /** where the record being parsed started, when it started in a previous chunk, and the start of its text */
+  recordStart?: { line: number; offset: number; text: string };
 };
 
-type CsvRowParser = (row: Record<string, string | undefined>) => void | -1;
+/**
+ * where a record, or an error, is in a csv file
+ */
+export type CsvLocation = {
+  /** 1-based physical line */
+  line: number;
+  /** 1-based number of the record, not counting the header (which is record 0) */
+  record: number;
+  /** byte offset in the file */
+  offset: number;
+  /** 1-based number of the field, only known for errors of the parser */
+  column?: number;
+  /** the start of the offending line */
+  snippet: string;
+};
+
+export type CsvDialect = {
+  /** a single character */
+  delimiter: string;
+  /** a single character, escaped inside quoted fields by doubling it */
+  quote: string;
+  /**
+   * with \r\n, the \r is removed from the end of lines, but kept inside quoted fields.
+   * with \n, a \r at the end of a line is part of the last value, which trim removes.
+   */
+  lineTerminator: '\n' | '\r\n';
+  /**
+   * whether to write a utf-8 byte order mark at the start of the file.
+   * a byte order mark is always stripped when parsing, since it is never part of the first header name.
+   */
+  bom: boolean;
+  /** trim whitespace around unquoted values */
+  trim: boolean;
+};
+
+export const DEFAULT_CSV_DIALECT: CsvDialect = {
+  delimiter: ',',
+  quote: '"',
+  lineTerminator: '\n',
+  bom: false,
+  trim: true,
+};
+
+const BOM = '\uFEFF';
+
+export type CsvParseOptions = {
+  transformHeader?: (header: string) => string;
+  /** resolved with resolveCsvDialect, which is left to the caller so that it happens once per file */
+  dialect?: CsvDialect;
+};
+
+export function resolveCsvDialect(dialect: Partial<CsvDialect> = {}): CsvDialect {
+  const resolved = { ...DEFAULT_CSV_DIALECT, ...dialect };
+  if (resolved.delimiter.length !== 1 || resolved.quote.length !== 1) {
+    throw new Error('The delimiter and quote of a csv dialect must be single characters');
+  }
+  if (['\r', '\n'].includes(resolved.delimiter) || ['\r', '\n', resolved.delimiter].includes(resolved.quote)) {
+    throw new Error('The delimiter and quote of a csv dialect must differ from each other and from line terminators');
+  }
+  return resolved;
+}
+
+/**
+ * the location is computed lazily, since it is only needed when something is wrong with the row
+ */
+type CsvRowParser = (row: Record<string, string | undefined>, getLocation: () => CsvLocation) => void | -1;
+
+export const SNIPPET_LENGTH = 200;
+
+export class CsvParseError extends Error {
+  /** the message without the location */
+  reason: string;
+  location: CsvLocation;
+  constructor(message: string, location: CsvLocation) {
+    super(
+      [
+        `${message} at line ${location.line}, field ${location.column} (record ${location.record}, byte ${location.offset}):`,
+        location.snippet,
+      ].join('\n'),
+    );
+    this.name = this.constructor.name;
+    this.reason = message;
+    this.location = location;
+  }
+}
 
 /**
- * parse a csv file. return -1 from onRow to stop parsing.
+ * parse a csv file, which can be inside a zip archive such as feed.zip/trips.txt. return -1 from onRow to stop parsing.
  */
 export async function parseCsv(
   pathOrStream: string | Readable,
-  onRow: (row: Record<string, string | undefined>) => void,
+  onRow: CsvRowParser,
+  dialect?: Partial<CsvDialect>,
 ) {
-  let parseResult: { state: CsvParseState; remainder: string } | undefined = undefined;
-  const readStream =
-    typeof pathOrStream === 'string' ? fs.createReadStream(pathOrStream, { encoding: 'utf-8' }) : pathOrStream;
-  for await (const chunk of readStream) {
-    const result = parseChunk([parseResult?.remainder ?? '', chunk].join(''), onRow, parseResult?.state);
+  const readStream = typeof pathOrStream === 'string' ? await createTextReadStream(pathOrStream) : pathOrStream;
+  await parseChunks(readStream, onRow, { dialect: resolveCsvDialect(dialect) });
+}
+
+/**
+ * parse csv text split in chunks of any size, handing the remainder and the state of each chunk to the next.
+ * return -1 from onRow to stop parsing.
+ * @param afterChunk called after every chunk (and after the last line), so that consumers can write out what they buffered
+ * @param initialState to parse from the middle of a file, with the header already parsed
+ */
+export async function parseChunks(
+  chunks: Iterable<string> | AsyncIterable<string>,
+  onRow: CsvRowParser,
+  options: CsvParseOptions = {},
+  afterChunk?: () => Promise<void> | void,
+  initialState?: CsvParseState,
+): Promise<void> {
+  let parseResult: { state: CsvParseState; remainder: string } | undefined = initialState
+    ? { state: initialState, remainder: '' }
+    : undefined;
+  for await (const chunk of chunks) {
+    const result = parseChunk([parseResult?.remainder ?? '', chunk].join(''), onRow, parseResult?.state, options);
     if (result === -1) return;
     parseResult = result;
+    await afterChunk?.();
   }
   // ensure we don't omit the last line of a csv if the file doesn't have a trailing carriage return
   // (since the parser recognizes a line only when a carriage return/newline character is met at the end.)
   // if there is a trailing newline, this won't hurt anyways since the parser just eats newlines.
-  parseChunk([parseResult?.remainder ?? '', '\n'].join(''), onRow, parseResult?.state);
+  parseChunk([parseResult?.remainder ?? '', '\n'].join(''), onRow, parseResult?.state, options);
+  await afterChunk?.();
 }
 
 /**
@@ -43,104 +155,162 @@ export function parseChunk(
     header: [],
     columns: [],
     text: '',
+    line: 1,
+    record: 0,
+    offset: 0,
   },
-  options: {
-    transformHeader?: (header: string) => string;
-  } = {},
+  options: CsvParseOptions = {},
 ) {
-  let i = 0;
-  const lastIndex = Math.max(csv.lastIndexOf('\n'), csv.lastIndexOf(','));
+  const { delimiter, quote, lineTerminator, trim } = options.dialect ?? DEFAULT_CSV_DIALECT;
+  const escapedQuote = `${quote}${quote}`;
+  const trimValue = trim ? (value: string) => value.trim() : (value: string) => value;
+  // nothing was consumed yet, so the chunk starts at the start of the file
+  let i = state.offset === 0 && csv.startsWith(BOM) ? BOM.length : 0;
+  const lastIndex = Math.max(csv.lastIndexOf('\n'), csv.lastIndexOf(delimiter));
+  // index in csv where the record being parsed starts, -1 when it started in a previous chunk
+  let recordStartIndex = state.recordStart ? -1 : i;
+  let recordStartLine = state.recordStart?.line ?? state.line;
+  const fail = (message: string, index: number): never => {
+    const lineStartIndex = csv.lastIndexOf('\n', index - 1) + 1;
+    // the line may have started in a previous chunk
+    const carried = lineStartIndex === 0 && recordStartLine === state.line ? (state.recordStart?.text ?? '') : '';
+    throw new CsvParseError(message, {
+      line: state.line,
+      record: state.header.length === 0 ? 0 : state.record + 1,
+      offset: state.offset + Buffer.byteLength(csv.slice(0, index)),
+      column: state.columns.length + 1,
+      snippet: snippetAt(carried + csv, lineStartIndex),
+    });
+  };
+  const endRecord = () => {
+    if (state.header.length === 0) {
+      state.header = options.transformHeader ? state.columns.map(options.transformHeader) : state.columns;
+    } else {
+      state.record++;
+      if (parser(zipRow(state.header, state.columns), locateRecord(csv, state, recordStartIndex, recordStartLine)) === -1) {
+        return -1;
+      }
+    }
+    state.columns = [];
+  };
   while (i <= lastIndex) {
-    const nextCommaIndex = csv.indexOf(',', i);
+    const nextDelimiterIndex = csv.indexOf(delimiter, i);
     const nextNewlineIndex = csv.indexOf('\n', i);
-    if (nextCommaIndex >= 0 && (nextCommaIndex < nextNewlineIndex || nextNewlineIndex === -1)) {
-      const substr = csv.slice(i, nextCommaIndex);
-      const quoted = substr.includes('"');
+    if (nextDelimiterIndex >= 0 && (nextDelimiterIndex < nextNewlineIndex || nextNewlineIndex === -1)) {
+      const substr = csv.slice(i, nextDelimiterIndex);
+      const quoted = substr.includes(quote);
       if (state.readingState !== 'escaped') {
         if (!quoted) {
-          state.columns.push(substr.trim());
-        } else if (substr.trimStart().startsWith('"')) {
-          if (isFullQuote(substr.trimEnd())) {
-            state.columns.push(substr.trim().slice(1, -1).replaceAll('""', '"'));
+          state.columns.push(trimValue(substr));
+        } else if (substr.trimStart().startsWith(quote)) {
+          if (isFullQuote(substr.trimEnd(), quote)) {
+            state.columns.push(substr.trim().slice(1, -1).replaceAll(escapedQuote, quote));
           } else {
-            state.text += `${substr.trimStart().slice(1)},`;
+            state.text += `${substr.trimStart().slice(1)}${delimiter}`;
             state.readingState = 'escaped';
           }
         } else {
-          throw new Error('Unexpected quote in a non-escaped field');
+          fail('Unexpected quote in a non-escaped field', i);
         }
-      } else if (hasOddNumberEndQuotes(substr.trimEnd())) {
-        state.columns.push((state.text + substr.trimEnd().slice(0, -1)).replaceAll('""', '"'));
+      } else if (hasOddNumberEndQuotes(substr.trimEnd(), quote)) {
+        state.columns.push((state.text + substr.trimEnd().slice(0, -1)).replaceAll(escapedQuote, quote));
         state.readingState = 'text';
         state.text = '';
       } else {
-        state.text += `${substr},`;
+        state.text += `${substr}${delimiter}`;
       }
-      i = nextCommaIndex + 1;
+      i = nextDelimiterIndex + 1;
     } else if (nextNewlineIndex >= 0) {
-      const substr = csv.slice(i, nextNewlineIndex);
-      const quoted = substr.includes('"');
+      // the raw line keeps the \r of a \r\n, for quoted fields spanning lines
+      const rawLine = csv.slice(i, nextNewlineIndex);
+      const substr = lineTerminator === '\r\n' && rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+      const quoted = substr.includes(quote);
       if (state.readingState !== 'escaped') {
         // skip empty lines
         if (!quoted && (state.columns.length > 0 || substr.trim() !== '')) {
-          state.columns.push(substr.trim());
-          if (state.header.length === 0) {
-            state.header = options.transformHeader ? state.columns.map(options.transformHeader) : state.columns;
-          } else if (parser(zipRow(state.header, state.columns)) === -1) {
-            return -1;
-          }
-          state.columns = [];
-        } else if (substr.trimStart().startsWith('"')) {
-          if (isFullQuote(substr.trimEnd())) {
-            state.columns.push(substr.trim().slice(1, -1).replaceAll('""', '"'));
-            if (state.header.length === 0) {
-              state.header = options.transformHeader ? state.columns.map(options.transformHeader) : state.columns;
-            } else if (parser(zipRow(state.header, state.columns)) === -1) {
-              return -1;
-            }
-            state.columns = [];
+          state.columns.push(trimValue(substr));
+          if (endRecord() === -1) return -1;
+        } else if (substr.trimStart().startsWith(quote)) {
+          if (isFullQuote(substr.trimEnd(), quote)) {
+            state.columns.push(substr.trim().slice(1, -1).replaceAll(escapedQuote, quote));
+            if (endRecord() === -1) return -1;
           } else {
-            state.text += `${substr.trimStart().slice(1)}\n`;
+            state.text += `${rawLine.trimStart().slice(1)}\n`;
             state.readingState = 'escaped';
           }
-        } else if (!substr.trimStart().startsWith('"') && quoted) {
-          throw new Error('Unexpected quote in a non-escaped field');
-        }
-      } else if (hasOddNumberEndQuotes(substr.trimEnd())) {
-        state.columns.push((state.text + substr.trimEnd().slice(0, -1)).replaceAll('""', '"'));
-        if (state.header.length === 0) {
-          state.header = options.transformHeader ? state.columns.map(options.transformHeader) : state.columns;
-        } else if (parser(zipRow(state.header, state.columns)) === -1) {
-          return -1;
+        } else if (!substr.trimStart().startsWith(quote) && quoted) {
+          fail('Unexpected quote in a non-escaped field', i);
         }
+      } else if (hasOddNumberEndQuotes(substr.trimEnd(), quote)) {
+        state.columns.push((state.text + substr.trimEnd().slice(0, -1)).replaceAll(escapedQuote, quote));
         state.readingState = 'text';
         state.text = '';
-        state.columns = [];
+        if (endRecord() === -1) return -1;
       } else {
-        state.text += `${substr}\n`;
+        state.text += `${rawLine}\n`;
       }
       i = nextNewlineIndex + 1;
+      state.line++;
+      if (state.columns.length === 0 && state.readingState === 'text') {
+        recordStartIndex = i;
+        recordStartLine = state.line;
+        state.recordStart = undefined;
+      }
     }
   }
 
+  if (state.columns.length > 0 || state.readingState === 'escaped') {
+    const consumed = csv.slice(Math.max(recordStartIndex, 0), lastIndex + 1);
+    state.recordStart =
+      recordStartIndex >= 0 || !state.recordStart
+        ? {
+            line: recordStartLine,
+            offset: state.offset + Buffer.byteLength(csv.slice(0, recordStartIndex)),
+            text: consumed.slice(0, SNIPPET_LENGTH + 1),
+          }
+        : { ...state.recordStart, text: (state.recordStart.text + consumed).slice(0, SNIPPET_LENGTH + 1) };
+  }
+  state.offset += Buffer.byteLength(csv.slice(0, lastIndex + 1));
   return { state, remainder: csv.slice(lastIndex + 1) };
 }
 
-const isFullQuote = (str: string) => {
+/**
+ * the state is read now, since it keeps changing while the chunk is parsed
+ */
+const locateRecord = (csv: string, state: CsvParseState, startIndex: number, line: number) => {
+  const { record, offset, recordStart } = state;
+  return (): CsvLocation =>
+    startIndex < 0 && recordStart
+      ? { line: recordStart.line, record, offset: recordStart.offset, snippet: snippetAt(recordStart.text + csv, 0) }
+      : {
+          line,
+          record,
+          offset: offset + Buffer.byteLength(csv.slice(0, startIndex)),
+          snippet: snippetAt(csv, startIndex),
+        };
+};
+
+const snippetAt = (csv: string, start: number) => {
+  const newlineIndex = csv.indexOf('\n', start);
+  const line = csv.slice(start, newlineIndex === -1 ? undefined : newlineIndex).trimEnd();
+  return line.length > SNIPPET_LENGTH ? `${line.slice(0, SNIPPET_LENGTH)}…` : line;
+};
+
+const isFullQuote = (str: string, quote: string) => {
   let i = str.length - 1;
   let quoteCount = 0;
   for (i; i >= 0; i--) {
-    if (str[i] === '"') quoteCount += 1;
+    if (str[i] === quote) quoteCount += 1;
     else break;
   }
   return i === -1 ? quoteCount % 2 === 0 : quoteCount % 2 === 1;
 };
 
-const hasOddNumberEndQuotes = (str: string) => {
+const hasOddNumberEndQuotes = (str: string, quote: string) => {
   let i = str.length - 1;
   let quoteCount = 0;
   for (i; i >= 0; i--) {
-    if (str[i] === '"') quoteCount += 1;
+    if (str[i] === quote) quoteCount += 1;
     else break;
   }
   return quoteCount % 2 === 1;
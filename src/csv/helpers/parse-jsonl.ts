@@ -0,0 +1,93 @@
+import { type CsvLocation, SNIPPET_LENGTH } from './parse-csv.ts';
+
+const BOM = '\uFEFF';
+
+/**
+ * getLocation points to the line in the file, for error messages
+ */
+export type JsonlRowParser = (row: Record<string, unknown>, getLocation: () => CsvLocation) => void;
+
+export class JsonlParseError extends Error {
+  /** the message without the location */
+  reason: string;
+  location: CsvLocation;
+  constructor(message: string, location: CsvLocation) {
+    super(
+      [
+        `${message} at line ${location.line} (record ${location.record}, byte ${location.offset}):`,
+        location.snippet,
+      ].join('\n'),
+    );
+    this.name = this.constructor.name;
+    this.reason = message;
+    this.location = location;
+  }
+}
+
+/**
+ * parse json lines: one json object per line. blank lines are skipped, but still counted as lines.
+ * every line is parsed on its own, so a broken line doesn't affect the lines after it.
+ *
+ * @param onError called with the lines that are not a json object, which are then skipped. without it, they throw.
+ */
+export async function parseJsonl(
+  chunks: Iterable<string> | AsyncIterable<string>,
+  onRow: JsonlRowParser,
+  onError?: (error: JsonlParseError) => void,
+  afterChunk?: () => Promise<void> | void,
+): Promise<void> {
+  let remainder = '';
+  let line = 0;
+  let record = 0;
+  // in bytes, of the start of the remainder
+  let offset = 0;
+
+  const parseLine = (text: string, start: number, end: number, textOffset: number) => {
+    line++;
+    const lineText = text.slice(start, text[end - 1] === '\r' ? end - 1 : end);
+    if (lineText.trim() === '') return;
+    record++;
+    const location = { line, record };
+    const getLocation = (): CsvLocation => ({
+      ...location,
+      offset: textOffset + Buffer.byteLength(text.slice(0, start)),
+      snippet: lineText.length > SNIPPET_LENGTH ? `${lineText.slice(0, SNIPPET_LENGTH)}…` : lineText,
+    });
+
+    let row: unknown;
+    try {
+      row = JSON.parse(lineText);
+    } catch (err) {
+      fail(`Invalid JSON (${(err as Error).message})`, getLocation());
+      return;
+    }
+    if (typeof row !== 'object' || row === null || Array.isArray(row)) {
+      fail('Expected a JSON object', getLocation());
+      return;
+    }
+    onRow(row as Record<string, unknown>, getLocation);
+  };
+
+  const fail = (message: string, location: CsvLocation) => {
+    const error = new JsonlParseError(message, location);
+    if (!onError) throw error;
+    onError(error);
+  };
+
+  for await (const chunk of chunks) {
+    const text = remainder + chunk;
+    let start = offset === 0 && text.startsWith(BOM) ? BOM.length : 0;
+    for (let end = text.indexOf('\n', start); end !== -1; end = text.indexOf('\n', start)) {
+      parseLine(text, start, end, offset);
+      start = end + 1;
+    }
+    remainder = text.slice(start);
+    offset += Buffer.byteLength(text.slice(0, start));
+    await afterChunk?.();
+  }
+  // the last line doesn't need a trailing newline
+  if (remainder !== '') {
+    parseLine(remainder, 0, remainder.length, offset);
+    await afterChunk?.();
+  }
+}
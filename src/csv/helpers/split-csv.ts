@@ -0,0 +1,83 @@
+import fs from 'fs-extra';
+
+import { type CsvDialect } from './parse-csv.ts';
+
+/**
+ * a byte range of a csv file that starts and ends on record boundaries
+ */
+export type CsvRange = {
+  start: number;
+  /** exclusive */
+  end: number;
+  /** 1-based physical line the range starts on */
+  line: number;
+};
+
+const NEWLINE = 0x0a;
+
+/**
+ * split a csv file into about rangeCount ranges of similar size, which can be parsed independently given the header.
+ *
+ * a newline only ends a record outside of quotes, and since quotes inside quoted fields are doubled,
+ * counting quotes from the start of the file is enough to know if a newline is quoted.
+ * a stray quote in a non-escaped field throws the count off, but parsing fails on that quote anyways,
+ * before any range after it matters.
+ */
+export async function splitCsv(
+  path: string,
+  rangeCount: number,
+  dialect: CsvDialect,
+): Promise<{ headerText: string; ranges: CsvRange[] }> {
+  const quote = dialect.quote.charCodeAt(0);
+  if (quote > 0x7f) throw new Error('Splitting a csv requires an ascii quote character');
+  const { size } = await fs.stat(path);
+
+  let headerEnd = -1;
+  const boundaries: { offset: number; line: number }[] = [];
+  let nextTarget = 0;
+  const onRecordBoundary = (offset: number, line: number) => {
+    if (headerEnd === -1) {
+      headerEnd = offset;
+      boundaries.push({ offset, line });
+      nextTarget = headerEnd + (size - headerEnd) / rangeCount;
+    } else if (offset >= nextTarget && offset < size) {
+      boundaries.push({ offset, line });
+      nextTarget = headerEnd + ((size - headerEnd) * boundaries.length) / rangeCount;
+    }
+  };
+
+  let position = 0;
+  let line = 1;
+  let quoted = false;
+  for await (const chunk of fs.createReadStream(path) as AsyncIterable<Buffer>) {
+    let quoteIndex = chunk.indexOf(quote);
+    let newlineIndex = chunk.indexOf(NEWLINE);
+    while (quoteIndex !== -1 || newlineIndex !== -1) {
+      if (newlineIndex !== -1 && (quoteIndex === -1 || newlineIndex < quoteIndex)) {
+        line++;
+        if (!quoted) onRecordBoundary(position + newlineIndex + 1, line);
+        newlineIndex = chunk.indexOf(NEWLINE, newlineIndex + 1);
+      } else {
+        quoted = !quoted;
+        quoteIndex = chunk.indexOf(quote, quoteIndex + 1);
+      }
+    }
+    position += chunk.length;
+  }
+
+  if (headerEnd === -1) {
+    // only a header, without a newline
+    return { headerText: await fs.readFile(path, 'utf-8'), ranges: [] };
+  }
+  const header = Buffer.alloc(headerEnd);
+  const file = await fs.open(path, 'r');
+  try {
+    await fs.read(file, header, 0, headerEnd, 0);
+  } finally {
+    await fs.close(file);
+  }
+  const ranges = boundaries
+    .map(({ offset, line }, i) => ({ start: offset, end: boundaries[i + 1]?.offset ?? size, line }))
+    .filter(({ start, end }) => end > start);
+  return { headerText: header.toString('utf-8'), ranges };
+}
@@ -0,0 +1,409 @@
+import path from 'path';
+import * as stream from 'stream';
+import { type FileHandle, open } from 'fs/promises';
+import { once } from 'events';
+import { pipeline } from 'stream/promises';
+import zlib from 'zlib';
+import fs from 'fs-extra';
+
+/**
+ * a minimal zip reader and writer on top of zlib, so that feeds can be read from their archive without unpacking it.
+ * see https://pkware.cachefly.net/webdocs/casestudies/APPNOTE.TXT for the format.
+ */
+
+export const ZipCompressionMethod = {
+  STORED: 0,
+  DEFLATED: 8,
+} as const;
+export type ZipCompressionMethod = (typeof ZipCompressionMethod)[keyof typeof ZipCompressionMethod];
+
+export type ZipEntry = {
+  /** the path of the file in the archive, with / as the separator */
+  name: string;
+  flags: number;
+  compressionMethod: number;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+};
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+
+const LOCAL_HEADER_SIZE = 30;
+const DATA_DESCRIPTOR_SIZE = 16;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE = 56;
+const ZIP64_LOCATOR_SIZE = 20;
+const MAX_COMMENT_LENGTH = 0xffff;
+const UINT16_MAX = 0xffff;
+const UINT32_MAX = 0xffffffff;
+
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8_NAME = 0x0800;
+// 2.0: deflate and folders
+const ZIP_VERSION = 20;
+
+export function isZipFileName(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() === '.zip';
+}
+
+/**
+ * a zip archive is read like a directory: feed.zip/trips.txt is the trips.txt entry of feed.zip.
+ * returns null for paths that exist on disk or are not inside an archive.
+ */
+export async function splitZipPath(filePath: string): Promise<{ zipPath: string; entryName: string } | null> {
+  if (await fs.pathExists(filePath)) {
+    return null;
+  }
+  for (let zipPath = path.dirname(filePath); zipPath !== path.dirname(zipPath); zipPath = path.dirname(zipPath)) {
+    if (isZipFileName(zipPath) && (await isFile(zipPath))) {
+      return { zipPath, entryName: path.relative(zipPath, filePath).split(path.sep).join('/') };
+    }
+  }
+  return null;
+}
+
+/**
+ * fs.pathExists, for files on disk and in zip archives
+ */
+export async function pathExists(filePath: string): Promise<boolean> {
+  const zipPath = await splitZipPath(filePath);
+  if (!zipPath) {
+    return fs.pathExists(filePath);
+  }
+  return (await readZipEntries(zipPath.zipPath)).has(zipPath.entryName);
+}
+
+/**
+ * a utf-8 stream of a file on disk or in a zip archive. entries are inflated while they are read.
+ */
+export async function createTextReadStream(filePath: string): Promise<stream.Readable> {
+  const zipPath = await splitZipPath(filePath);
+  if (!zipPath) {
+    return fs.createReadStream(filePath, { encoding: 'utf-8' });
+  }
+  const entry = (await readZipEntries(zipPath.zipPath)).get(zipPath.entryName);
+  if (!entry) {
+    throw new Error(`${zipPath.entryName} not found in ${zipPath.zipPath}`);
+  }
+  return (await openZipEntry(zipPath.zipPath, entry)).setEncoding('utf-8');
+}
+
+/**
+ * the entries of the central directory, by name. directories are left out.
+ */
+export async function readZipEntries(zipPath: string): Promise<Map<string, ZipEntry>> {
+  const handle = await open(zipPath, 'r');
+  try {
+    const { size } = await handle.stat();
+    // the end of central directory record is followed by a comment of up to 64KB
+    const tailLength = Math.min(size, END_OF_CENTRAL_DIRECTORY_SIZE + MAX_COMMENT_LENGTH);
+    const tail = await readAt(handle, size - tailLength, tailLength);
+    const end = tail.lastIndexOf(uint32(END_OF_CENTRAL_DIRECTORY_SIGNATURE), tailLength - END_OF_CENTRAL_DIRECTORY_SIZE);
+    if (end === -1) {
+      throw new Error(`${zipPath} is not a zip archive, it has no end of central directory record`);
+    }
+    let entryCount = tail.readUInt16LE(end + 10);
+    let directorySize = tail.readUInt32LE(end + 12);
+    let directoryOffset = tail.readUInt32LE(end + 16);
+
+    if (entryCount === UINT16_MAX || directorySize === UINT32_MAX || directoryOffset === UINT32_MAX) {
+      const locator = end - ZIP64_LOCATOR_SIZE;
+      if (locator < 0 || tail.readUInt32LE(locator) !== ZIP64_LOCATOR_SIGNATURE) {
+        throw new Error(`${zipPath} is missing its zip64 end of central directory locator`);
+      }
+      const zip64Offset = readUInt64(tail, locator + 8);
+      const zip64End = await readAt(handle, zip64Offset, ZIP64_END_OF_CENTRAL_DIRECTORY_SIZE);
+      if (zip64End.readUInt32LE(0) !== ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+        throw new Error(`${zipPath} has an invalid zip64 end of central directory record`);
+      }
+      entryCount = readUInt64(zip64End, 32);
+      directorySize = readUInt64(zip64End, 40);
+      directoryOffset = readUInt64(zip64End, 48);
+    }
+
+    const directory = await readAt(handle, directoryOffset, directorySize);
+    const entries = new Map<string, ZipEntry>();
+    let position = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (directory.readUInt32LE(position) !== CENTRAL_HEADER_SIGNATURE) {
+        throw new Error(`${zipPath} has an invalid central directory header for entry ${i}`);
+      }
+      const flags = directory.readUInt16LE(position + 8);
+      const nameLength = directory.readUInt16LE(position + 28);
+      const extraLength = directory.readUInt16LE(position + 30);
+      const commentLength = directory.readUInt16LE(position + 32);
+      const nameStart = position + CENTRAL_HEADER_SIZE;
+      // names without the utf-8 flag are in cp437, which matches latin1 for the file names feeds use
+      const name = directory.toString(flags & FLAG_UTF8_NAME ? 'utf-8' : 'latin1', nameStart, nameStart + nameLength);
+      const entry: ZipEntry = {
+        name,
+        flags,
+        compressionMethod: directory.readUInt16LE(position + 10),
+        crc32: directory.readUInt32LE(position + 16),
+        compressedSize: directory.readUInt32LE(position + 20),
+        uncompressedSize: directory.readUInt32LE(position + 24),
+        localHeaderOffset: directory.readUInt32LE(position + 42),
+      };
+      readZip64Extra(entry, directory.subarray(nameStart + nameLength, nameStart + nameLength + extraLength));
+      if (!name.endsWith('/')) {
+        entries.set(name, entry);
+      }
+      position = nameStart + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * the uncompressed bytes of the entry. the crc is checked at the end, so a corrupted entry fails the stream.
+ */
+export async function openZipEntry(zipPath: string, entry: ZipEntry): Promise<stream.Readable> {
+  if (entry.flags & FLAG_ENCRYPTED) {
+    throw new Error(`${entry.name} in ${zipPath} is encrypted, which is not supported`);
+  }
+  if (entry.compressionMethod !== ZipCompressionMethod.STORED && entry.compressionMethod !== ZipCompressionMethod.DEFLATED) {
+    throw new Error(`${entry.name} in ${zipPath} uses compression method ${entry.compressionMethod}, which is not supported`);
+  }
+
+  // the local header can have a different extra field than the central directory, so its length is read from it
+  const handle = await open(zipPath, 'r');
+  let dataStart: number;
+  try {
+    const header = await readAt(handle, entry.localHeaderOffset, LOCAL_HEADER_SIZE);
+    if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`${entry.name} in ${zipPath} has an invalid local header`);
+    }
+    dataStart = entry.localHeaderOffset + LOCAL_HEADER_SIZE + header.readUInt16LE(26) + header.readUInt16LE(28);
+  } finally {
+    await handle.close();
+  }
+
+  const raw =
+    entry.compressedSize === 0
+      ? stream.Readable.from([])
+      : fs.createReadStream(zipPath, { start: dataStart, end: dataStart + entry.compressedSize - 1 });
+  const checked = checkCrc32(entry, zipPath);
+  // errors destroy every stream of the pipeline, so they reach whoever reads the last one
+  return entry.compressionMethod === ZipCompressionMethod.DEFLATED
+    ? stream.pipeline(raw, zlib.createInflateRaw(), checked, () => {})
+    : stream.pipeline(raw, checked, () => {});
+}
+
+/**
+ * pack every file of the directory into a zip archive, deflated.
+ * written to a temp file first, so that the archive at zipPath is either the previous one or complete.
+ */
+export async function writeZip(zipPath: string, directoryPath: string): Promise<void> {
+  const tempPath = `${zipPath}.temp`;
+  const writable = fs.createWriteStream(tempPath);
+  let offset = 0;
+  const write = async (chunk: Buffer) => {
+    offset += chunk.length;
+    if (!writable.write(chunk)) {
+      await once(writable, 'drain');
+    }
+  };
+
+  const entries: ZipEntry[] = [];
+  const modifiedAt = new Map<string, Date>();
+  for (const filePath of await listFiles(directoryPath)) {
+    const name = path.relative(directoryPath, filePath).split(path.sep).join('/');
+    const { mtime } = await fs.stat(filePath);
+    const entry: ZipEntry = {
+      name,
+      // the sizes and the crc are only known after compressing, so they follow the data in a data descriptor
+      flags: FLAG_DATA_DESCRIPTOR | FLAG_UTF8_NAME,
+      compressionMethod: ZipCompressionMethod.DEFLATED,
+      crc32: 0,
+      compressedSize: 0,
+      uncompressedSize: 0,
+      localHeaderOffset: offset,
+    };
+    checkZip32Limit(entry.localHeaderOffset, name);
+    modifiedAt.set(name, mtime);
+    await write(localHeader(entry, mtime));
+
+    await pipeline(
+      fs.createReadStream(filePath),
+      async function* (source: AsyncIterable<Buffer>) {
+        for await (const chunk of source) {
+          entry.crc32 = zlib.crc32(chunk, entry.crc32);
+          entry.uncompressedSize += chunk.length;
+          yield chunk;
+        }
+      },
+      zlib.createDeflateRaw(),
+      async (source: AsyncIterable<Buffer>) => {
+        for await (const chunk of source) {
+          entry.compressedSize += chunk.length;
+          await write(chunk);
+        }
+      },
+    );
+    checkZip32Limit(entry.uncompressedSize, name);
+    checkZip32Limit(entry.compressedSize, name);
+    await write(dataDescriptor(entry));
+    entries.push(entry);
+  }
+
+  if (entries.length >= UINT16_MAX) {
+    throw new Error(`${directoryPath} has too many files for a zip archive without zip64`);
+  }
+  const directoryOffset = offset;
+  checkZip32Limit(directoryOffset, 'the central directory');
+  for (const entry of entries) {
+    await write(centralHeader(entry, modifiedAt.get(entry.name)!));
+  }
+  await write(endOfCentralDirectory(entries.length, offset - directoryOffset, directoryOffset));
+
+  writable.end();
+  await stream.promises.finished(writable);
+  await fs.move(tempPath, zipPath, { overwrite: true });
+}
+
+function checkCrc32(entry: ZipEntry, zipPath: string): stream.Transform {
+  let crc = 0;
+  return new stream.Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      crc = zlib.crc32(chunk, crc);
+      callback(null, chunk);
+    },
+    flush(callback) {
+      callback(crc === entry.crc32 ? null : new Error(`${entry.name} in ${zipPath} is corrupted, its crc32 does not match`));
+    },
+  });
+}
+
+/**
+ * the zip64 extra field holds the values that don't fit in the header, in this order
+ */
+function readZip64Extra(entry: ZipEntry, extra: Buffer) {
+  for (let position = 0; position + 4 <= extra.length; position += 4 + extra.readUInt16LE(position + 2)) {
+    if (extra.readUInt16LE(position) !== ZIP64_EXTRA_FIELD_ID) continue;
+    let valuePosition = position + 4;
+    for (const field of ['uncompressedSize', 'compressedSize', 'localHeaderOffset'] as const) {
+      if (entry[field] === UINT32_MAX) {
+        entry[field] = readUInt64(extra, valuePosition);
+        valuePosition += 8;
+      }
+    }
+    return;
+  }
+}
+
+function localHeader(entry: ZipEntry, modifiedAt: Date): Buffer {
+  const name = Buffer.from(entry.name, 'utf-8');
+  const header = Buffer.alloc(LOCAL_HEADER_SIZE);
+  const { time, date } = toDosDateTime(modifiedAt);
+  header.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4);
+  header.writeUInt16LE(entry.flags, 6);
+  header.writeUInt16LE(entry.compressionMethod, 8);
+  header.writeUInt16LE(time, 10);
+  header.writeUInt16LE(date, 12);
+  // crc and sizes are left at 0, they are in the data descriptor
+  header.writeUInt16LE(name.length, 26);
+  return Buffer.concat([header, name]);
+}
+
+function dataDescriptor(entry: ZipEntry): Buffer {
+  const descriptor = Buffer.alloc(DATA_DESCRIPTOR_SIZE);
+  descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+  descriptor.writeUInt32LE(entry.crc32, 4);
+  descriptor.writeUInt32LE(entry.compressedSize, 8);
+  descriptor.writeUInt32LE(entry.uncompressedSize, 12);
+  return descriptor;
+}
+
+function centralHeader(entry: ZipEntry, modifiedAt: Date): Buffer {
+  const name = Buffer.from(entry.name, 'utf-8');
+  const header = Buffer.alloc(CENTRAL_HEADER_SIZE);
+  const { time, date } = toDosDateTime(modifiedAt);
+  header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4);
+  header.writeUInt16LE(ZIP_VERSION, 6);
+  header.writeUInt16LE(entry.flags, 8);
+  header.writeUInt16LE(entry.compressionMethod, 10);
+  header.writeUInt16LE(time, 12);
+  header.writeUInt16LE(date, 14);
+  header.writeUInt32LE(entry.crc32, 16);
+  header.writeUInt32LE(entry.compressedSize, 20);
+  header.writeUInt32LE(entry.uncompressedSize, 24);
+  header.writeUInt16LE(name.length, 28);
+  header.writeUInt32LE(entry.localHeaderOffset, 42);
+  return Buffer.concat([header, name]);
+}
+
+function endOfCentralDirectory(entryCount: number, directorySize: number, directoryOffset: number): Buffer {
+  const record = Buffer.alloc(END_OF_CENTRAL_DIRECTORY_SIZE);
+  record.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  record.writeUInt16LE(entryCount, 8);
+  record.writeUInt16LE(entryCount, 10);
+  record.writeUInt32LE(directorySize, 12);
+  record.writeUInt32LE(directoryOffset, 16);
+  return record;
+}
+
+/**
+ * in local time, with a 2 second precision, as zip tools expect
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: (Math.max(date.getFullYear() - 1980, 0) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function checkZip32Limit(value: number, name: string) {
+  if (value >= UINT32_MAX) {
+    throw new Error(`${name} is too large for a zip archive without zip64`);
+  }
+}
+
+async function readAt(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  if (bytesRead !== length) {
+    throw new Error(`Unexpected end of the zip archive at byte ${position + bytesRead}`);
+  }
+  return buffer;
+}
+
+function readUInt64(buffer: Buffer, offset: number): number {
+  return Number(buffer.readBigUInt64LE(offset));
+}
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  return (await fs.stat(filePath).catch(() => null))?.isFile() ?? false;
+}
+
+/**
+ * the paths of the files under the directory and its subdirectories, sorted
+ */
+export async function listFiles(directoryPath: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(directoryPath, { withFileTypes: true })) {
+    const entryPath = path.join(directoryPath, entry.name);
+    if (entry.isDirectory()) files.push(...(await listFiles(entryPath)));
+    else files.push(entryPath);
+  }
+  return files.sort();
+}
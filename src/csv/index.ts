@@ -1,21 +1,63 @@
-import * as fs from 'fs-extra';
 import * as path from 'path';
 
-import { ItineraryTgtfs } from './itinerary-tgtfs.ts';
+import { ItineraryTgtfs, findFeedPath } from './itinerary-tgtfs.ts';
+import { DuplicateKeyPolicy, isDuplicateKeyPolicy } from './schema/duplicate-keys.ts';
+import { StorageBackendName, isStorageBackendName } from '../storage/index.ts';
 
 const FEED_NAME = 'VICMBAU';
 
 const WORKDIR_PATH = path.resolve('workspace');
 
+/**
+ * usage: node ./src/csv/index.ts [backend] [feed name] [import workers] [--zip] [--gtfs] [--memory-budget=<MB>]
+ *   [--duplicate-keys=error|keep-first|keep-last|collect]
+ *
+ * the feed is read from workspace/<feed name>/, or from workspace/<feed name>.zip if it hasn't been unpacked.
+ * --zip packs the export into workspace/<feed name>-export.zip, and removes workspace/<feed name>-export/.
+ * --gtfs exports a standard GTFS feed, with stop_times.txt, instead of what the backend exports.
+ * --memory-budget=512 keeps 512MB of entities in memory with csv-memory, and spills the rest to an on-disk DuckDB.
+ * --duplicate-keys=collect keeps the first entity of every key, and writes the others to duplicates-report.json.
+ */
 async function main() {
-  const tgtfs = new ItineraryTgtfs();
+  const args = process.argv.slice(2);
+  const zipExport = args.includes('--zip');
+  const gtfsExport = args.includes('--gtfs');
+  const memoryBudgetMb = args.find((arg) => arg.startsWith('--memory-budget='))?.split('=')[1];
+  const duplicateKeys = args.find((arg) => arg.startsWith('--duplicate-keys='))?.split('=')[1];
+  const [backend = StorageBackendName.CSV_MEMORY, feedName = FEED_NAME, importWorkers = '1'] = args.filter(
+    (arg) => !arg.startsWith('--'),
+  );
+  if (!isStorageBackendName(backend)) {
+    throw new Error(`Unknown backend ${backend}, expected one of ${Object.values(StorageBackendName).join(', ')}`);
+  }
 
-  const inputPath = path.join(WORKDIR_PATH, FEED_NAME);
-  const outputPath = path.join(WORKDIR_PATH, `${FEED_NAME}-export`);
+  if (!Number.isInteger(Number(importWorkers)) || Number(importWorkers) < 1) {
+    throw new Error('The number of import workers must be a positive integer');
+  }
 
-  await fs.remove(outputPath);
-  await fs.mkdirp(outputPath);
+  if (memoryBudgetMb !== undefined && !(Number(memoryBudgetMb) >= 0)) {
+    throw new Error('The memory budget must be a number of megabytes');
+  }
 
+  if (duplicateKeys !== undefined && !isDuplicateKeyPolicy(duplicateKeys)) {
+    throw new Error(
+      `Unknown duplicate key policy ${duplicateKeys}, expected one of ${Object.values(DuplicateKeyPolicy).join(', ')}`,
+    );
+  }
+
+  const tgtfs = new ItineraryTgtfs({
+    backend,
+    importWorkers: Number(importWorkers),
+    zipExport,
+    gtfsExport,
+    memoryBudget: memoryBudgetMb !== undefined ? { bytes: Number(memoryBudgetMb) * 1024 * 1024 } : undefined,
+    duplicateKeys: duplicateKeys !== undefined ? { policy: duplicateKeys } : undefined,
+  });
+
+  const inputPath = await findFeedPath(path.join(WORKDIR_PATH, feedName));
+  const outputPath = path.join(WORKDIR_PATH, `${feedName}-export`);
+
+  // the export is swapped in place of the previous one, which is left as it was if the process fails
   await tgtfs.process(inputPath, outputPath);
 }
 void main();
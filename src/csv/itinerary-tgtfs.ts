@@ -1,12 +1,117 @@
 import path from 'path';
+import fs from 'fs-extra';
 
-import { type TripTable, Trips } from './schema/trips.ts';
-import { TGTFS_FILE_NAMES } from './tgtfs-types/common.ts';
+import { Agencies, type AgencyTable, type DuckDbAgencyTable, type SpillingAgencyTable } from './schema/agencies.ts';
+import {
+  type CalendarDateTable,
+  CalendarDates,
+  type DuckDbCalendarDateTable,
+  type SpillingCalendarDateTable,
+} from './schema/calendar-dates.ts';
+import {
+  type CalendarTable,
+  Calendars,
+  type DuckDbCalendarTable,
+  type SpillingCalendarTable,
+} from './schema/calendars.ts';
+import { type DuckDbRouteTable, type RouteTable, Routes, type SpillingRouteTable } from './schema/routes.ts';
+import { type DuckDbShapeTable, type ShapeTable, Shapes, type SpillingShapeTable } from './schema/shapes.ts';
+import { type DuckDbStopTable, type SpillingStopTable, type StopTable, Stops } from './schema/stops.ts';
+import { type DuckDbTripTable, type SpillingTripTable, type TripTable, Trips } from './schema/trips.ts';
+import { ITINERARIES_FILE_NAME, TGTFS_FILE_NAMES, TgtfsTableName } from './tgtfs-types/common.ts';
+import { ImportFormat } from './helpers/import.ts';
+import { pathExists, splitZipPath, writeZip } from './helpers/zip.ts';
+import { ValidationReport } from './schema/validation-report.ts';
+import { type DuplicateKeyPolicy, DuplicateKeyReport } from './schema/duplicate-keys.ts';
+import {
+  type MemoryBudgetOptions,
+  type StorageBackend,
+  StorageBackendName,
+  createStorageBackend,
+} from '../storage/index.ts';
+import { exportGtfs } from '../storage/gtfs.ts';
+import { type FeedManifest, GTFS_EXPORT_FORMAT, swapDirectory, writeManifest } from '../storage/manifest.ts';
+
+export const ProcessPhase = {
+  IMPORTING: 'Importing',
+  PROCESSING: 'Processing',
+  EXPORTING: 'Exporting',
+  DONE: 'Done',
+} as const;
+export type ProcessPhase = (typeof ProcessPhase)[keyof typeof ProcessPhase];
+
+/**
+ * referenced tables come before the tables referencing them, so that foreign keys can be checked while importing
+ */
+const IMPORT_ORDER: TgtfsTableName[] = [
+  TgtfsTableName.AGENCY,
+  TgtfsTableName.ROUTES,
+  TgtfsTableName.STOPS,
+  TgtfsTableName.CALENDAR,
+  TgtfsTableName.CALENDAR_DATES,
+  TgtfsTableName.SHAPES,
+  TgtfsTableName.TRIPS,
+];
+
+export type ItineraryTgtfsOptions = {
+  /**
+   * where the tables live while the feed is processed, and what they are exported as. defaults to csv-memory.
+   */
+  backend?: StorageBackendName;
+  /**
+   * called when process enters a phase, which waits for it. defaults to logging the memory usage.
+   */
+  onPhase?: (phase: ProcessPhase) => Promise<void> | void;
+  /**
+   * collect every parsing and foreign key error while importing, instead of failing on the first one.
+   * process still fails after importing if there were errors, but only once the report has been written.
+   */
+  collectErrors?: {
+    /** number of errors to keep in the report, the rest is only counted. defaults to 1000. */
+    maxErrors?: number;
+    /** written as csv if it ends in .csv, as json otherwise. defaults to <export path>.validation-report.json. */
+    reportPath?: string;
+  };
+  /**
+   * number of worker threads parsing and validating the imported files. defaults to 1, which parses on the main thread.
+   * cannot be combined with collectErrors. itineraries.jsonl and files in zip archives are always parsed on the main thread.
+   */
+  importWorkers?: number;
+  /**
+   * pack the exported files into <export path>.zip once the export is done. the export path itself is removed once the
+   * zip is in place, so that a previous directory export can't be taken for this one.
+   */
+  zipExport?: boolean;
+  /**
+   * export a standard GTFS feed as csv files instead of what the backend exports:
+   * only the GTFS columns, and stop_times.txt expanded from the time arrays of the trips.
+   */
+  gtfsExport?: boolean;
+  /**
+   * bytes of entities the csv-memory backend keeps in the heap, after which tables spill to an on-disk DuckDB database.
+   * the tables are then read asynchronously, like DuckDB tables. defaults to keeping everything in memory.
+   */
+  memoryBudget?: MemoryBudgetOptions;
+  /**
+   * what importing an entity with the key of one already in its table does, instead of the policy of the table config.
+   * the entities dropped by the collect policy are written to a report, and the import carries on.
+   */
+  duplicateKeys?: {
+    /** for the tables without a policy of their own */
+    policy?: DuplicateKeyPolicy;
+    tables?: Partial<Record<TgtfsTableName, DuplicateKeyPolicy>>;
+    /** number of dropped entities to keep in the report, the rest is only counted. defaults to 1000. */
+    maxDuplicates?: number;
+    /** defaults to duplicates-report.json in the export path. */
+    reportPath?: string;
+  };
+};
 
 /**
  * this is just the Tgtfs class in tgtfs.ts, with the following modifications
  *
  * it supports itineraries.jsonl and trips.txt for itineraries
+ * it reads feeds from zip archives as well as directories
  * it does not handle stop_times, since they are redundant with itineraries
  * it does not provide route<>trip linkages, since the old trip class is no longer used
  * it does not provide stop<>stop_time linkages, since the stop_time class no longer is used
@@ -16,32 +121,172 @@ export class ItineraryTgtfs {
   transcodeMode = false;
   allowInterFeedKeys = false;
 
-  trips: TripTable;
+  readonly #backend: StorageBackendName;
+  readonly #storage: StorageBackend;
+  readonly #onPhase: (phase: ProcessPhase) => Promise<void> | void;
+  readonly #collectErrors: ItineraryTgtfsOptions['collectErrors'];
+  readonly #importWorkers: number;
+  readonly #zipExport: boolean;
+  readonly #gtfsExport: boolean;
+  readonly #duplicateKeys: ItineraryTgtfsOptions['duplicateKeys'];
+
+  // in-memory until process opens the storage backend, which replaces them with the backend's tables
+  agency: AgencyTable | DuckDbAgencyTable | SpillingAgencyTable;
+  routes: RouteTable | DuckDbRouteTable | SpillingRouteTable;
+  stops: StopTable | DuckDbStopTable | SpillingStopTable;
+  calendar: CalendarTable | DuckDbCalendarTable | SpillingCalendarTable;
+  calendar_dates: CalendarDateTable | DuckDbCalendarDateTable | SpillingCalendarDateTable;
+  shapes: ShapeTable | DuckDbShapeTable | SpillingShapeTable;
+  trips: TripTable | DuckDbTripTable | SpillingTripTable;
 
-  constructor() {
+  constructor(options: ItineraryTgtfsOptions = {}) {
+    this.#backend = options.backend ?? StorageBackendName.CSV_MEMORY;
+    this.#storage = createStorageBackend(this.#backend, options.memoryBudget);
+    this.#onPhase = options.onPhase ?? ((phase) => console.log(phase, process.memoryUsage()));
+    this.#collectErrors = options.collectErrors;
+    this.#importWorkers = options.importWorkers ?? 1;
+    this.#zipExport = options.zipExport ?? false;
+    this.#gtfsExport = options.gtfsExport ?? false;
+    this.#duplicateKeys = options.duplicateKeys;
+    this.agency = Agencies(this);
+    this.routes = Routes(this);
+    this.stops = Stops(this);
+    this.calendar = Calendars(this);
+    this.calendar_dates = CalendarDates(this);
+    this.shapes = Shapes(this);
     this.trips = Trips(this);
   }
 
+  /**
+   * the input path is either a directory or a zip archive of the feed, which is read without unpacking it,
+   * or a .duckdb database such as the one exported by the DuckDB backends. see findTableFile.
+   *
+   * the feed is exported to a staging directory next to the export path, with a manifest of its row counts and
+   * checksums, and only replaces the export path once every table is written, so that a failed process leaves the
+   * previous export as it was. see verifyExport.
+   */
   async process(inputPath: string, exportPath: string) {
-    // 1. Import
-    console.log('Importing', process.memoryUsage());
-    await this.trips.importFromPath(path.join(inputPath, TGTFS_FILE_NAMES.trips));
-
-    // 2. Process (Just iterate and count)
-    console.log('Processing', process.memoryUsage());
-    let count = 0;
-    for (const trip of this.trips) {
-      if (trip.trip_id) {
-        count++;
+    await fs.mkdirp(path.dirname(exportPath));
+    const stagingPath = await fs.mkdtemp(`${exportPath}.staging-`);
+    // mkdtemp only gives its owner access, but the staging directory becomes the export directory
+    await fs.chmod(stagingPath, 0o755);
+    // a GTFS export only has the csv files, so what the backend writes, such as tgtfs.duckdb, is kept out of it
+    const storagePath = this.#gtfsExport ? await fs.mkdtemp(`${exportPath}.work-`) : stagingPath;
+    try {
+      const rowCounts = await this.#processInto(inputPath, stagingPath, storagePath, exportPath);
+      await writeManifest(stagingPath, this.#gtfsExport ? GTFS_EXPORT_FORMAT : this.#backend, rowCounts);
+      if (this.#zipExport) {
+        await writeZip(`${exportPath}.zip`, stagingPath);
+        await fs.remove(exportPath);
+      } else {
+        await swapDirectory(stagingPath, exportPath);
       }
+    } finally {
+      // already moved into place unless the process failed or zipped it
+      await fs.remove(stagingPath);
+      await fs.remove(storagePath);
     }
-    console.log(count);
-
-    // 3. Export
-    console.log('Exporting', process.memoryUsage());
-    await this.trips.exportToPath(path.join(exportPath, TGTFS_FILE_NAMES.trips));
 
     // 4. Done
-    console.log('Done', process.memoryUsage());
+    await this.#onPhase(ProcessPhase.DONE);
+  }
+
+  /**
+   * import, process and export the feed into the staging path, and count the rows of every table.
+   * the storage is opened on the storage path, which is the staging path unless the export is GTFS.
+   * the validation report is written next to the export path, since a failed import leaves nothing to stage,
+   * and the previous export has to stay as it was.
+   */
+  async #processInto(
+    inputPath: string,
+    stagingPath: string,
+    storagePath: string,
+    exportPath: string,
+  ): Promise<FeedManifest['tables']> {
+    const tables = await this.#storage.open(this, storagePath);
+    Object.assign(this, tables);
+
+    const rowCounts: FeedManifest['tables'] = {};
+    try {
+      // 1. Import
+      await this.#onPhase(ProcessPhase.IMPORTING);
+      const report = this.#collectErrors ? new ValidationReport(this.#collectErrors.maxErrors) : undefined;
+      const duplicates = this.#duplicateKeys ? new DuplicateKeyReport(this.#duplicateKeys.maxDuplicates) : undefined;
+      for (const tableName of IMPORT_ORDER) {
+        const file = await findTableFile(inputPath, tableName);
+        await this[tableName].importFromPath(file.path, {
+          report,
+          format: file.format,
+          workers: file.format === ImportFormat.CSV && !file.inZip ? this.#importWorkers : 1,
+          duplicateKeys: this.#duplicateKeys?.tables?.[tableName] ?? this.#duplicateKeys?.policy,
+          duplicates,
+        });
+      }
+      if (report && report.issueCount > 0) {
+        const reportPath = this.#collectErrors?.reportPath ?? `${exportPath}.validation-report.json`;
+        await report.writeToPath(reportPath);
+        throw new Error(`Importing the feed failed with ${report.issueCount} errors, see ${reportPath}`);
+      }
+      if (duplicates && duplicates.duplicateCount > 0) {
+        const reportPath = this.#duplicateKeys?.reportPath ?? path.join(stagingPath, 'duplicates-report.json');
+        await duplicates.writeToPath(reportPath);
+        console.log(`Dropped ${duplicates.duplicateCount} entities with duplicate keys, see ${reportPath}`);
+      }
+
+      // 2. Process (Just iterate and count)
+      await this.#onPhase(ProcessPhase.PROCESSING);
+      let count = 0;
+      for await (const trip of this.trips) {
+        if (trip.trip_id) {
+          count++;
+        }
+      }
+      console.log(count);
+
+      // 3. Export
+      await this.#onPhase(ProcessPhase.EXPORTING);
+      for (const tableName of IMPORT_ORDER) {
+        rowCounts[tableName] = await this[tableName].query().count();
+      }
+      if (this.#gtfsExport) await exportGtfs(tables, stagingPath);
+      else await this.#storage.export(tables, stagingPath);
+    } finally {
+      // before the manifest is written, so that the database files are complete
+      await this.#storage.close();
+    }
+    return rowCounts;
+  }
+}
+
+/**
+ * the feed at feedPath, or its zip archive at feedPath.zip if it hasn't been unpacked
+ */
+export async function findFeedPath(feedPath: string): Promise<string> {
+  const zipPath = `${feedPath}.zip`;
+  return !(await fs.pathExists(feedPath)) && (await fs.pathExists(zipPath)) ? zipPath : feedPath;
+}
+
+/**
+ * itineraries are read from itineraries.jsonl if the feed has it, and from trips.txt otherwise.
+ * a table without its csv file is read from <table name>.parquet if the feed has it, as the parquet backend exports it,
+ * and every table of a .duckdb input path is read from the table of the same name in the database.
+ */
+export async function findTableFile(inputPath: string, tableName: TgtfsTableName) {
+  if (inputPath.endsWith('.duckdb')) {
+    return { path: inputPath, format: ImportFormat.DUCKDB, inZip: false };
+  }
+  const csvPath = path.join(inputPath, TGTFS_FILE_NAMES[tableName]);
+  const jsonlPath = path.join(inputPath, ITINERARIES_FILE_NAME);
+  const parquetPath = path.join(inputPath, `${tableName}.parquet`);
+  const inZip = (await splitZipPath(csvPath)) !== null;
+  if (!inZip && !(await fs.pathExists(csvPath)) && (await fs.pathExists(parquetPath))) {
+    return { path: parquetPath, format: ImportFormat.PARQUET, inZip };
+  }
+  if (tableName !== TgtfsTableName.TRIPS || !(await pathExists(jsonlPath))) {
+    return { path: csvPath, format: ImportFormat.CSV, inZip };
+  }
+  if (await pathExists(csvPath)) {
+    throw new Error(`The feed has both ${TGTFS_FILE_NAMES.trips} and ${ITINERARIES_FILE_NAME}, only one of them is expected`);
   }
+  return { path: jsonlPath, format: ImportFormat.JSONL, inZip };
 }
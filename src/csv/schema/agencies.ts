@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+import { agencyFields } from '../tgtfs-types/agency.ts';
+import { type ForeignKeyTarget, TgtfsTableName } from '../tgtfs-types/common.ts';
+
+import { type OneIndexConfig, makeOneIndexTable } from './make-table.ts';
+import { type DuckDbOneIndexTable } from './duckdb-table.ts';
+import { type SpillingOneIndexTable } from './spilling-table.ts';
+
+export const agencyParser = z.object(agencyFields);
+
+export type Agency = z.infer<typeof agencyParser>;
+
+export const agenciesConfig: OneIndexConfig<z.ZodRawShape, typeof agencyFields> = {
+  tableName: TgtfsTableName.AGENCY,
+  fields: agencyParser,
+  primaryKey: ['agency_id'],
+  foreignKeys: new Map<keyof Agency, ForeignKeyTarget>([]),
+};
+
+export const Agencies = makeOneIndexTable(agenciesConfig);
+
+export type AgencyTable = ReturnType<typeof Agencies>;
+export type DuckDbAgencyTable = DuckDbOneIndexTable<z.ZodRawShape, typeof agencyFields>;
+export type SpillingAgencyTable = SpillingOneIndexTable<z.ZodRawShape, typeof agencyFields>;
+
+export { agencyFields } from '../tgtfs-types/agency.ts';
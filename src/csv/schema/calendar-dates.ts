@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+import { calendarDateFields } from '../tgtfs-types/calendar-date.ts';
+import { type ForeignKeyTarget, TgtfsTableName } from '../tgtfs-types/common.ts';
+
+import { type TwoIndexConfig, makeTwoIndexTable } from './make-table.ts';
+import { type DuckDbTwoIndexTable } from './duckdb-table.ts';
+import { type SpillingTwoIndexTable } from './spilling-table.ts';
+
+export const calendarDateParser = z.object(calendarDateFields);
+
+export type CalendarDate = z.infer<typeof calendarDateParser>;
+
+export const calendarDatesConfig: TwoIndexConfig<z.ZodRawShape, typeof calendarDateFields> = {
+  tableName: TgtfsTableName.CALENDAR_DATES,
+  fields: calendarDateParser,
+  primaryKey: ['service_id'],
+  secondaryKey: ['date'],
+  foreignKeys: new Map<keyof CalendarDate, ForeignKeyTarget>([]),
+};
+
+export const CalendarDates = makeTwoIndexTable(calendarDatesConfig);
+
+export type CalendarDateTable = ReturnType<typeof CalendarDates>;
+export type DuckDbCalendarDateTable = DuckDbTwoIndexTable<z.ZodRawShape, typeof calendarDateFields>;
+export type SpillingCalendarDateTable = SpillingTwoIndexTable<z.ZodRawShape, typeof calendarDateFields>;
+
+export { calendarDateFields } from '../tgtfs-types/calendar-date.ts';
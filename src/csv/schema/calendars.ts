@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+import { calendarFields } from '../tgtfs-types/calendar.ts';
+import { type ForeignKeyTarget, TgtfsTableName } from '../tgtfs-types/common.ts';
+
+import { type OneIndexConfig, makeOneIndexTable } from './make-table.ts';
+import { type DuckDbOneIndexTable } from './duckdb-table.ts';
+import { type SpillingOneIndexTable } from './spilling-table.ts';
+
+export const calendarParser = z.object(calendarFields);
+
+export type Calendar = z.infer<typeof calendarParser>;
+
+export const calendarsConfig: OneIndexConfig<z.ZodRawShape, typeof calendarFields> = {
+  tableName: TgtfsTableName.CALENDAR,
+  fields: calendarParser,
+  primaryKey: ['service_id'],
+  foreignKeys: new Map<keyof Calendar, ForeignKeyTarget>([]),
+  // dates are YYYYMMDD, so they compare as strings
+  additionalValidation: [
+    ['end_date cannot be before start_date', (calendar) => calendar.start_date <= calendar.end_date],
+  ],
+};
+
+export const Calendars = makeOneIndexTable(calendarsConfig);
+
+export type CalendarTable = ReturnType<typeof Calendars>;
+export type DuckDbCalendarTable = DuckDbOneIndexTable<z.ZodRawShape, typeof calendarFields>;
+export type SpillingCalendarTable = SpillingOneIndexTable<z.ZodRawShape, typeof calendarFields>;
+
+export { calendarFields } from '../tgtfs-types/calendar.ts';
@@ -0,0 +1,833 @@
+import { z } from 'zod';
+import type { DuckDBAppender, DuckDBConnection, DuckDBDataChunk, DuckDBValue } from '@duckdb/node-api';
+import { ImportFormat, importFormatOf } from '../helpers/import.ts';
+import { importInParallel } from './parallel-import.ts';
+import { type CsvLocation, resolveCsvDialect } from '../helpers/parse-csv.ts';
+import { ExportFormat, type ExportOptions, exportEntities } from '../helpers/export.ts';
+import { type ItineraryTgtfs } from '../itinerary-tgtfs.ts';
+import { type ForeignKeyTarget } from '../tgtfs-types/common.ts';
+import { quoteIdentifier } from '../../duckdb/sql.ts';
+import { zodTableDefToDuckdbColumns } from '../../duckdb/schema-gen.ts';
+import { DuckDbRowAppender } from '../../duckdb/appender.ts';
+import { DuckDbRowDecoder } from '../../duckdb/decoder.ts';
+import { DuckDbQueryCompiler, type ParameterizedSql } from '../../duckdb/query.ts';
+import { copyToParquet } from '../../duckdb/parquet.ts';
+import {
+  DUPLICATE_COUNT_COLUMN,
+  VIOLATION_ROW_COLUMN,
+  duplicateKeysSql,
+  foreignKeyViolationsSql,
+  stagedDuplicatesSql,
+  stagedForeignKeyViolationsSql,
+} from '../../duckdb/validation.ts';
+import { DuplicateKeyHandler, DuplicateKeyPolicy } from './duplicate-keys.ts';
+import { type ValidationReport } from './validation-report.ts';
+import {
+  type Entity,
+  type EntityKey,
+  type ImportOptions,
+  type OneIndexConfig,
+  type TwoIndexConfig,
+  checkForeignKey,
+  formatForeignKeyTarget,
+  importDuplicateKeyHandler,
+  importRows,
+  makeFieldsSchema,
+  parseEntity,
+  parseEntityIntoReport,
+} from './make-table.ts';
+import { type IndexMemory, findSecondaryIndex, secondaryIndexName, toIndexLookup } from './secondary-index.ts';
+import { type GroupCount, Query, type QueryExecutor, type QuerySpec } from './query.ts';
+
+/**
+ * name of the column holding the key that the in-memory table would use for its Map.
+ * lookups and deletes go through it, so ids are interchangeable between both backends.
+ */
+export const KEY_COLUMN = '_key';
+
+/**
+ * name of the column holding the order the entities were added in, which the table is read back in,
+ * like the insertion order of a Map. a replaced entity keeps the place of the one it replaces.
+ */
+export const SEQUENCE_COLUMN = '_seq';
+
+export type DuckDbTableOptions = {
+  /**
+   * number of appended rows after which they are merged into the backing table while importing.
+   * 100K is a good average to prevent double-buffering (Node.js and DuckDB), and on an attached on-disk
+   * database it is the number of records that checkpoints best, as every merge commits.
+   */
+  flushEvery?: number;
+  /**
+   * run the rows read back from DuckDB through the zod schema again.
+   * off by default, since every row is validated before it is appended.
+   */
+  validateReads?: boolean;
+  /**
+   * resolves the duplicate keys when the staging table is merged, instead of a handler for the policy of the config,
+   * such as the handler of a spilling table, which resolves the duplicates of its entities in memory too
+   */
+  duplicateKeys?: DuplicateKeyHandler;
+};
+
+/**
+ * the same table as OneIndexTable, but with the rows living in DuckDB instead of a Map.
+ *
+ * DuckDB can only be read asynchronously, so every method that has to read rows returns a promise,
+ * and the table is iterated with `for await`. adding entities stays synchronous: rows are appended to a
+ * temporary staging table and merged into the real one before the next read, which is when duplicate keys are
+ * resolved (last write wins by default, like Map.set). so with the error policy, the merge is what throws.
+ */
+export class DuckDbOneIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape> {
+  readonly #connection: DuckDBConnection;
+  readonly #tgtfs: ItineraryTgtfs;
+  readonly #config: OneIndexConfig<GtfsShape, S>;
+  readonly #foreignKeys: [EntityKey<S>, ForeignKeyTarget][];
+  readonly #zodFieldsSchema: z.ZodEffects<z.ZodObject<S>>;
+  readonly #columns: (keyof S & string)[];
+  readonly #tableName: string;
+  readonly #stagingTableName: string;
+  readonly #flushEvery: number;
+  readonly #rowAppender: DuckDbRowAppender<S>;
+  readonly #rowDecoder: DuckDbRowDecoder<S>;
+  readonly #queryCompiler: DuckDbQueryCompiler;
+  #appender: DuckDBAppender | null = null;
+  #pendingCount = 0;
+  #nextSequence = 0;
+  #duplicateKeys: DuplicateKeyHandler;
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<Entity<S>> {
+    await this.flush();
+    const result = await this.#connection.stream(
+      `SELECT ${this.#selectColumns()} FROM ${this.#tableName} ORDER BY ${SEQUENCE_COLUMN};`,
+    );
+    for (let chunk = await result.fetchChunk(); chunk && chunk.rowCount > 0; chunk = await result.fetchChunk()) {
+      yield* this.#rowDecoder.decodeChunk(chunk);
+    }
+  }
+
+  readonly #getKey: (entity: Entity<S>) => string;
+  constructor(
+    schema: OneIndexConfig<GtfsShape, S>,
+    tgtfs: ItineraryTgtfs,
+    connection: DuckDBConnection,
+    options: DuckDbTableOptions = {},
+  ) {
+    this.#connection = connection;
+    this.#tgtfs = tgtfs;
+    this.#config = schema;
+    this.#foreignKeys = [...this.#config.foreignKeys.entries()].filter(
+      ([field]) => !(this.#config.interFeedKeys?.includes(field) && this.#tgtfs.allowInterFeedKeys),
+    );
+    this.#zodFieldsSchema = makeFieldsSchema(schema);
+    this.#columns = Object.keys(schema.fields.shape);
+    this.#tableName = quoteIdentifier(schema.tableName);
+    // staging rows live in the temp catalog, so they are never part of an attached or copied database
+    this.#stagingTableName = `temp.main.${quoteIdentifier(`${schema.tableName}_staging`)}`;
+    this.#flushEvery = options.flushEvery ?? 100_000;
+    this.#rowAppender = new DuckDbRowAppender(schema.fields.shape);
+    this.#rowDecoder = new DuckDbRowDecoder(
+      schema.fields.shape,
+      options.validateReads
+        ? { validate: (row) => parseEntity(this.#zodFieldsSchema, this.#config.tableName, row) }
+        : {},
+    );
+    this.#queryCompiler = new DuckDbQueryCompiler(schema.tableName, schema.fields.shape);
+    this.#duplicateKeys = options.duplicateKeys ?? new DuplicateKeyHandler(schema.tableName, schema.duplicateKeys);
+
+    this.#getKey =
+      this.#config.primaryKey.length === 0
+        ? (entity) =>
+            Object.values(entity)
+              .map((v) => String(v))
+              .join('␟')
+        : (entity) => this.#config.primaryKey.map((k) => String(entity[k])).join('␟');
+  }
+
+  /**
+   * Create the backing tables and the appender.
+   * Has to be called before any entity is added.
+   */
+  async open(): Promise<this> {
+    const columns = zodTableDefToDuckdbColumns(this.#config.fields.shape);
+    await this.#connection.run(
+      `CREATE TABLE IF NOT EXISTS ${this.#tableName} (${columns}, ${KEY_COLUMN} VARCHAR PRIMARY KEY, ${SEQUENCE_COLUMN} BIGINT);`,
+    );
+    await this.#connection.run(
+      `CREATE OR REPLACE TEMP TABLE ${quoteIdentifier(`${this.#config.tableName}_staging`)} (${columns}, ${KEY_COLUMN} VARCHAR, ${SEQUENCE_COLUMN} BIGINT);`,
+    );
+    // the table may already have entities, such as an exported database opened again
+    const last = await this.#connection.runAndReadAll(`SELECT max(${SEQUENCE_COLUMN}) FROM ${this.#tableName};`);
+    this.#nextSequence = Number(last.getRows()[0][0] ?? -1) + 1;
+    for (const { fields, unique } of this.#config.indexes ?? []) {
+      const name = quoteIdentifier(secondaryIndexName(this.#config.tableName, fields));
+      await this.#connection.run(
+        `CREATE ${unique ? 'UNIQUE ' : ''}INDEX IF NOT EXISTS ${name} ON ${this.#tableName} (${fields.map(quoteIdentifier).join(', ')});`,
+      );
+    }
+    this.#appender = await this.#connection.createAppender(`${this.#config.tableName}_staging`, 'main', 'temp');
+    return this;
+  }
+
+  /**
+   * Close the appender and drop the staging table. The backing table is kept.
+   */
+  async close(): Promise<void> {
+    await this.flush();
+    this.#appender?.closeSync();
+    this.#appender = null;
+    await this.#connection.run(`DROP TABLE IF EXISTS ${this.#stagingTableName};`);
+  }
+
+  /**
+   * Parse an entity and add it to the table.
+   * Sets defaults on the entity, and unless validateLinkedFields is false, checks that all foreign keys are valid.
+   */
+  async addEntity(preEntity: unknown, validateLinkedFields = true): Promise<Entity<S>> {
+    const entity = parseEntity(this.#zodFieldsSchema, this.#config.tableName, preEntity);
+
+    if (validateLinkedFields) {
+      for (const [foreignKey, target] of this.#foreignKeys) {
+        if (!(await checkForeignKey(this.#tgtfs, target, entity[foreignKey]))) {
+          throw new Error(
+            [
+              'Trying to create an entity with an invalid foreign key',
+              `Foreign field ${String(foreignKey)} does not exist in referenced table ${formatForeignKeyTarget(target)}`,
+              `Invalid value: ${entity[foreignKey]}`,
+            ].join('\n'),
+          );
+        }
+      }
+    }
+
+    return this.addParsedEntity(entity);
+  }
+
+  /**
+   * Add a parsed entity to the table.
+   * Does not parse or validate foreign keys.
+   */
+  addParsedEntity(entity: Entity<S>): Entity<S> {
+    if (!this.#appender) {
+      throw new Error(`DuckDB table ${this.#config.tableName} has to be opened before adding entities`);
+    }
+    this.#rowAppender.appendColumns(this.#appender, entity);
+    this.#appender.appendVarchar(this.#getKey(entity));
+    this.#appender.appendBigInt(BigInt(this.#nextSequence++));
+    this.#appender.endRow();
+    this.#pendingCount++;
+    return entity;
+  }
+
+  /**
+   * Parse multiple entities and add it to the table.
+   * Sets defaults on the entities, and unless validateLinkedFields is false, checks that all foreign keys are valid.
+   */
+  async addEntities(preEntities: Iterable<unknown>): Promise<Entity<S>[]> {
+    const toReturn: Entity<S>[] = [];
+    for (const entity of preEntities) {
+      toReturn.push(await this.addEntity(entity));
+    }
+    return toReturn;
+  }
+
+  /**
+   * Add multiple entities to the table.
+   * Does not parse or validate foreign keys.
+   */
+  addParsedEntities(entities: Iterable<Entity<S>>): Entity<S>[] {
+    const toReturn: Entity<S>[] = [];
+    for (const entity of entities) {
+      toReturn.push(this.addParsedEntity(entity));
+    }
+    return toReturn;
+  }
+
+  /**
+   * Merge the appended entities into the backing table, resolving duplicate keys with the policy of the table.
+   * Called before every read, so there is no need to call it manually.
+   */
+  async flush(): Promise<void> {
+    if (!this.#appender || this.#pendingCount === 0) return;
+    this.#appender.flushSync();
+    const columns = [...this.#columns.map(quoteIdentifier), KEY_COLUMN, SEQUENCE_COLUMN].join(', ');
+    if (this.#duplicateKeys.policy === DuplicateKeyPolicy.KEEP_LAST) {
+      await this.#mergeLatest(columns);
+    } else {
+      if (this.#duplicateKeys.policy !== DuplicateKeyPolicy.KEEP_FIRST) await this.#rejectStagedDuplicates();
+      // the rows already in the table win, and among the staged ones the first staged
+      await this.#connection.run(
+        [
+          `INSERT INTO ${this.#tableName} (${columns}) SELECT ${columns} FROM ${this.#stagingTableName}`,
+          `QUALIFY row_number() OVER (PARTITION BY ${KEY_COLUMN} ORDER BY ${SEQUENCE_COLUMN}) = 1`,
+          `ORDER BY ${SEQUENCE_COLUMN}`,
+          `ON CONFLICT (${KEY_COLUMN}) DO NOTHING;`,
+        ].join(' '),
+      );
+    }
+    await this.#connection.run(`DELETE FROM ${this.#stagingTableName};`);
+    this.#pendingCount = 0;
+    this.#duplicateKeys.merged();
+  }
+
+  /**
+   * whether entities were added since the last merge
+   */
+  get _hasStaged(): boolean {
+    return this.#pendingCount > 0;
+  }
+
+  /**
+   * the sequence the next added entity is staged with
+   */
+  get _nextSequence(): number {
+    return this.#nextSequence;
+  }
+
+  /**
+   * run an import with a duplicate key policy of its own, which what it stages is merged with
+   */
+  async _withDuplicateKeys<T>(duplicateKeys: DuplicateKeyHandler, run: () => Promise<T>): Promise<T> {
+    // what was staged before is merged with the policy it was added with
+    await this.flush();
+    const tableDuplicateKeys = this.#duplicateKeys;
+    this.#duplicateKeys = duplicateKeys;
+    try {
+      return await run();
+    } finally {
+      this.#duplicateKeys = tableDuplicateKeys;
+    }
+  }
+
+  /**
+   * like Map.set, the last staged entity of a key takes the place of the first one, or of the one already in the table
+   */
+  async #mergeLatest(columns: string) {
+    const staged = this.#columns.map((column) => `staged.${quoteIdentifier(column)}`).join(', ');
+    const latest = [
+      `SELECT ${staged}, staged.${KEY_COLUMN},`,
+      `coalesce(merged.${SEQUENCE_COLUMN}, min(staged.${SEQUENCE_COLUMN}) OVER (PARTITION BY staged.${KEY_COLUMN}))`,
+      `AS ${SEQUENCE_COLUMN} FROM ${this.#stagingTableName} AS staged`,
+      `LEFT JOIN ${this.#tableName} AS merged ON merged.${KEY_COLUMN} = staged.${KEY_COLUMN}`,
+      `QUALIFY row_number() OVER (PARTITION BY staged.${KEY_COLUMN} ORDER BY staged.${SEQUENCE_COLUMN} DESC) = 1`,
+    ].join(' ');
+    if (!this.#config.indexes?.length) {
+      await this.#connection.run(
+        `INSERT OR REPLACE INTO ${this.#tableName} (${columns}) ${latest} ORDER BY ${SEQUENCE_COLUMN};`,
+      );
+    } else {
+      // INSERT OR REPLACE keeps the old values of the columns in an index, and fails on a unique one,
+      // so the replaced rows are deleted first, once their places are known
+      const latestTableName = `temp.main.${quoteIdentifier(`${this.#config.tableName}_latest`)}`;
+      await this.#connection.run('BEGIN TRANSACTION;');
+      try {
+        await this.#connection.run(`CREATE OR REPLACE TEMP TABLE ${latestTableName} AS ${latest};`);
+        await this.#connection.run(
+          `DELETE FROM ${this.#tableName} WHERE ${KEY_COLUMN} IN (SELECT ${KEY_COLUMN} FROM ${this.#stagingTableName});`,
+        );
+        await this.#connection.run(
+          `INSERT INTO ${this.#tableName} (${columns}) SELECT ${columns} FROM ${latestTableName} ORDER BY ${SEQUENCE_COLUMN};`,
+        );
+        await this.#connection.run(`DROP TABLE ${latestTableName};`);
+        await this.#connection.run('COMMIT;');
+      } catch (err) {
+        await this.#connection.run('ROLLBACK;');
+        throw err;
+      }
+    }
+  }
+
+  /**
+   * the error policy throws on the first staged duplicate, the collect policy reports all of them
+   */
+  async #rejectStagedDuplicates() {
+    const limit = this.#duplicateKeys.policy === DuplicateKeyPolicy.ERROR ? 1 : undefined;
+    const result = await this.#connection.stream(
+      stagedDuplicatesSql(
+        this.#stagingTableName,
+        this.#config.tableName,
+        this.#columns,
+        KEY_COLUMN,
+        SEQUENCE_COLUMN,
+        limit,
+      ),
+    );
+    for (let chunk = await result.fetchChunk(); chunk && chunk.rowCount > 0; chunk = await result.fetchChunk()) {
+      const keys = chunk.getColumnValues(this.#columns.length);
+      const sequences = chunk.getColumnValues(this.#columns.length + 1);
+      this.#rowDecoder.decodeChunk(chunk).forEach((entity, i) => {
+        this.#duplicateKeys.rejectStaged(String(keys[i]), entity, Number(sequences[i]));
+      });
+    }
+  }
+
+  async getWithId(id: string): Promise<Entity<S> | null> {
+    const [entity] = await this._getWhere(`${KEY_COLUMN} = $1`, [id]);
+    return entity ?? null;
+  }
+
+  /**
+   * the entities with these values in an index of the config, which DuckDB looks up in its ART index.
+   * see OneIndexTable.getBy.
+   */
+  async getBy<K extends EntityKey<S>>(field: K, value: Entity<S>[K]): Promise<Entity<S>[]>;
+  async getBy(fields: EntityKey<S>[], values: unknown[]): Promise<Entity<S>[]>;
+  async getBy(fields: EntityKey<S> | EntityKey<S>[], values: unknown): Promise<Entity<S>[]> {
+    const [fieldList, valueList] = toIndexLookup(fields as string | string[], values);
+    findSecondaryIndex(this.#config.indexes ?? [], this.#config.tableName, fieldList);
+    return this._getWhere(
+      fieldList.map((field, i) => `${quoteIdentifier(field)} = $${i + 1}`).join(' AND '),
+      valueList as DuckDBValue[],
+    );
+  }
+
+  /**
+   * a query over the entities, compiled to SQL so that DuckDB filters, orders and counts the rows,
+   * and only the selected fields of the matching ones are read back. see OneIndexTable.query.
+   */
+  query(): Query<Entity<S>> {
+    return new Query(this._queryExecutor());
+  }
+
+  _queryExecutor(): QueryExecutor {
+    return {
+      rows: (spec) => this.#queryEntities(spec),
+      count: async (spec) => {
+        const [[count]] = await this.#runQuery(this.#queryCompiler.count(spec), (chunk) => chunk.getRows());
+        return Number(count);
+      },
+      groupCount: (spec, fields) => {
+        const decoder = this.#pickDecoder(fields);
+        return this.#runQuery(this.#queryCompiler.groupCount(spec, fields), (chunk) => {
+          // the count follows the fields, and is left out by the decoder
+          const counts = chunk.getColumnValues(fields.length);
+          return decoder.decodeChunk(chunk).map((group, i): GroupCount => ({ ...group, count: Number(counts[i]) }));
+        });
+      },
+    };
+  }
+
+  async *#queryEntities(spec: QuerySpec): AsyncGenerator<Record<string, unknown>> {
+    await this.flush();
+    const decoder = spec.fields ? this.#pickDecoder(spec.fields) : this.#rowDecoder;
+    const { sql, values } = this.#queryCompiler.select(spec, this.#columns);
+    const result = await this.#connection.stream(sql, values);
+    for (let chunk = await result.fetchChunk(); chunk && chunk.rowCount > 0; chunk = await result.fetchChunk()) {
+      yield* decoder.decodeChunk(chunk);
+    }
+  }
+
+  async #runQuery<T>({ sql, values }: ParameterizedSql, decode: (chunk: DuckDBDataChunk) => T[]): Promise<T[]> {
+    await this.flush();
+    const result = await this.#connection.run(sql, values);
+    const rows: T[] = [];
+    for (let chunk = await result.fetchChunk(); chunk && chunk.rowCount > 0; chunk = await result.fetchChunk()) {
+      rows.push(...decode(chunk));
+    }
+    return rows;
+  }
+
+  // the shape of the selected fields, in their order, which is the order of the selected columns
+  #pickDecoder(fields: string[]) {
+    const { shape } = this.#config.fields;
+    return new DuckDbRowDecoder(Object.fromEntries(fields.map((field) => [field, shape[field]])));
+  }
+
+  /**
+   * the memory each index takes, for the benchmark: a copy of the index is built, and dropped once measured.
+   * DuckDB only reports the memory of every ART index together, so it is read before and after.
+   */
+  async measureIndexes(): Promise<IndexMemory[]> {
+    await this.flush();
+    const measured: IndexMemory[] = [];
+    for (const { fields } of this.#config.indexes ?? []) {
+      const index = secondaryIndexName(this.#config.tableName, fields);
+      const copy = quoteIdentifier(`${index}_measured`);
+      const before = await this.#artIndexBytes();
+      await this.#connection.run(`CREATE INDEX ${copy} ON ${this.#tableName} (${fields.map(quoteIdentifier).join(', ')});`);
+      const bytes = (await this.#artIndexBytes()) - before;
+      await this.#connection.run(`DROP INDEX ${copy};`);
+      measured.push({ tableName: this.#config.tableName, index, bytes });
+    }
+    return measured;
+  }
+
+  async #artIndexBytes(): Promise<number> {
+    const result = await this.#connection.runAndReadAll(
+      `SELECT memory_usage_bytes FROM duckdb_memory() WHERE tag = 'ART_INDEX';`,
+    );
+    return Number(result.getRows()[0]?.[0] ?? 0);
+  }
+
+  /**
+   * the entities matching a SQL condition, for lookups that don't go through the key
+   */
+  async _getWhere(condition: string, values: DuckDBValue[]): Promise<Entity<S>[]> {
+    await this.flush();
+    const result = await this.#connection.run(
+      `SELECT ${this.#selectColumns()} FROM ${this.#tableName} WHERE ${condition} ORDER BY ${SEQUENCE_COLUMN};`,
+      values,
+    );
+    const entities: Entity<S>[] = [];
+    for (let chunk = await result.fetchChunk(); chunk && chunk.rowCount > 0; chunk = await result.fetchChunk()) {
+      entities.push(...this.#rowDecoder.decodeChunk(chunk));
+    }
+    return entities;
+  }
+
+  async deleteEntity(entity: Entity<S>): Promise<void> {
+    await this.flush();
+    await this.#connection.run(`DELETE FROM ${this.#tableName} WHERE ${KEY_COLUMN} = $1;`, [this.#getKey(entity)]);
+  }
+
+  async deleteEntities(entities: Iterable<Entity<S>>): Promise<void> {
+    for (const entity of entities) {
+      await this.deleteEntity(entity);
+    }
+  }
+
+  /**
+   * checks every foreign key with an anti-join in DuckDB, instead of looking the keys of every entity up.
+   * throws the same error as the in-memory tables, for the first entity with an invalid foreign key.
+   */
+  async validateLinkedFields() {
+    if (this.#foreignKeys.length === 0) return;
+    await this.flush();
+    let first: { entity: Entity<S>; row: bigint; foreignKey: EntityKey<S>; target: ForeignKeyTarget } | null = null;
+    for (const [foreignKey, target] of this.#foreignKeys) {
+      const referencedKeys = await this.#referencedKeysSql(target);
+      if (!referencedKeys) return this.#validateLinkedFieldsOneByOne();
+      const violation = await this.#queryFirstRow(
+        foreignKeyViolationsSql(
+          this.#config.tableName,
+          this.#columns,
+          String(foreignKey),
+          referencedKeys,
+          SEQUENCE_COLUMN,
+          1,
+        ),
+      );
+      if (!violation) continue;
+      const [entity, values] = violation;
+      const row = values[VIOLATION_ROW_COLUMN] as bigint;
+      if (!first || row < first.row) first = { entity, row, foreignKey, target };
+    }
+
+    if (first) {
+      const { entity, foreignKey, target } = first;
+      throw new Error(
+        [
+          `Entity with invalid foreign key in table ${this.#config.tableName}`,
+          `Foreign field ${String(foreignKey)} does not exist in referenced table ${formatForeignKeyTarget(target)}`,
+          `Invalid value: ${entity[foreignKey]} in entity:`,
+          JSON.stringify(entity, null, 2),
+        ].join('\n'),
+      );
+    }
+  }
+
+  /**
+   * checks that no two entities share a primary key, with a GROUP BY in DuckDB.
+   * the key column guarantees it for the entities added through the table, but not for rows written by something else.
+   */
+  async validateUniqueKeys() {
+    await this.flush();
+    const keyFields = this.#config.primaryKey.length > 0 ? this.#config.primaryKey.map(String) : this.#columns;
+    const violation = await this.#queryFirstRow(
+      duplicateKeysSql(this.#config.tableName, this.#columns, keyFields, SEQUENCE_COLUMN, 1),
+    );
+    if (!violation) return;
+    const [entity, values] = violation;
+    throw new Error(
+      [
+        `Entity with duplicate primary key in table ${this.#config.tableName}`,
+        `Primary key ${keyFields.join(', ')} is shared by ${values[DUPLICATE_COUNT_COLUMN]} entities`,
+        `Duplicate value: ${keyFields.map((field) => entity[field]).join('␟')} in entity:`,
+        JSON.stringify(entity, null, 2),
+      ].join('\n'),
+    );
+  }
+
+  /**
+   * a query returning the keys other tables reference this table by, as a single key column
+   */
+  _keysSql(): string {
+    return `SELECT ${KEY_COLUMN} AS key FROM ${this.#tableName}`;
+  }
+
+  /**
+   * queries returning the keys of the referenced tables, or null if one of them is not in DuckDB and cannot be joined
+   */
+  async #referencedKeysSql(target: ForeignKeyTarget): Promise<string[] | null> {
+    const referencedKeys: string[] = [];
+    for (const tableName of [target].flat()) {
+      const referencedTable = this.#tgtfs[tableName];
+      if (!(referencedTable instanceof DuckDbOneIndexTable)) return null;
+      await referencedTable.flush();
+      referencedKeys.push(referencedTable._keysSql());
+    }
+    return referencedKeys;
+  }
+
+  /**
+   * report every invalid foreign key of the rows staged from a sequence on, at the location they were read from.
+   * the keys are checked with an anti-join per foreign key, and the errors reported in the order of the rows.
+   */
+  async #reportStagedForeignKeyErrors(
+    report: ValidationReport,
+    fromSequence: number,
+    locations: (() => CsvLocation)[],
+  ): Promise<void> {
+    this.#appender?.flushSync();
+    const violations: [sequence: number, foreignKeyIndex: number, entity: Entity<S>][] = [];
+    for (const [foreignKeyIndex, [foreignKey, target]] of this.#foreignKeys.entries()) {
+      const referencedKeys = await this.#referencedKeysSql(target);
+      const rows = referencedKeys
+        ? await this.#queryRows(
+            stagedForeignKeyViolationsSql(
+              this.#stagingTableName,
+              this.#columns,
+              String(foreignKey),
+              referencedKeys,
+              SEQUENCE_COLUMN,
+              fromSequence,
+            ),
+          )
+        : await this.#queryUnmatchedStagedRows(foreignKey, target, fromSequence);
+      for (const [entity, values] of rows) {
+        violations.push([Number(values[VIOLATION_ROW_COLUMN]), foreignKeyIndex, entity]);
+      }
+    }
+    violations.sort(([a, aIndex], [b, bIndex]) => a - b || aIndex - bIndex);
+    for (const [sequence, foreignKeyIndex, entity] of violations) {
+      const [foreignKey, target] = this.#foreignKeys[foreignKeyIndex];
+      report.addForeignKeyError(
+        this.#config.tableName,
+        locations[sequence - fromSequence](),
+        String(foreignKey),
+        entity[foreignKey],
+        formatForeignKeyTarget(target),
+      );
+    }
+  }
+
+  /**
+   * the staged rows from a sequence on whose foreign key is not found, looked up one by one
+   */
+  async #queryUnmatchedStagedRows(foreignKey: EntityKey<S>, target: ForeignKeyTarget, fromSequence: number) {
+    const rows = await this.#queryRows(
+      [
+        `SELECT ${this.#selectColumns()}, ${SEQUENCE_COLUMN} AS ${VIOLATION_ROW_COLUMN} FROM ${this.#stagingTableName}`,
+        `WHERE ${SEQUENCE_COLUMN} >= ${fromSequence} ORDER BY ${SEQUENCE_COLUMN};`,
+      ].join(' '),
+    );
+    const unmatched: typeof rows = [];
+    for (const row of rows) {
+      if (!(await checkForeignKey(this.#tgtfs, target, row[0][foreignKey]))) unmatched.push(row);
+    }
+    return unmatched;
+  }
+
+  /**
+   * referenced tables that are not in DuckDB cannot be joined, so the keys of every entity are looked up instead
+   */
+  async #validateLinkedFieldsOneByOne() {
+    for await (const entity of this) {
+      for (const [foreignKey, target] of this.#foreignKeys) {
+        if (!(await checkForeignKey(this.#tgtfs, target, entity[foreignKey]))) {
+          throw new Error(
+            [
+              `Entity with invalid foreign key in table ${this.#config.tableName}`,
+              `Foreign field ${String(foreignKey)} does not exist in referenced table ${formatForeignKeyTarget(target)}`,
+              `Invalid value: ${entity[foreignKey]} in entity:`,
+              JSON.stringify(entity, null, 2),
+            ].join('\n'),
+          );
+        }
+      }
+    }
+  }
+
+  async clear() {
+    await this.flush();
+    await this.#connection.run(`DELETE FROM ${this.#tableName};`);
+  }
+
+  async importFromPath(path: string, options: ImportOptions = {}): Promise<void> {
+    const duplicateKeys = importDuplicateKeyHandler(this.#config, options, this.#duplicateKeys);
+    await this._withDuplicateKeys(duplicateKeys, () => this.#importFromPath(path, options));
+  }
+
+  async #importFromPath(path: string, options: ImportOptions): Promise<void> {
+    const { report, dialect, format = importFormatOf(path), workers = 1 } = options;
+    if (workers > 1) {
+      if (report) throw new Error('Collecting errors is not supported when importing in parallel');
+      if (format !== ImportFormat.CSV) throw new Error('Importing in parallel is only supported for csv files');
+      await importInParallel<Entity<S>>(
+        path,
+        { tableName: this.#config.tableName, workers, dialect: resolveCsvDialect(dialect) },
+        async (entities) => {
+          this.addParsedEntities(entities);
+          if (this.#pendingCount >= this.#flushEvery) await this.flush();
+        },
+      );
+      await this.flush();
+      if (!this.#tgtfs.transcodeMode) await this.validateLinkedFields();
+      return;
+    }
+    if (report) {
+      // foreign keys are checked while importing, which is the only time the location of the row is known.
+      // every row of a chunk is staged with the next sequence, so the violations of the chunk are the staged rows
+      // from its first sequence on, found once it is parsed, and their sequence leads back to their location.
+      const checkForeignKeys = this.#foreignKeys.length > 0 && !this.#tgtfs.transcodeMode;
+      let chunkStart = this.#nextSequence;
+      let chunkLocations: (() => CsvLocation)[] = [];
+      await importRows(
+        path,
+        this.#config,
+        options,
+        (preEntity, getLocation) => {
+          const entity = parseEntityIntoReport(this.#zodFieldsSchema, this.#config.tableName, preEntity, report, getLocation);
+          if (!entity) return;
+          if (checkForeignKeys) chunkLocations.push(getLocation);
+          this.addParsedEntity(entity);
+        },
+        async () => {
+          if (chunkLocations.length > 0) {
+            await this.#reportStagedForeignKeyErrors(report, chunkStart, chunkLocations);
+          }
+          chunkStart = this.#nextSequence;
+          chunkLocations = [];
+          if (this.#pendingCount >= this.#flushEvery) await this.flush();
+        },
+      );
+      await this.flush();
+      return;
+    }
+
+    await importRows(
+      path,
+      this.#config,
+      options,
+      (preEntity, getLocation) => {
+        this.addParsedEntity(parseEntity(this.#zodFieldsSchema, this.#config.tableName, preEntity, getLocation));
+      },
+      () => (this.#pendingCount >= this.#flushEvery ? this.flush() : undefined),
+    );
+    await this.flush();
+
+    if (!this.#tgtfs.transcodeMode) await this.validateLinkedFields();
+  }
+
+  /**
+   * csv by default, or jsonl, parquet or arrow with the format option. DuckDB copies parquet straight from the table.
+   */
+  async exportToPath(path: string, gtfsOnly = false, options: ExportOptions = {}): Promise<void> {
+    const shape = gtfsOnly && this.#config.gtfsFields ? this.#config.gtfsFields.shape : this.#config.fields.shape;
+    if (options.format === ExportFormat.PARQUET) {
+      await this.flush();
+      const columns = Object.keys(shape).map(quoteIdentifier).join(', ');
+      await copyToParquet(
+        this.#connection,
+        `SELECT ${columns} FROM ${this.#tableName} ORDER BY ${SEQUENCE_COLUMN}`,
+        path,
+        options,
+      );
+      return;
+    }
+    await exportEntities(path, shape, this[Symbol.asyncIterator](), options);
+  }
+
+  async exportToJsonlPath(path: string, gtfsOnly = false): Promise<void> {
+    await this.exportToPath(path, gtfsOnly, { format: ExportFormat.JSONL });
+  }
+
+  /**
+   * the rows of a query over the table, as plain values, for what doesn't map to entities such as an UNNEST
+   */
+  async *queryRows(sql: string): AsyncGenerator<DuckDBValue[]> {
+    await this.flush();
+    const result = await this.#connection.stream(sql);
+    for (let chunk = await result.fetchChunk(); chunk && chunk.rowCount > 0; chunk = await result.fetchChunk()) {
+      yield* chunk.getRows();
+    }
+  }
+
+  /**
+   * every row of a query selecting the columns of the table followed by other columns, as pairs of the entity and the
+   * other columns by name
+   */
+  async #queryRows(sql: string): Promise<[Entity<S>, Record<string, DuckDBValue>][]> {
+    const result = await this.#connection.stream(sql);
+    const rows: [Entity<S>, Record<string, DuckDBValue>][] = [];
+    for (let chunk = await result.fetchChunk(); chunk && chunk.rowCount > 0; chunk = await result.fetchChunk()) {
+      const columns = result.columnNames().map((name, index) => [name, chunk.getColumnValues(index)] as const);
+      this.#rowDecoder.decodeChunk(chunk).forEach((entity, rowIndex) => {
+        rows.push([entity, Object.fromEntries(columns.map(([name, values]) => [name, values[rowIndex]]))]);
+      });
+    }
+    return rows;
+  }
+
+  /**
+   * the first row of a query selecting the columns of the table followed by other columns, which are returned by name
+   */
+  async #queryFirstRow(sql: string): Promise<[Entity<S>, Record<string, DuckDBValue>] | null> {
+    const result = await this.#connection.run(sql);
+    const chunk = await result.fetchChunk();
+    if (!chunk || chunk.rowCount === 0) return null;
+    const values = Object.fromEntries(
+      result.columnNames().map((name, columnIndex) => [name, chunk.getColumnValues(columnIndex)[0]]),
+    );
+    return [this.#rowDecoder.decodeChunk(chunk)[0], values];
+  }
+
+  #selectColumns() {
+    return this.#columns.map(quoteIdentifier).join(', ');
+  }
+}
+
+/**
+ * the same table as TwoIndexTable, stored like DuckDbOneIndexTable with the primary and secondary keys as its key,
+ * so that getWithIds goes through the key column, and getWithFirstId filters on the primary key fields.
+ */
+export class DuckDbTwoIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape> extends DuckDbOneIndexTable<
+  GtfsShape,
+  S
+> {
+  readonly #primaryKey: EntityKey<S>[];
+  readonly #tableName: string;
+
+  constructor(
+    schema: TwoIndexConfig<GtfsShape, S>,
+    tgtfs: ItineraryTgtfs,
+    connection: DuckDBConnection,
+    options: DuckDbTableOptions = {},
+  ) {
+    super({ ...schema, primaryKey: [...schema.primaryKey, ...schema.secondaryKey] }, tgtfs, connection, options);
+    this.#primaryKey = schema.primaryKey;
+    this.#tableName = quoteIdentifier(schema.tableName);
+  }
+
+  async getWithIds(primaryKey: string, secondaryKey: string): Promise<Entity<S> | null> {
+    return this.getWithId(`${primaryKey}␟${secondaryKey}`);
+  }
+
+  async getWithFirstId(id: string): Promise<Entity<S>[]> {
+    const values = id.split('␟');
+    if (values.length !== this.#primaryKey.length) return [];
+    // compared as text, like the keys of the in-memory table
+    const condition = this.#primaryKey
+      .map((field, i) => `${quoteIdentifier(String(field))}::VARCHAR = $${i + 1}`)
+      .join(' AND ');
+    return this._getWhere(condition, values);
+  }
+
+  /**
+   * referenced by the primary key alone, like getWithFirstId
+   */
+  override _keysSql(): string {
+    const key = this.#primaryKey.map((field) => `${quoteIdentifier(String(field))}::VARCHAR`).join(" || '␟' || ");
+    return `SELECT ${key} AS key FROM ${this.#tableName}`;
+  }
+}
@@ -0,0 +1,116 @@
+import fs from 'fs-extra';
+
+import { type CsvLocation } from '../helpers/parse-csv.ts';
+import { TgtfsDuplicateKeyError } from './errors.ts';
+
+/**
+ * what a table does with an entity whose key is already in it:
+ * error throws, keep-first drops the new entity, keep-last replaces the stored one (like Map.set),
+ * and collect drops the new entity into a DuplicateKeyReport.
+ */
+export const DuplicateKeyPolicy = {
+  ERROR: 'error',
+  KEEP_FIRST: 'keep-first',
+  KEEP_LAST: 'keep-last',
+  COLLECT: 'collect',
+} as const;
+export type DuplicateKeyPolicy = (typeof DuplicateKeyPolicy)[keyof typeof DuplicateKeyPolicy];
+
+export function isDuplicateKeyPolicy(name: string): name is DuplicateKeyPolicy {
+  return (Object.values(DuplicateKeyPolicy) as string[]).includes(name);
+}
+
+export type DuplicateEntity = {
+  tableName: string;
+  /** the key of the entity kept in the table, see getWithId */
+  key: string;
+  entity: Record<string, unknown>;
+};
+
+/**
+ * the entities dropped by the collect policy, in the order they were added.
+ * only the first maxDuplicates are kept, the rest are just counted.
+ */
+export class DuplicateKeyReport {
+  readonly duplicates: DuplicateEntity[] = [];
+  readonly maxDuplicates: number;
+  omittedDuplicateCount = 0;
+
+  constructor(maxDuplicates = 1000) {
+    this.maxDuplicates = maxDuplicates;
+  }
+
+  get duplicateCount() {
+    return this.duplicates.length + this.omittedDuplicateCount;
+  }
+
+  add(duplicate: DuplicateEntity) {
+    if (this.duplicates.length < this.maxDuplicates) {
+      this.duplicates.push(duplicate);
+    } else {
+      this.omittedDuplicateCount++;
+    }
+  }
+
+  toJson() {
+    return {
+      duplicateCount: this.duplicateCount,
+      omittedDuplicateCount: this.omittedDuplicateCount,
+      duplicates: this.duplicates,
+    };
+  }
+
+  async writeToPath(path: string) {
+    await fs.outputJson(path, this.toJson(), { spaces: 2 });
+  }
+}
+
+/**
+ * applies the policy of a table, or of one import into it, to the entities sharing a key with one already in the table
+ */
+export class DuplicateKeyHandler {
+  readonly tableName: string;
+  readonly policy: DuplicateKeyPolicy;
+  readonly #report: DuplicateKeyReport | undefined;
+
+  constructor(tableName: string, policy: DuplicateKeyPolicy = DuplicateKeyPolicy.KEEP_LAST, report?: DuplicateKeyReport) {
+    if (policy === DuplicateKeyPolicy.COLLECT && !report) {
+      throw new Error(`Collecting the duplicate keys of table ${tableName} needs a report to collect them in`);
+    }
+    this.tableName = tableName;
+    this.policy = policy;
+    this.#report = report;
+  }
+
+  /**
+   * whether the entity replaces the one stored with the same key. throws with the error policy.
+   */
+  replaces(key: string, entity: Record<string, unknown>, getLocation?: () => CsvLocation): boolean {
+    if (this.policy === DuplicateKeyPolicy.KEEP_LAST) return true;
+    this.reject(key, entity, getLocation);
+    return false;
+  }
+
+  /**
+   * an entity that is dropped: thrown with the error policy, and added to the report with the collect policy
+   */
+  reject(key: string, entity: Record<string, unknown>, getLocation?: () => CsvLocation) {
+    if (this.policy === DuplicateKeyPolicy.ERROR) {
+      throw new TgtfsDuplicateKeyError(this.tableName, key, entity, getLocation?.());
+    }
+    if (this.policy === DuplicateKeyPolicy.COLLECT) this.#report?.add({ tableName: this.tableName, key, entity });
+  }
+
+  /**
+   * an entity staged in a DuckDB table, dropped when the staging table is merged, with the sequence it was staged with.
+   * the merge rejects them in the order they were staged, and then calls merged.
+   */
+  rejectStaged(key: string, entity: Record<string, unknown>, sequence: number) {
+    this.reject(key, entity);
+  }
+
+  /**
+   * called once a DuckDB table has merged what it staged
+   */
+  merged() {}
+}
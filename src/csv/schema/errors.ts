@@ -1,12 +1,20 @@
 import { z } from 'zod';
+import { type CsvLocation } from '../helpers/parse-csv.ts';
 
 export class TgtfsParsingError extends Error {
   tableName: string;
   override cause: z.ZodError;
   obj: unknown;
-  constructor(tableName: string, err: z.ZodError, obj: unknown) {
+  /**
+   * where the entity is in the imported file, if it comes from one
+   */
+  location?: CsvLocation;
+  constructor(tableName: string, err: z.ZodError, obj: unknown, location?: CsvLocation) {
     super(
       [
+        ...(location
+          ? [`at line ${location.line} (record ${location.record}, byte ${location.offset}):`, location.snippet, '']
+          : []),
         `adding an entity to table ${tableName} failed with the following ${
           err.errors.length > 1 ? 'errors' : 'error'
         }:`,
@@ -20,5 +28,33 @@ export class TgtfsParsingError extends Error {
     this.tableName = tableName;
     this.cause = err;
     this.obj = obj;
+    this.location = location;
+  }
+}
+
+export class TgtfsDuplicateKeyError extends Error {
+  tableName: string;
+  key: string;
+  obj: unknown;
+  /**
+   * where the entity is in the imported file, if it comes from one and the table is in memory
+   */
+  location?: CsvLocation;
+  constructor(tableName: string, key: string, obj: unknown, location?: CsvLocation) {
+    super(
+      [
+        ...(location
+          ? [`at line ${location.line} (record ${location.record}, byte ${location.offset}):`, location.snippet, '']
+          : []),
+        `Entity with duplicate primary key in table ${tableName}`,
+        `Duplicate value: ${key} in entity:`,
+        JSON.stringify(obj, undefined, 2),
+      ].join('\n'),
+    );
+    this.name = this.constructor.name;
+    this.tableName = tableName;
+    this.key = key;
+    this.obj = obj;
+    this.location = location;
   }
 }
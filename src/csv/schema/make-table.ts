@@ -1,15 +1,26 @@
 import { z } from 'zod';
-import { importFromCsv } from '../helpers/import.ts';
+import type { DuckDBConnection } from '@duckdb/node-api';
+import { ImportFormat, importFormatOf, importFromCsv, importFromJsonl } from '../helpers/import.ts';
+import { assertNever } from '../helpers/js-tools.ts';
+import { type CsvDialect, type CsvLocation, resolveCsvDialect } from '../helpers/parse-csv.ts';
+import { importFromDuckDbSource } from '../../duckdb/import.ts';
 import { TgtfsParsingError } from './errors.ts';
-import { ItineraryTgtfs } from '../itinerary-tgtfs.ts';
-import { exportTable, writeCsvRow } from '../helpers/export.ts';
-import { TgtfsTableName, type ForeignKeyTable } from '../tgtfs-types/common.ts';
+import { DuplicateKeyHandler, DuplicateKeyPolicy, type DuplicateKeyReport } from './duplicate-keys.ts';
+import { importInParallel } from './parallel-import.ts';
+import { type ValidationReport } from './validation-report.ts';
+import { type ItineraryTgtfs } from '../itinerary-tgtfs.ts';
+import { ExportFormat, type ExportOptions, exportEntities } from '../helpers/export.ts';
+import { TgtfsTableName, type ForeignKeyTable, type ForeignKeyTarget } from '../tgtfs-types/common.ts';
+import { DuckDbOneIndexTable, DuckDbTwoIndexTable, type DuckDbTableOptions } from './duckdb-table.ts';
+import { type IndexMemory, type SecondaryIndexConfig, SecondaryIndexes } from './secondary-index.ts';
+import { Query, type QueryFilter, makeMemoryQueryExecutor } from './query.ts';
+import { type SpillingTableOptions, SpillingOneIndexTable, SpillingTwoIndexTable } from './spilling-table.ts';
 
 export type OneIndexMap<T> = Map<string, T>;
 export type TwoIndexMap<T> = Map<string, OneIndexMap<T>>;
 
-type Entity<S extends z.ZodRawShape> = z.output<z.ZodObject<S>>;
-type EntityKey<S extends z.ZodRawShape> = keyof z.infer<z.ZodObject<S>>;
+export type Entity<S extends z.ZodRawShape> = z.output<z.ZodObject<S>>;
+export type EntityKey<S extends z.ZodRawShape> = keyof z.infer<z.ZodObject<S>>;
 
 export type OneIndexConfig<GtfsShape extends z.ZodRawShape, S extends GtfsShape> = {
   tableName: TgtfsTableName;
@@ -19,9 +30,18 @@ export type OneIndexConfig<GtfsShape extends z.ZodRawShape, S extends GtfsShape>
    * can be empty - just means that the primary key is a composite of every field
    */
   primaryKey: EntityKey<S>[];
-  foreignKeys: Map<EntityKey<S>, ForeignKeyTable>;
+  foreignKeys: Map<EntityKey<S>, ForeignKeyTarget>;
   interFeedKeys?: EntityKey<S>[];
   gtfsFields?: z.ZodObject<GtfsShape>;
+  /**
+   * looked up with getBy. kept up to date by the in-memory tables, and created as ART indexes in DuckDB.
+   */
+  indexes?: SecondaryIndexConfig<EntityKey<S> & string>[];
+  /**
+   * what adding an entity with the key of one already in the table does. defaults to keep-last, like Map.set.
+   * collect needs a report to collect in, so it can only be the policy of an import.
+   */
+  duplicateKeys?: Exclude<DuplicateKeyPolicy, typeof DuplicateKeyPolicy.COLLECT>;
   additionalValidation?: [errorMessage: string, validator: (obj: Entity<S>) => boolean][];
   transformHeader?: (header: string) => string;
 };
@@ -39,12 +59,50 @@ export type TwoIndexConfig<GtfsShape extends z.ZodRawShape, S extends GtfsShape>
   secondaryKey: [EntityKey<S>, ...EntityKey<S>[]];
 };
 
+export type ImportOptions = {
+  /**
+   * collect every parsing and foreign key error in the report, instead of throwing on the first one.
+   * rows that fail parsing are skipped, rows with invalid foreign keys are still added.
+   */
+  report?: ValidationReport;
+  dialect?: Partial<CsvDialect>;
+  /**
+   * defaults to the format of the file extension, see importFormatOf. the dialect and transformHeader only apply to csv
+   * files. parquet files and DuckDB databases are read through DuckDB, and validated like csv rows.
+   */
+  format?: ImportFormat;
+  /**
+   * the table of a DuckDB database to import, which defaults to the name of the table
+   */
+  sourceTable?: string;
+  /**
+   * only import the rows matching every filter, such as { kind: 'in', field: 'route_id', values: ['R1', 'R2'] }.
+   * only for parquet files and DuckDB databases, where DuckDB applies them while reading.
+   */
+  filters?: QueryFilter[];
+  /**
+   * parse and validate the file in this many worker threads. the entities are still added in file order,
+   * so the table ends up the same as when importing in one thread. cannot be combined with a report.
+   */
+  workers?: number;
+  /**
+   * the duplicate key policy of this import, instead of the one of the table config
+   */
+  duplicateKeys?: DuplicateKeyPolicy;
+  /**
+   * where the collect policy puts the entities it drops
+   */
+  duplicates?: DuplicateKeyReport;
+};
+
 export class OneIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape> {
   readonly #entities: OneIndexMap<Entity<S>>;
   readonly #tgtfs: ItineraryTgtfs;
   readonly #config: OneIndexConfig<GtfsShape, S>;
-  readonly #foreignKeys: [EntityKey<S>, ForeignKeyTable][];
+  readonly #foreignKeys: [EntityKey<S>, ForeignKeyTarget][];
   readonly #zodFieldsSchema: z.ZodEffects<z.ZodObject<S>>;
+  readonly #indexes: SecondaryIndexes<Entity<S>>;
+  readonly #duplicateKeys: DuplicateKeyHandler;
   *[Symbol.iterator](): Generator<Entity<S>> {
     for (const entity of this.#entities.values()) {
       yield entity;
@@ -60,11 +118,9 @@ export class OneIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape>
     this.#foreignKeys = [...this.#config.foreignKeys.entries()].filter(
       ([field]) => !(this.#config.interFeedKeys?.includes(field) && this.#tgtfs.allowInterFeedKeys),
     );
-    this.#zodFieldsSchema = schema.fields.superRefine((obj, ctx) => {
-      for (const [message, validator] of this.#config.additionalValidation ?? []) {
-        if (!validator(obj)) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
-      }
-    });
+    this.#zodFieldsSchema = makeFieldsSchema(schema);
+    this.#indexes = new SecondaryIndexes(schema.tableName, schema.indexes);
+    this.#duplicateKeys = new DuplicateKeyHandler(schema.tableName, schema.duplicateKeys);
 
     this.#getKey =
       this.#config.primaryKey.length === 0
@@ -83,12 +139,12 @@ export class OneIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape>
     const entity = parseEntity(this.#zodFieldsSchema, this.#config.tableName, preEntity);
 
     if (validateLinkedFields) {
-      for (const [foreignKey, tableName] of this.#foreignKeys) {
-        if (!checkForeignKey(this.#tgtfs, tableName, entity[foreignKey])) {
+      for (const [foreignKey, target] of this.#foreignKeys) {
+        if (!checkForeignKeySync(this.#tgtfs, target, entity[foreignKey])) {
           throw new Error(
             [
               'Trying to create an entity with an invalid foreign key',
-              `Foreign field ${String(foreignKey)} does not exist in referenced table ${tableName}`,
+              `Foreign field ${String(foreignKey)} does not exist in referenced table ${formatForeignKeyTarget(target)}`,
               `Invalid value: ${entity[foreignKey]}`,
             ].join('\n'),
           );
@@ -102,9 +158,26 @@ export class OneIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape>
   /**
    * Add a parsed entity to the table.
    * Does not parse or validate foreign keys.
+   * Returns the entity kept in the table, which is the stored one if the duplicate key policy drops the new one.
    */
   addParsedEntity(entity: Entity<S>): Entity<S> {
-    this.#entities.set(this.#getKey(entity), entity);
+    return this.#addParsedEntity(entity, this.#duplicateKeys);
+  }
+
+  /**
+   * replace the stored entity with the same key in its place, whatever the duplicate key policy,
+   * for a table that resolved the duplicate itself, such as a spilling table
+   */
+  _replaceEntity(entity: Entity<S>): Entity<S> {
+    return this.#addParsedEntity(entity, new DuplicateKeyHandler(this.#config.tableName, DuplicateKeyPolicy.KEEP_LAST));
+  }
+
+  #addParsedEntity(entity: Entity<S>, duplicateKeys: DuplicateKeyHandler, getLocation?: () => CsvLocation): Entity<S> {
+    const key = this.#getKey(entity);
+    const stored = this.#entities.get(key);
+    if (stored && !duplicateKeys.replaces(key, entity, getLocation)) return stored;
+    this.#indexes.add(entity, stored);
+    this.#entities.set(key, entity);
     return entity;
   }
 
@@ -136,8 +209,36 @@ export class OneIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape>
     return this.#entities.get(id) ?? null;
   }
 
+  /**
+   * the entities with these values in an index of the config, such as getBy('block_id', 'B1'),
+   * or getBy(['route_id', 'direction_id'], ['R1', '0']) for a composite index. throws if there is no such index.
+   */
+  getBy<K extends EntityKey<S>>(field: K, value: Entity<S>[K]): Entity<S>[];
+  getBy(fields: EntityKey<S>[], values: unknown[]): Entity<S>[];
+  getBy(fields: EntityKey<S> | EntityKey<S>[], values: unknown): Entity<S>[] {
+    return this.#indexes.get(fields as string | string[], values);
+  }
+
+  /**
+   * a query over the entities, such as query().where('route_id', 'R1').orderBy('trip_id').limit(10),
+   * run by iterating them
+   */
+  query(): Query<Entity<S>> {
+    return new Query(makeMemoryQueryExecutor(() => this));
+  }
+
+  /**
+   * the memory each index takes, for the benchmark. needs node --expose-gc.
+   */
+  measureIndexes(): IndexMemory[] {
+    return this.#indexes.measure(this);
+  }
+
   deleteEntity(entity: Entity<S>): void {
-    this.#entities.delete(this.#getKey(entity));
+    const key = this.#getKey(entity);
+    const stored = this.#entities.get(key);
+    if (stored) this.#indexes.delete(stored);
+    this.#entities.delete(key);
   }
 
   deleteEntities(entities: Iterable<Entity<S>>): void {
@@ -148,12 +249,12 @@ export class OneIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape>
 
   validateLinkedFields() {
     for (const entity of this) {
-      for (const [foreignKey, tableName] of this.#foreignKeys) {
-        if (!checkForeignKey(this.#tgtfs, tableName, entity[foreignKey])) {
+      for (const [foreignKey, target] of this.#foreignKeys) {
+        if (!checkForeignKeySync(this.#tgtfs, target, entity[foreignKey])) {
           throw new Error(
             [
               `Entity with invalid foreign key in table ${this.#config.tableName}`,
-              `Foreign field ${String(foreignKey)} does not exist in referenced table ${tableName}`,
+              `Foreign field ${String(foreignKey)} does not exist in referenced table ${formatForeignKeyTarget(target)}`,
               `Invalid value: ${entity[foreignKey]} in entity:`,
               JSON.stringify(entity, null, 2),
             ].join('\n'),
@@ -165,22 +266,66 @@ export class OneIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape>
 
   clear() {
     this.#entities.clear();
-  }
+    this.#indexes.clear();
+  }
+
+  async importFromPath(path: string, options: ImportOptions = {}): Promise<void> {
+    const { report, dialect, format = importFormatOf(path), workers = 1 } = options;
+    const duplicateKeys = importDuplicateKeyHandler(this.#config, options, this.#duplicateKeys);
+    if (workers > 1) {
+      if (report) throw new Error('Collecting errors is not supported when importing in parallel');
+      if (format !== ImportFormat.CSV) throw new Error('Importing in parallel is only supported for csv files');
+      await importInParallel<Entity<S>>(
+        path,
+        { tableName: this.#config.tableName, workers, dialect: resolveCsvDialect(dialect) },
+        (entities) => {
+          for (const entity of entities) this.#addParsedEntity(entity, duplicateKeys);
+        },
+      );
+      if (!this.#tgtfs.transcodeMode) this.validateLinkedFields();
+      return;
+    }
+    if (report) {
+      // foreign keys are checked while importing, which is the only time the location of the row is known
+      await importRows(path, this.#config, options, (preEntity, getLocation) => {
+        const entity = parseEntityIntoReport(this.#zodFieldsSchema, this.#config.tableName, preEntity, report, getLocation);
+        if (!entity) return;
+        if (!this.#tgtfs.transcodeMode) {
+          for (const [foreignKey, target] of this.#foreignKeys) {
+            if (!checkForeignKeySync(this.#tgtfs, target, entity[foreignKey])) {
+              report.addForeignKeyError(
+                this.#config.tableName,
+                getLocation(),
+                String(foreignKey),
+                entity[foreignKey],
+                formatForeignKeyTarget(target),
+              );
+            }
+          }
+        }
+        this.#addParsedEntity(entity, duplicateKeys, getLocation);
+      });
+      return;
+    }
 
-  async importFromPath(path: string): Promise<void> {
-    await importFromCsv(path, (preEntity: unknown) => {
-      this.addEntity(preEntity, false)
-    }, this.#config.transformHeader);
+    await importRows(path, this.#config, options, (preEntity, getLocation) => {
+      const entity = parseEntity(this.#zodFieldsSchema, this.#config.tableName, preEntity, getLocation);
+      this.#addParsedEntity(entity, duplicateKeys, getLocation);
+    });
 
     if (!this.#tgtfs.transcodeMode) this.validateLinkedFields();
   }
 
-  async exportToPath(path: string, gtfsOnly = false): Promise<void> {
-    const fields: (keyof S)[] =
-      gtfsOnly && this.#config.gtfsFields
-        ? Object.keys(this.#config.gtfsFields.shape)
-        : Object.keys(this.#config.fields.shape);
-    await exportTable(path, this[Symbol.iterator](), (r) => writeCsvRow(fields.map((f) => r[f])), fields.join(','));
+  /**
+   * csv by default, or jsonl, parquet or arrow with the format option
+   */
+  async exportToPath(path: string, gtfsOnly = false, options: ExportOptions = {}): Promise<void> {
+    const shape = gtfsOnly && this.#config.gtfsFields ? this.#config.gtfsFields.shape : this.#config.fields.shape;
+    await exportEntities(path, shape, this[Symbol.iterator](), options);
+  }
+
+  async exportToJsonlPath(path: string, gtfsOnly = false): Promise<void> {
+    await this.exportToPath(path, gtfsOnly, { format: ExportFormat.JSONL });
   }
 }
 
@@ -188,8 +333,10 @@ export class TwoIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape>
   readonly #entities: TwoIndexMap<Entity<S>>;
   readonly #tgtfs: ItineraryTgtfs;
   readonly #config: TwoIndexConfig<GtfsShape, S>;
-  readonly #foreignKeys: [EntityKey<S>, ForeignKeyTable][];
+  readonly #foreignKeys: [EntityKey<S>, ForeignKeyTarget][];
   readonly #zodFieldsSchema: z.ZodEffects<z.ZodObject<S>>;
+  readonly #indexes: SecondaryIndexes<Entity<S>>;
+  readonly #duplicateKeys: DuplicateKeyHandler;
   *[Symbol.iterator](): Generator<Entity<S>> {
     for (const entityBySecondId of this.#entities.values()) {
       for (const entity of entityBySecondId.values()) {
@@ -213,11 +360,9 @@ export class TwoIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape>
     this.#foreignKeys = [...this.#config.foreignKeys.entries()].filter(
       ([field]) => !(this.#config.interFeedKeys?.includes(field) && this.#tgtfs.allowInterFeedKeys),
     );
-    this.#zodFieldsSchema = schema.fields.superRefine((obj, ctx) => {
-      for (const [message, validator] of this.#config.additionalValidation ?? []) {
-        if (!validator(obj)) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
-      }
-    });
+    this.#zodFieldsSchema = makeFieldsSchema(schema);
+    this.#indexes = new SecondaryIndexes(schema.tableName, schema.indexes);
+    this.#duplicateKeys = new DuplicateKeyHandler(schema.tableName, schema.duplicateKeys);
   }
 
   _getPrimaryKey(entity: Entity<S>) {
@@ -237,12 +382,12 @@ export class TwoIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape>
 
     // check foreign keys
     if (validateLinkedFields) {
-      for (const [foreignKey, tableName] of this.#foreignKeys) {
-        if (!checkForeignKey(this.#tgtfs, tableName, entity[foreignKey])) {
+      for (const [foreignKey, target] of this.#foreignKeys) {
+        if (!checkForeignKeySync(this.#tgtfs, target, entity[foreignKey])) {
           throw new Error(
             [
               'Trying to create an entity with an invalid foreign key',
-              `Foreign field ${String(foreignKey)} does not exist in referenced table ${tableName}`,
+              `Foreign field ${String(foreignKey)} does not exist in referenced table ${formatForeignKeyTarget(target)}`,
               `Invalid value: ${entity[foreignKey]}`,
             ].join('\n'),
           );
@@ -256,10 +401,29 @@ export class TwoIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape>
   /**
    * Add a parsed entity to the table.
    * Does not parse or validate foreign keys.
+   * Returns the entity kept in the table, which is the stored one if the duplicate key policy drops the new one.
    */
   addParsedEntity(entity: Entity<S>): Entity<S> {
+    return this.#addParsedEntity(entity, this.#duplicateKeys);
+  }
+
+  /**
+   * replace the stored entity with the same key in its place, whatever the duplicate key policy,
+   * for a table that resolved the duplicate itself, such as a spilling table
+   */
+  _replaceEntity(entity: Entity<S>): Entity<S> {
+    return this.#addParsedEntity(entity, new DuplicateKeyHandler(this.#config.tableName, DuplicateKeyPolicy.KEEP_LAST));
+  }
+
+  #addParsedEntity(entity: Entity<S>, duplicateKeys: DuplicateKeyHandler, getLocation?: () => CsvLocation): Entity<S> {
     const entityBySecondaryKey = this.#entities.get(this._getPrimaryKey(entity)) ?? new Map();
-    entityBySecondaryKey.set(this._getSecondaryKey(entity), entity);
+    const secondaryKey = this._getSecondaryKey(entity);
+    const stored = entityBySecondaryKey.get(secondaryKey);
+    if (stored && !duplicateKeys.replaces(`${this._getPrimaryKey(entity)}␟${secondaryKey}`, entity, getLocation)) {
+      return stored;
+    }
+    this.#indexes.add(entity, stored);
+    entityBySecondaryKey.set(secondaryKey, entity);
     this.#entities.set(this._getPrimaryKey(entity), entityBySecondaryKey);
     return entity;
   }
@@ -297,8 +461,36 @@ export class TwoIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape>
     return entityBySecondId ? [...entityBySecondId.values()] : [];
   }
 
+  /**
+   * the entities with these values in an index of the config, such as getBy('block_id', 'B1'),
+   * or getBy(['route_id', 'direction_id'], ['R1', '0']) for a composite index. throws if there is no such index.
+   */
+  getBy<K extends EntityKey<S>>(field: K, value: Entity<S>[K]): Entity<S>[];
+  getBy(fields: EntityKey<S>[], values: unknown[]): Entity<S>[];
+  getBy(fields: EntityKey<S> | EntityKey<S>[], values: unknown): Entity<S>[] {
+    return this.#indexes.get(fields as string | string[], values);
+  }
+
+  /**
+   * a query over the entities, such as query().where('route_id', 'R1').orderBy('trip_id').limit(10),
+   * run by iterating them
+   */
+  query(): Query<Entity<S>> {
+    return new Query(makeMemoryQueryExecutor(() => this));
+  }
+
+  /**
+   * the memory each index takes, for the benchmark. needs node --expose-gc.
+   */
+  measureIndexes(): IndexMemory[] {
+    return this.#indexes.measure(this);
+  }
+
   deleteEntity(entity: Entity<S>): void {
-    this.#entities.get(this._getPrimaryKey(entity))?.delete(this._getSecondaryKey(entity));
+    const entityBySecondaryKey = this.#entities.get(this._getPrimaryKey(entity));
+    const stored = entityBySecondaryKey?.get(this._getSecondaryKey(entity));
+    if (stored) this.#indexes.delete(stored);
+    entityBySecondaryKey?.delete(this._getSecondaryKey(entity));
 
     if (this.#entities.get(this._getPrimaryKey(entity))?.size === 0) {
       this.#entities.delete(this._getPrimaryKey(entity));
@@ -313,12 +505,12 @@ export class TwoIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape>
 
   validateLinkedFields() {
     for (const entity of this) {
-      for (const [foreignKey, tableName] of this.#foreignKeys) {
-        if (!checkForeignKey(this.#tgtfs, tableName, entity[foreignKey])) {
+      for (const [foreignKey, target] of this.#foreignKeys) {
+        if (!checkForeignKeySync(this.#tgtfs, target, entity[foreignKey])) {
           throw new Error(
             [
               `Entity with invalid foreign key in table ${this.#config.tableName}`,
-              `Foreign field ${String(foreignKey)} does not exist in referenced table ${tableName}`,
+              `Foreign field ${String(foreignKey)} does not exist in referenced table ${formatForeignKeyTarget(target)}`,
               `Invalid value: ${entity[foreignKey]} in entity:`,
               JSON.stringify(entity, null, 2),
             ].join('\n'),
@@ -330,35 +522,127 @@ export class TwoIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape>
 
   clear() {
     this.#entities.clear();
-  }
+    this.#indexes.clear();
+  }
+
+  async importFromPath(path: string, options: ImportOptions = {}): Promise<void> {
+    const { report, dialect, format = importFormatOf(path), workers = 1 } = options;
+    const duplicateKeys = importDuplicateKeyHandler(this.#config, options, this.#duplicateKeys);
+    if (workers > 1) {
+      if (report) throw new Error('Collecting errors is not supported when importing in parallel');
+      if (format !== ImportFormat.CSV) throw new Error('Importing in parallel is only supported for csv files');
+      await importInParallel<Entity<S>>(
+        path,
+        { tableName: this.#config.tableName, workers, dialect: resolveCsvDialect(dialect) },
+        (entities) => {
+          for (const entity of entities) this.#addParsedEntity(entity, duplicateKeys);
+        },
+      );
+      if (!this.#tgtfs.transcodeMode) this.validateLinkedFields();
+      return;
+    }
+    if (report) {
+      // foreign keys are checked while importing, which is the only time the location of the row is known
+      await importRows(path, this.#config, options, (preEntity, getLocation) => {
+        const entity = parseEntityIntoReport(this.#zodFieldsSchema, this.#config.tableName, preEntity, report, getLocation);
+        if (!entity) return;
+        if (!this.#tgtfs.transcodeMode) {
+          for (const [foreignKey, target] of this.#foreignKeys) {
+            if (!checkForeignKeySync(this.#tgtfs, target, entity[foreignKey])) {
+              report.addForeignKeyError(
+                this.#config.tableName,
+                getLocation(),
+                String(foreignKey),
+                entity[foreignKey],
+                formatForeignKeyTarget(target),
+              );
+            }
+          }
+        }
+        this.#addParsedEntity(entity, duplicateKeys, getLocation);
+      });
+      return;
+    }
 
-  async importFromPath(path: string): Promise<void> {
-    await importFromCsv(path, (preEntity: unknown) => this.addEntity(preEntity, false), this.#config.transformHeader);
+    await importRows(path, this.#config, options, (preEntity, getLocation) => {
+      const entity = parseEntity(this.#zodFieldsSchema, this.#config.tableName, preEntity, getLocation);
+      this.#addParsedEntity(entity, duplicateKeys, getLocation);
+    });
     if (!this.#tgtfs.transcodeMode) this.validateLinkedFields();
   }
 
-  async exportToPath(path: string, gtfsOnly = false): Promise<void> {
-    const fields: (keyof S)[] =
-      gtfsOnly && this.#config.gtfsFields
-        ? Object.keys(this.#config.gtfsFields.shape)
-        : Object.keys(this.#config.fields.shape);
-    await exportTable(path, this[Symbol.iterator](), (r) => writeCsvRow(fields.map((f) => r[f])), fields.join(','));
+  /**
+   * csv by default, or jsonl, parquet or arrow with the format option
+   */
+  async exportToPath(path: string, gtfsOnly = false, options: ExportOptions = {}): Promise<void> {
+    const shape = gtfsOnly && this.#config.gtfsFields ? this.#config.gtfsFields.shape : this.#config.fields.shape;
+    await exportEntities(path, shape, this[Symbol.iterator](), options);
+  }
+
+  async exportToJsonlPath(path: string, gtfsOnly = false): Promise<void> {
+    await this.exportToPath(path, gtfsOnly, { format: ExportFormat.JSONL });
   }
 }
 
+export type OneIndexTableFactory<GtfsShape extends z.ZodRawShape, S extends GtfsShape> = {
+  /**
+   * keeps the table in memory until the memory budget is used up, and spills the entities after that
+   * to a DuckDB table on the given connection. the table has to be opened before entities can be added to it.
+   */
+  (
+    tgtfs: ItineraryTgtfs,
+    connection: DuckDBConnection,
+    options: SpillingTableOptions,
+  ): SpillingOneIndexTable<GtfsShape, S>;
+  /**
+   * backs the table with a DuckDB table on the given connection.
+   * the table has to be opened before entities can be added to it.
+   */
+  (tgtfs: ItineraryTgtfs, connection: DuckDBConnection, options?: DuckDbTableOptions): DuckDbOneIndexTable<GtfsShape, S>;
+  (tgtfs: ItineraryTgtfs): OneIndexTable<GtfsShape, S>;
+};
+
 export function makeOneIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape>(
   config: OneIndexConfig<GtfsShape, S>,
-): (tgtfs: ItineraryTgtfs) => OneIndexTable<GtfsShape, S> {
-  return (tgtfs) => new OneIndexTable(config, tgtfs);
+): OneIndexTableFactory<GtfsShape, S> {
+  return ((tgtfs: ItineraryTgtfs, connection?: DuckDBConnection, options?: DuckDbTableOptions) => {
+    if (!connection) return new OneIndexTable(config, tgtfs);
+    return options && 'memoryBudget' in options
+      ? new SpillingOneIndexTable(config, tgtfs, connection, options as SpillingTableOptions)
+      : new DuckDbOneIndexTable(config, tgtfs, connection, options);
+  }) as OneIndexTableFactory<GtfsShape, S>;
 }
 
+export type TwoIndexTableFactory<GtfsShape extends z.ZodRawShape, S extends GtfsShape> = {
+  /**
+   * keeps the table in memory until the memory budget is used up, and spills the entities after that
+   * to a DuckDB table on the given connection. the table has to be opened before entities can be added to it.
+   */
+  (
+    tgtfs: ItineraryTgtfs,
+    connection: DuckDBConnection,
+    options: SpillingTableOptions,
+  ): SpillingTwoIndexTable<GtfsShape, S>;
+  /**
+   * backs the table with a DuckDB table on the given connection.
+   * the table has to be opened before entities can be added to it.
+   */
+  (tgtfs: ItineraryTgtfs, connection: DuckDBConnection, options?: DuckDbTableOptions): DuckDbTwoIndexTable<GtfsShape, S>;
+  (tgtfs: ItineraryTgtfs): TwoIndexTable<GtfsShape, S>;
+};
+
 export function makeTwoIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape>(
   config: TwoIndexConfig<GtfsShape, S>,
-): (tgtfs: ItineraryTgtfs) => TwoIndexTable<GtfsShape, S> {
-  return (tgtfs) => new TwoIndexTable(config, tgtfs);
+): TwoIndexTableFactory<GtfsShape, S> {
+  return ((tgtfs: ItineraryTgtfs, connection?: DuckDBConnection, options?: DuckDbTableOptions) => {
+    if (!connection) return new TwoIndexTable(config, tgtfs);
+    return options && 'memoryBudget' in options
+      ? new SpillingTwoIndexTable(config, tgtfs, connection, options as SpillingTableOptions)
+      : new DuckDbTwoIndexTable(config, tgtfs, connection, options);
+  }) as TwoIndexTableFactory<GtfsShape, S>;
 }
 
-function checkForeignKey(tgtfs: ItineraryTgtfs, tableName: ForeignKeyTable, id: unknown) {
+export function checkForeignKey(tgtfs: ItineraryTgtfs, target: ForeignKeyTarget, id: unknown) {
   // means the schema is optional
   if (id === undefined) {
     return true;
@@ -368,17 +652,157 @@ function checkForeignKey(tgtfs: ItineraryTgtfs, tableName: ForeignKeyTable, id:
     throw new Error(`Foreign key ${JSON.stringify(id)} is not a string`);
   }
 
+  if (!Array.isArray(target)) {
+    return findReferenced(tgtfs, target, id);
+  }
+  return findReferencedInAny(tgtfs, target, id);
+}
+
+/**
+ * the tables are looked up one after the other, since DuckDB tables share a connection, which runs one query at a time
+ */
+function findReferencedInAny(
+  tgtfs: ItineraryTgtfs,
+  tableNames: ForeignKeyTable[],
+  id: string,
+  index = 0,
+): boolean | Promise<boolean> {
+  if (index === tableNames.length) return false;
+  const found = findReferenced(tgtfs, tableNames[index], id);
+  if (found instanceof Promise) {
+    return found.then((entity) => Boolean(entity) || findReferencedInAny(tgtfs, tableNames, id, index + 1));
+  }
+  return Boolean(found) || findReferencedInAny(tgtfs, tableNames, id, index + 1);
+}
+
+/**
+ * tables with two indexes are referenced by their primary key, which any number of their entities can share
+ */
+function findReferenced(tgtfs: ItineraryTgtfs, tableName: ForeignKeyTable, id: string) {
   const referencedTable = tgtfs[tableName];
-  return referencedTable.getWithId(id);
+  if (!('getWithFirstId' in referencedTable)) {
+    return referencedTable.getWithId(id);
+  }
+  const found = referencedTable.getWithFirstId(id);
+  return found instanceof Promise ? found.then((entities) => entities.length > 0) : found.length > 0;
 }
 
-function parseEntity<T extends z.SomeZodObject>(schema: z.ZodEffects<T>, tableName: string, entity: unknown) {
+/**
+ * in-memory tables are written to synchronously, so they can only reference tables that are read synchronously
+ */
+function checkForeignKeySync(tgtfs: ItineraryTgtfs, target: ForeignKeyTarget, id: unknown) {
+  const found = checkForeignKey(tgtfs, target, id);
+  if (found instanceof Promise) {
+    throw new Error(
+      `Table ${formatForeignKeyTarget(target)} is stored in DuckDB, and cannot be referenced from an in-memory table`,
+    );
+  }
+  return found;
+}
+
+export function formatForeignKeyTarget(target: ForeignKeyTarget) {
+  return Array.isArray(target) ? target.join(' or ') : target;
+}
+
+/**
+ * read the rows of the file in the format of the options.
+ * with a report, a broken json line is added to it and skipped, since it doesn't affect the lines after it.
+ * a broken csv row always throws, since it can shift every row after it.
+ */
+export function importRows(
+  path: string,
+  config: Pick<OneIndexConfig<z.ZodRawShape, z.ZodRawShape>, 'tableName' | 'fields' | 'transformHeader'>,
+  options: ImportOptions,
+  addEntity: (preEntity: Record<string, unknown>, getLocation: () => CsvLocation) => void,
+  afterChunk?: () => Promise<void> | void,
+): Promise<void> {
+  const { report, dialect, format = importFormatOf(path), filters } = options;
+  if (filters && format !== ImportFormat.PARQUET && format !== ImportFormat.DUCKDB) {
+    throw new Error(`Filtering the imported rows is only supported for parquet files and DuckDB databases, not ${format}`);
+  }
+  switch (format) {
+    case ImportFormat.CSV:
+      return importFromCsv(path, addEntity, config.transformHeader, afterChunk, dialect);
+    case ImportFormat.PARQUET:
+      return importFromDuckDbSource({ kind: 'parquet', path }, config.fields.shape, addEntity, afterChunk, filters);
+    case ImportFormat.DUCKDB: {
+      const tableName = options.sourceTable ?? config.tableName;
+      const source = { kind: 'duckdb', path, tableName } as const;
+      return importFromDuckDbSource(source, config.fields.shape, addEntity, afterChunk, filters);
+    }
+    case ImportFormat.JSONL:
+      return importFromJsonl(
+        path,
+        addEntity,
+        afterChunk,
+        report ? (error) => report.addSyntaxError(config.tableName, error.reason, error.location) : undefined,
+      );
+    default:
+      return assertNever(format);
+  }
+}
+
+/**
+ * the duplicate key policy of an import, which is the one of the table unless the import options have one
+ */
+export function importDuplicateKeyHandler(
+  config: Pick<OneIndexConfig<z.ZodRawShape, z.ZodRawShape>, 'tableName'>,
+  options: ImportOptions,
+  tableHandler: DuplicateKeyHandler,
+): DuplicateKeyHandler {
+  return options.duplicateKeys
+    ? new DuplicateKeyHandler(config.tableName, options.duplicateKeys, options.duplicates)
+    : tableHandler;
+}
+
+/**
+ * the fields of the table, with its additionalValidation
+ */
+export function makeFieldsSchema<S extends z.ZodRawShape>(
+  config: Pick<OneIndexConfig<z.ZodRawShape, S>, 'fields' | 'additionalValidation'>,
+) {
+  return config.fields.superRefine((obj, ctx) => {
+    for (const [message, validator] of config.additionalValidation ?? []) {
+      if (!validator(obj)) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    }
+  });
+}
+
+/**
+ * @param getLocation where the entity is in the imported file, to point to it in the error
+ */
+export function parseEntity<T extends z.SomeZodObject>(
+  schema: z.ZodEffects<T>,
+  tableName: string,
+  entity: unknown,
+  getLocation?: () => CsvLocation,
+) {
   const parsed = schema.safeParse(entity, { errorMap });
 
   if (parsed.success) {
     return parsed.data;
   }
-  throw new TgtfsParsingError(tableName, parsed.error, entity);
+  throw new TgtfsParsingError(tableName, parsed.error, entity, getLocation?.());
+}
+
+/**
+ * parse an entity, adding the errors to the report instead of throwing them.
+ * returns null if the entity is invalid.
+ */
+export function parseEntityIntoReport<T extends z.SomeZodObject>(
+  schema: z.ZodEffects<T>,
+  tableName: string,
+  entity: unknown,
+  report: ValidationReport,
+  getLocation: () => CsvLocation,
+) {
+  try {
+    return parseEntity(schema, tableName, entity);
+  } catch (err) {
+    if (!(err instanceof TgtfsParsingError)) throw err;
+    report.addParsingError(err, getLocation());
+    return null;
+  }
 }
 
 const errorMap: z.ZodErrorMap = (issue, ctx) => {
@@ -0,0 +1,156 @@
+import { Worker } from 'worker_threads';
+import { z } from 'zod';
+import fs from 'fs-extra';
+
+import { type CsvDialect, type CsvLocation, CsvParseError } from '../helpers/parse-csv.ts';
+import { type CsvRange, splitCsv } from '../helpers/split-csv.ts';
+import { splitZipPath } from '../helpers/zip.ts';
+import { type TgtfsTableName } from '../tgtfs-types/common.ts';
+import { TgtfsParsingError } from './errors.ts';
+
+const WORKER_URL = new URL('./parse-worker.ts', import.meta.url);
+// more ranges than workers, so that a worker finishing early picks up more work instead of idling
+const RANGES_PER_WORKER = 4;
+
+export type ParseWorkerData = {
+  path: string;
+  tableName: TgtfsTableName;
+  headerText: string;
+  dialect: CsvDialect;
+};
+
+export type ParseRangeRequest = CsvRange & { index: number };
+
+/**
+ * errors are sent as data, since only the main thread knows how many records came before the range
+ */
+export type ParseFailure =
+  | { kind: 'entity'; issues: z.ZodIssue[]; obj: unknown; location: CsvLocation }
+  | { kind: 'csv'; reason: string; location: CsvLocation }
+  | { kind: 'other'; message: string };
+
+export type ParseWorkerMessage<T> =
+  | { type: 'entities'; index: number; entities: T[] }
+  | { type: 'done'; index: number; recordCount: number }
+  | { type: 'failed'; index: number; failure: ParseFailure };
+
+type RangeResult<T> = { batches: T[][]; done: boolean; recordCount: number; failure: ParseFailure | null };
+
+/**
+ * parse and validate a csv file in a pool of worker threads, one byte range at a time.
+ * the entities are handed to addEntities in file order, so that the result is the same as parsing the file in order,
+ * including which error is thrown first. the workers look the table up in TABLE_CONFIGS by its name.
+ * the file has to be on disk, since the workers read their ranges from it.
+ */
+export async function importInParallel<T>(
+  path: string,
+  options: { tableName: TgtfsTableName; workers: number; dialect: CsvDialect },
+  addEntities: (entities: T[]) => Promise<void> | void,
+): Promise<void> {
+  // a deflated entry can only be read from its start, so it cannot be split into ranges
+  if (await splitZipPath(path)) {
+    throw new Error('Importing in parallel is not supported for files in zip archives');
+  }
+  if (!(await fs.pathExists(path))) {
+    return;
+  }
+  const { tableName, dialect } = options;
+  const { headerText, ranges } = await splitCsv(path, options.workers * RANGES_PER_WORKER, dialect);
+  if (ranges.length === 0) {
+    return;
+  }
+
+  const workerData: ParseWorkerData = { path, tableName, headerText, dialect };
+  const workers = Array.from(
+    { length: Math.min(options.workers, ranges.length) },
+    () => new Worker(WORKER_URL, { workerData }),
+  );
+  const results: (RangeResult<T> | undefined)[] = [];
+  let nextRange = 0;
+  let mergeIndex = 0;
+  let recordsBefore = 0;
+
+  const assignRange = (worker: Worker) => {
+    if (nextRange >= ranges.length) return;
+    const request: ParseRangeRequest = { ...ranges[nextRange]!, index: nextRange };
+    worker.postMessage(request);
+    nextRange++;
+  };
+
+  const handle = async (worker: Worker, message: ParseWorkerMessage<T>) => {
+    const result = (results[message.index] ??= { batches: [], done: false, recordCount: 0, failure: null });
+    switch (message.type) {
+      case 'entities':
+        if (message.index === mergeIndex) await addEntities(message.entities);
+        else result.batches.push(message.entities);
+        break;
+      case 'done':
+        result.done = true;
+        result.recordCount = message.recordCount;
+        assignRange(worker);
+        break;
+      case 'failed':
+        result.done = true;
+        result.failure = message.failure;
+        // the ranges before it are already assigned, and the ones after it don't matter anymore
+        nextRange = ranges.length;
+        break;
+    }
+
+    // merge the ranges in order, as soon as every range before them is merged
+    while (results[mergeIndex]?.done) {
+      const merged = results[mergeIndex]!;
+      for (const batch of merged.batches) await addEntities(batch);
+      if (merged.failure) throw toError(merged.failure, tableName, recordsBefore);
+      recordsBefore += merged.recordCount;
+      results[mergeIndex] = undefined;
+      mergeIndex++;
+      const next = results[mergeIndex];
+      if (next && !next.done) {
+        for (const batch of next.batches) await addEntities(batch);
+        next.batches = [];
+      }
+    }
+  };
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      // messages are handled one after the other, since adding entities can be asynchronous
+      let queue = Promise.resolve();
+      for (const worker of workers) {
+        worker.on('message', (message: ParseWorkerMessage<T>) => {
+          queue = queue
+            .then(() => handle(worker, message))
+            .then(() => {
+              if (mergeIndex === ranges.length) resolve();
+            })
+            .catch(reject);
+        });
+        worker.on('error', reject);
+        // a worker only exits once terminated, unless it crashed, in which case its ranges are never done
+        worker.on('exit', (exitCode) => {
+          queue = queue.then(() => {
+            if (mergeIndex < ranges.length) {
+              reject(new Error(`A worker parsing ${path} exited with code ${exitCode} before the file was parsed`));
+            }
+          });
+        });
+        assignRange(worker);
+      }
+    });
+  } finally {
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+}
+
+function toError(failure: ParseFailure, tableName: TgtfsTableName, recordsBefore: number): Error {
+  const shift = (location: CsvLocation) => ({ ...location, record: location.record + recordsBefore });
+  switch (failure.kind) {
+    case 'entity':
+      return new TgtfsParsingError(tableName, new z.ZodError(failure.issues), failure.obj, shift(failure.location));
+    case 'csv':
+      return new CsvParseError(failure.reason, shift(failure.location));
+    case 'other':
+      return new Error(failure.message);
+  }
+}
@@ -0,0 +1,73 @@
+import { parentPort, workerData } from 'worker_threads';
+import { type z } from 'zod';
+import fs from 'fs-extra';
+
+import { type CsvParseState, CsvParseError, parseChunk, parseChunks } from '../helpers/parse-csv.ts';
+import { TgtfsParsingError } from './errors.ts';
+import { type OneIndexConfig, makeFieldsSchema, parseEntity } from './make-table.ts';
+import { TABLE_CONFIGS } from './table-configs.ts';
+import {
+  type ParseFailure,
+  type ParseRangeRequest,
+  type ParseWorkerData,
+  type ParseWorkerMessage,
+} from './parallel-import.ts';
+
+/**
+ * a worker of importInParallel: parses and validates the ranges it is sent, and sends back the entities in batches
+ */
+
+// small enough to start merging early, large enough that messaging doesn't dominate
+const BATCH_SIZE = 10_000;
+
+const { path, tableName, headerText, dialect } = workerData as ParseWorkerData;
+// the worker only passes the entities on, so it doesn't need to know the fields of the table
+const config = TABLE_CONFIGS[tableName] as Pick<
+  OneIndexConfig<z.ZodRawShape, z.ZodRawShape>,
+  'fields' | 'additionalValidation' | 'transformHeader'
+>;
+const schema = makeFieldsSchema(config);
+const options = { ...(config.transformHeader ? { transformHeader: config.transformHeader } : {}), dialect };
+const headerResult = parseChunk(headerText, () => {}, undefined, options);
+if (headerResult === -1) throw new Error('Parsing the header cannot be stopped');
+const { header } = headerResult.state;
+
+const post = (message: ParseWorkerMessage<unknown>) => parentPort!.postMessage(message);
+
+parentPort!.on('message', (range: ParseRangeRequest) => void parseRange(range));
+
+async function parseRange({ index, start, end, line }: ParseRangeRequest) {
+  const state: CsvParseState = { readingState: 'text', header, columns: [], text: '', line, record: 0, offset: start };
+  let batch: unknown[] = [];
+  try {
+    await parseChunks(
+      fs.createReadStream(path, { start, end: end - 1, encoding: 'utf-8' }),
+      (row, getLocation) => {
+        batch.push(parseEntity(schema, tableName, row, getLocation));
+        if (batch.length >= BATCH_SIZE) {
+          post({ type: 'entities', index, entities: batch });
+          batch = [];
+        }
+      },
+      options,
+      undefined,
+      state,
+    );
+    post({ type: 'entities', index, entities: batch });
+    post({ type: 'done', index, recordCount: state.record });
+  } catch (err) {
+    // the entities before the error are still added, as they would be when parsing in order
+    post({ type: 'entities', index, entities: batch });
+    post({ type: 'failed', index, failure: toFailure(err) });
+  }
+}
+
+function toFailure(err: unknown): ParseFailure {
+  if (err instanceof TgtfsParsingError && err.location) {
+    return { kind: 'entity', issues: err.cause.issues, obj: err.obj, location: err.location };
+  }
+  if (err instanceof CsvParseError) {
+    return { kind: 'csv', reason: err.reason, location: err.location };
+  }
+  return { kind: 'other', message: err instanceof Error ? (err.stack ?? err.message) : String(err) };
+}
@@ -0,0 +1,283 @@
+export const SortDirection = {
+  ASC: 'asc',
+  DESC: 'desc',
+} as const;
+export type SortDirection = (typeof SortDirection)[keyof typeof SortDirection];
+
+export type RangeBounds<V> = { gt?: V; gte?: V; lt?: V; lte?: V };
+
+export type QueryFilter =
+  | { kind: 'eq'; field: string; value: unknown }
+  | { kind: 'in'; field: string; values: readonly unknown[] }
+  | { kind: 'range'; field: string; bounds: RangeBounds<unknown> };
+
+/**
+ * what a query asks for, in the order it is applied: filters, then ordering, then the limit,
+ * then the projection, the grouping or the count.
+ */
+export type QuerySpec = {
+  filters: QueryFilter[];
+  /** null selects every field */
+  fields: string[] | null;
+  orderBy: { field: string; direction: SortDirection }[];
+  limit: number | null;
+};
+
+export type GroupCount = Record<string, unknown> & { count: number };
+
+/**
+ * runs queries for a table. the in-memory tables iterate their entities, the DuckDB tables compile the query to SQL.
+ */
+export type QueryExecutor = {
+  rows(spec: QuerySpec): AsyncIterable<Record<string, unknown>>;
+  count(spec: QuerySpec): Promise<number>;
+  groupCount(spec: QuerySpec, fields: string[]): Promise<GroupCount[]>;
+};
+
+const EMPTY_SPEC: QuerySpec = { filters: [], fields: null, orderBy: [], limit: null };
+
+/**
+ * a query over the entities of a table, built with table.query(). every method returns a new query,
+ * so a query can be reused as the base of others. nothing runs until the query is iterated, counted or grouped.
+ *
+ * missing values only match where(field, undefined), and come last in both directions, like NULLS LAST in SQL.
+ */
+export class Query<T extends Record<string, unknown>, R = T> implements AsyncIterable<R> {
+  readonly #executor: QueryExecutor;
+  readonly #spec: QuerySpec;
+
+  constructor(executor: QueryExecutor, spec: QuerySpec = EMPTY_SPEC) {
+    this.#executor = executor;
+    this.#spec = spec;
+  }
+
+  where<K extends keyof T & string>(field: K, value: T[K]): Query<T, R> {
+    return this.#with({ filters: [...this.#spec.filters, { kind: 'eq', field, value }] });
+  }
+
+  whereIn<K extends keyof T & string>(field: K, values: readonly NonNullable<T[K]>[]): Query<T, R> {
+    return this.#with({ filters: [...this.#spec.filters, { kind: 'in', field, values }] });
+  }
+
+  whereRange<K extends keyof T & string>(field: K, bounds: RangeBounds<NonNullable<T[K]>>): Query<T, R> {
+    return this.#with({ filters: [...this.#spec.filters, { kind: 'range', field, bounds }] });
+  }
+
+  select<K extends keyof T & string>(...fields: [K, ...K[]]): Query<T, Pick<T, K>> {
+    return new Query(this.#executor, { ...this.#spec, fields });
+  }
+
+  /**
+   * called again to break ties of the previous ordering
+   */
+  orderBy(field: keyof T & string, direction: SortDirection = SortDirection.ASC): Query<T, R> {
+    return this.#with({ orderBy: [...this.#spec.orderBy, { field, direction }] });
+  }
+
+  limit(count: number): Query<T, R> {
+    if (!Number.isInteger(count) || count < 0) throw new Error(`Invalid query limit: ${count}`);
+    return this.#with({ limit: count });
+  }
+
+  /**
+   * the number of entities in each group of values, in no particular order
+   */
+  groupBy<K extends keyof T & string>(...fields: [K, ...K[]]): { count(): Promise<(Pick<T, K> & { count: number })[]> } {
+    return {
+      count: () => this.#executor.groupCount(this.#spec, fields) as Promise<(Pick<T, K> & { count: number })[]>,
+    };
+  }
+
+  count(): Promise<number> {
+    return this.#executor.count(this.#spec);
+  }
+
+  async all(): Promise<R[]> {
+    const rows: R[] = [];
+    for await (const row of this) rows.push(row);
+    return rows;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<R> {
+    return (this.#executor.rows(this.#spec) as AsyncIterable<R>)[Symbol.asyncIterator]();
+  }
+
+  #with(changes: Partial<QuerySpec>): Query<T, R> {
+    return new Query(this.#executor, { ...this.#spec, ...changes });
+  }
+}
+
+/**
+ * runs queries by iterating the entities, sorting them only if the query is ordered
+ */
+export function makeMemoryQueryExecutor<T extends Record<string, unknown>>(entities: () => Iterable<T>): QueryExecutor {
+  const select = function* (spec: QuerySpec): Generator<T> {
+    const filters = spec.filters.map(toPredicate);
+    let selected: Iterable<T> = filterEntities(entities(), (entity) => filters.every((matches) => matches(entity)));
+    if (spec.orderBy.length > 0) selected = [...selected].sort(makeComparator(spec.orderBy));
+    if (spec.limit === null) {
+      yield* selected;
+      return;
+    }
+    let remaining = spec.limit;
+    for (const entity of selected) {
+      if (remaining-- <= 0) return;
+      yield entity;
+    }
+  };
+
+  return {
+    async *rows(spec) {
+      const { fields } = spec;
+      for (const entity of select(spec)) {
+        yield fields ? Object.fromEntries(fields.map((field) => [field, entity[field]])) : entity;
+      }
+    },
+    async count(spec) {
+      let count = 0;
+      for (const _ of select(spec)) count++;
+      return count;
+    },
+    async groupCount(spec, fields) {
+      const groups = new Map<string, GroupCount>();
+      for (const entity of select(spec)) addToGroup(groups, fields, entity, 1);
+      return [...groups.values()];
+    },
+  };
+}
+
+/**
+ * runs queries over tables holding different entities, such as the tiers of a spilling table, as if they were one.
+ * ordered queries are merged from the ordered rows of every table, and limits apply to the merged rows.
+ *
+ * @param getExecutors read when a query runs, so that tables added since the query was built are included
+ */
+export function concatQueryExecutors(getExecutors: () => QueryExecutor[]): QueryExecutor {
+  const rows = async function* (spec: QuerySpec): AsyncGenerator<Record<string, unknown>> {
+    const { fields, orderBy, limit } = spec;
+    // merging needs the ordering fields, which are only left out once the rows are merged
+    const mergedFields = fields && [...new Set([...fields, ...orderBy.map(({ field }) => field)])];
+    const sources = getExecutors().map((executor) => executor.rows({ ...spec, fields: mergedFields }));
+    let remaining = limit ?? Infinity;
+    if (remaining === 0) return;
+    const merged = orderBy.length > 0 ? mergeOrdered(sources, makeComparator(orderBy)) : concatRows(sources);
+    for await (const row of merged) {
+      yield fields ? Object.fromEntries(fields.map((field) => [field, row[field]])) : row;
+      if (--remaining === 0) return;
+    }
+  };
+
+  return {
+    rows,
+    async count(spec) {
+      let count = 0;
+      for (const executor of getExecutors()) count += await executor.count(spec);
+      return Math.min(count, spec.limit ?? Infinity);
+    },
+    async groupCount(spec, fields) {
+      const groups = new Map<string, GroupCount>();
+      if (spec.limit === null) {
+        for (const executor of getExecutors()) {
+          for (const group of await executor.groupCount(spec, fields)) addToGroup(groups, fields, group, group.count);
+        }
+      } else {
+        // which rows are within the limit is only known once they are merged
+        for await (const row of rows({ ...spec, fields })) addToGroup(groups, fields, row, 1);
+      }
+      return [...groups.values()];
+    },
+  };
+}
+
+function addToGroup(groups: Map<string, GroupCount>, fields: string[], row: Record<string, unknown>, count: number) {
+  // JSON keeps undefined apart from the string 'undefined', unlike joining the values
+  const key = JSON.stringify(fields.map((field) => row[field] ?? null));
+  const group = groups.get(key) ?? { ...Object.fromEntries(fields.map((field) => [field, row[field]])), count: 0 };
+  group.count += count;
+  groups.set(key, group);
+}
+
+async function* concatRows<T>(sources: AsyncIterable<T>[]): AsyncGenerator<T> {
+  for (const source of sources) yield* source;
+}
+
+/**
+ * the rows of every source in order, taking the first source's row on ties
+ */
+async function* mergeOrdered<T>(sources: AsyncIterable<T>[], compare: (a: T, b: T) => number): AsyncGenerator<T> {
+  const iterators = sources.map((source) => source[Symbol.asyncIterator]());
+  try {
+    const heads = await Promise.all(iterators.map((iterator) => iterator.next()));
+    for (;;) {
+      let next = -1;
+      heads.forEach((head, i) => {
+        if (!head.done && (next === -1 || compare(head.value, heads[next].value as T) < 0)) next = i;
+      });
+      if (next === -1) return;
+      yield heads[next].value as T;
+      heads[next] = await iterators[next].next();
+    }
+  } finally {
+    await Promise.all(iterators.map((iterator) => iterator.return?.()));
+  }
+}
+
+function* filterEntities<T>(entities: Iterable<T>, matches: (entity: T) => boolean): Generator<T> {
+  for (const entity of entities) {
+    if (matches(entity)) yield entity;
+  }
+}
+
+function toPredicate(filter: QueryFilter): (entity: Record<string, unknown>) => boolean {
+  const { field } = filter;
+  switch (filter.kind) {
+    case 'eq':
+      return filter.value == null
+        ? (entity) => entity[field] == null
+        : (entity) => entity[field] === filter.value;
+    case 'in': {
+      const values = new Set(filter.values);
+      return (entity) => values.has(entity[field]);
+    }
+    case 'range': {
+      const { gt, gte, lt, lte } = filter.bounds;
+      return (entity) => {
+        const value = entity[field];
+        return (
+          value != null &&
+          (gt === undefined || compareFieldValues(value, gt) > 0) &&
+          (gte === undefined || compareFieldValues(value, gte) >= 0) &&
+          (lt === undefined || compareFieldValues(value, lt) < 0) &&
+          (lte === undefined || compareFieldValues(value, lte) <= 0)
+        );
+      };
+    }
+  }
+}
+
+/**
+ * the order of the entities by the fields of orderBy, with missing values last, like ORDER BY ... NULLS LAST in SQL
+ */
+export function makeComparator(orderBy: QuerySpec['orderBy']) {
+  return (a: Record<string, unknown>, b: Record<string, unknown>) => {
+    for (const { field, direction } of orderBy) {
+      const [x, y] = [a[field], b[field]];
+      if (x === y) continue;
+      // missing values last, whatever the direction
+      if (x == null) return 1;
+      if (y == null) return -1;
+      const order = compareFieldValues(x, y);
+      if (order !== 0) return direction === SortDirection.DESC ? -order : order;
+    }
+    return 0;
+  };
+}
+
+/**
+ * the order of two values of a field: numbers by value, anything else by its text, like the strings of the entities
+ */
+function compareFieldValues(x: unknown, y: unknown): number {
+  if (typeof x === 'number' && typeof y === 'number') return x < y ? -1 : x > y ? 1 : 0;
+  const [a, b] = [String(x), String(y)];
+  return a < b ? -1 : a > b ? 1 : 0;
+}
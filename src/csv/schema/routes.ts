@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+import { routeFields } from '../tgtfs-types/route.ts';
+import { type ForeignKeyTarget, TgtfsTableName } from '../tgtfs-types/common.ts';
+
+import { type OneIndexConfig, makeOneIndexTable } from './make-table.ts';
+import { type DuckDbOneIndexTable } from './duckdb-table.ts';
+import { type SpillingOneIndexTable } from './spilling-table.ts';
+
+export const routeParser = z.object(routeFields);
+
+export type Route = z.infer<typeof routeParser>;
+
+export const routesConfig: OneIndexConfig<z.ZodRawShape, typeof routeFields> = {
+  tableName: TgtfsTableName.ROUTES,
+  fields: routeParser,
+  primaryKey: ['route_id'],
+  foreignKeys: new Map<keyof Route, ForeignKeyTarget>([['agency_id', TgtfsTableName.AGENCY]]),
+  additionalValidation: [
+    [
+      'Either route_short_name or route_long_name is required',
+      (route) => route.route_short_name !== undefined || route.route_long_name !== undefined,
+    ],
+  ],
+};
+
+export const Routes = makeOneIndexTable(routesConfig);
+
+export type RouteTable = ReturnType<typeof Routes>;
+export type DuckDbRouteTable = DuckDbOneIndexTable<z.ZodRawShape, typeof routeFields>;
+export type SpillingRouteTable = SpillingOneIndexTable<z.ZodRawShape, typeof routeFields>;
+
+export { routeFields } from '../tgtfs-types/route.ts';
@@ -0,0 +1,194 @@
+import { type TgtfsTableName } from '../tgtfs-types/common.ts';
+
+/**
+ * an index on one or more fields, besides the primary key, that getBy can look entities up with
+ */
+export type SecondaryIndexConfig<K extends string> = {
+  fields: [K, ...K[]];
+  /**
+   * at most one entity per value. adding a second one throws, like a duplicate key would in a database.
+   */
+  unique?: boolean;
+};
+
+export type IndexMemory = {
+  tableName: TgtfsTableName;
+  index: string;
+  bytes: number;
+};
+
+export function secondaryIndexName(tableName: TgtfsTableName, fields: readonly string[]) {
+  return `${tableName}_${fields.join('_')}_idx`;
+}
+
+/**
+ * one index kept next to the entities of an in-memory table.
+ * entities missing any of the fields are not indexed, like nulls in a database index.
+ */
+export class SecondaryIndex<T extends Record<string, unknown>> {
+  readonly name: string;
+  readonly fields: readonly string[];
+  readonly unique: boolean;
+  readonly #tableName: TgtfsTableName;
+  readonly #entities = new Map<string, T | Set<T>>();
+
+  constructor(tableName: TgtfsTableName, config: SecondaryIndexConfig<string>) {
+    this.name = secondaryIndexName(tableName, config.fields);
+    this.fields = config.fields;
+    this.unique = config.unique ?? false;
+    this.#tableName = tableName;
+  }
+
+  /**
+   * throws if the index is unique and another entity than the replaced one already has the values of the entity
+   */
+  checkUnique(entity: T, replaced?: T) {
+    if (!this.unique) return;
+    const key = this.#getKey(this.fields.map((field) => entity[field]));
+    const indexed = key === null ? undefined : this.#entities.get(key);
+    if (indexed && indexed !== entity && indexed !== replaced) {
+      throw new Error(
+        [
+          `Entity with duplicate value in unique index ${this.name} of table ${this.#tableName}`,
+          `Index fields: ${this.fields.join(', ')}`,
+          `Duplicate value: ${key!.replaceAll('␟', ', ')} in entity:`,
+          JSON.stringify(entity, null, 2),
+        ].join('\n'),
+      );
+    }
+  }
+
+  add(entity: T) {
+    const key = this.#getKey(this.fields.map((field) => entity[field]));
+    if (key === null) return;
+    const indexed = this.#entities.get(key);
+    if (this.unique) {
+      this.#entities.set(key, entity);
+    } else if (indexed) {
+      (indexed as Set<T>).add(entity);
+    } else {
+      this.#entities.set(key, new Set([entity]));
+    }
+  }
+
+  delete(entity: T) {
+    const key = this.#getKey(this.fields.map((field) => entity[field]));
+    if (key === null) return;
+    const indexed = this.#entities.get(key);
+    if (this.unique) {
+      if (indexed === entity) this.#entities.delete(key);
+      return;
+    }
+    const entities = indexed as Set<T> | undefined;
+    entities?.delete(entity);
+    if (entities?.size === 0) this.#entities.delete(key);
+  }
+
+  get(values: readonly unknown[]): T[] {
+    const key = this.#getKey(values);
+    const indexed = key === null ? undefined : this.#entities.get(key);
+    if (!indexed) return [];
+    return this.unique ? [indexed as T] : [...(indexed as Set<T>)];
+  }
+
+  clear() {
+    this.#entities.clear();
+  }
+
+  // values are compared as strings, like the primary keys
+  #getKey(values: readonly unknown[]): string | null {
+    if (values.some((value) => value === undefined || value === null)) return null;
+    return values.map(String).join('␟');
+  }
+}
+
+/**
+ * the secondary indexes of an in-memory table, kept up to date as entities are added, replaced and deleted
+ */
+export class SecondaryIndexes<T extends Record<string, unknown>> {
+  readonly #tableName: TgtfsTableName;
+  readonly #indexes: SecondaryIndex<T>[];
+
+  constructor(tableName: TgtfsTableName, configs: SecondaryIndexConfig<string>[] = []) {
+    this.#tableName = tableName;
+    this.#indexes = configs.map((config) => new SecondaryIndex<T>(tableName, config));
+  }
+
+  /**
+   * the unique indexes are all checked before any index changes, so that a duplicate leaves every index as it was
+   *
+   * @param replaced the entity with the same key that the added one replaces, if any
+   */
+  add(entity: T, replaced?: T) {
+    for (const index of this.#indexes) index.checkUnique(entity, replaced);
+    if (replaced) this.delete(replaced);
+    for (const index of this.#indexes) index.add(entity);
+  }
+
+  delete(entity: T) {
+    for (const index of this.#indexes) index.delete(entity);
+  }
+
+  clear() {
+    for (const index of this.#indexes) index.clear();
+  }
+
+  get(fields: string | string[], values: unknown): T[] {
+    const [fieldList, valueList] = toIndexLookup(fields, values);
+    return findSecondaryIndex(this.#indexes, this.#tableName, fieldList).get(valueList);
+  }
+
+  /**
+   * the memory each index takes, measured by building a copy of it from the entities.
+   * needs node --expose-gc, so that the heap only holds what is still referenced.
+   */
+  measure(entities: Iterable<T>): IndexMemory[] {
+    const gc = getGc();
+    return this.#indexes.map(({ fields, unique }) => {
+      gc();
+      const before = process.memoryUsage().heapUsed;
+      const copy = new SecondaryIndex<T>(this.#tableName, { fields: fields as [string, ...string[]], unique });
+      for (const entity of entities) copy.add(entity);
+      gc();
+      const bytes = process.memoryUsage().heapUsed - before;
+      copy.clear();
+      return { tableName: this.#tableName, index: copy.name, bytes };
+    });
+  }
+}
+
+/**
+ * getBy takes a field and a value, or the fields of a composite index and as many values
+ */
+export function toIndexLookup(fields: string | string[], values: unknown): [string[], unknown[]] {
+  if (!Array.isArray(fields)) return [[fields], [values]];
+  if (!Array.isArray(values) || values.length !== fields.length) {
+    throw new Error(`Looking up ${fields.join(', ')} needs one value per field`);
+  }
+  return [fields, values];
+}
+
+/**
+ * the index on exactly these fields, in this order. a lookup without an index throws instead of scanning the table.
+ */
+export function findSecondaryIndex<I extends { fields: readonly string[] }>(
+  indexes: I[],
+  tableName: TgtfsTableName,
+  fields: string[],
+): I {
+  const index = indexes.find(
+    (candidate) =>
+      candidate.fields.length === fields.length && candidate.fields.every((field, i) => field === fields[i]),
+  );
+  if (!index) {
+    throw new Error(`Table ${tableName} has no index on ${fields.join(', ')}`);
+  }
+  return index;
+}
+
+function getGc(): () => void {
+  if (typeof globalThis.gc !== 'function') {
+    throw new Error('Measuring the memory of indexes needs node --expose-gc');
+  }
+  return globalThis.gc;
+}
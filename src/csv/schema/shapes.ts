@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+import { shapeFields } from '../tgtfs-types/shape.ts';
+import { type ForeignKeyTarget, TgtfsTableName } from '../tgtfs-types/common.ts';
+
+import { type TwoIndexConfig, makeTwoIndexTable } from './make-table.ts';
+import { type DuckDbTwoIndexTable } from './duckdb-table.ts';
+import { type SpillingTwoIndexTable } from './spilling-table.ts';
+
+export const shapeParser = z.object(shapeFields);
+
+export type Shape = z.infer<typeof shapeParser>;
+
+export const shapesConfig: TwoIndexConfig<z.ZodRawShape, typeof shapeFields> = {
+  tableName: TgtfsTableName.SHAPES,
+  fields: shapeParser,
+  primaryKey: ['shape_id'],
+  secondaryKey: ['shape_pt_sequence'],
+  foreignKeys: new Map<keyof Shape, ForeignKeyTarget>([]),
+};
+
+export const Shapes = makeTwoIndexTable(shapesConfig);
+
+export type ShapeTable = ReturnType<typeof Shapes>;
+export type DuckDbShapeTable = DuckDbTwoIndexTable<z.ZodRawShape, typeof shapeFields>;
+export type SpillingShapeTable = SpillingTwoIndexTable<z.ZodRawShape, typeof shapeFields>;
+
+export { shapeFields } from '../tgtfs-types/shape.ts';
@@ -0,0 +1,562 @@
+import { z } from 'zod';
+import type { DuckDBConnection } from '@duckdb/node-api';
+import { ImportFormat, importFormatOf } from '../helpers/import.ts';
+import { type CsvLocation, resolveCsvDialect } from '../helpers/parse-csv.ts';
+import { ExportFormat, type ExportOptions, exportEntities } from '../helpers/export.ts';
+import { type ItineraryTgtfs } from '../itinerary-tgtfs.ts';
+import { type ForeignKeyTarget } from '../tgtfs-types/common.ts';
+import { DuckDbOneIndexTable, DuckDbTwoIndexTable, type DuckDbTableOptions } from './duckdb-table.ts';
+import { importInParallel } from './parallel-import.ts';
+import { DuplicateKeyHandler, DuplicateKeyPolicy } from './duplicate-keys.ts';
+import {
+  type Entity,
+  type EntityKey,
+  type ImportOptions,
+  type OneIndexConfig,
+  OneIndexTable,
+  type TwoIndexConfig,
+  TwoIndexTable,
+  checkForeignKey,
+  formatForeignKeyTarget,
+  importRows,
+  makeFieldsSchema,
+  parseEntity,
+  parseEntityIntoReport,
+} from './make-table.ts';
+import { Query, type QueryExecutor, concatQueryExecutors, makeMemoryQueryExecutor } from './query.ts';
+import { type IndexMemory, toIndexLookup } from './secondary-index.ts';
+
+/**
+ * rough sizes of what V8 allocates for an entity in a Map: the object with its Map entry and key,
+ * every field, and the header of every string and array
+ */
+const ENTITY_BYTES = 96;
+const FIELD_BYTES = 8;
+const STRING_BYTES = 16;
+const ARRAY_BYTES = 32;
+
+/**
+ * the bytes of entities that in-memory tables can hold before they spill to DuckDB.
+ * one budget can be shared by several tables, which then spill in the order they fill it.
+ */
+export class MemoryBudget {
+  readonly bytes: number;
+  #used = 0;
+
+  constructor(bytes: number) {
+    if (!(bytes >= 0)) throw new Error(`Invalid memory budget: ${bytes} bytes`);
+    this.bytes = bytes;
+  }
+
+  get used() {
+    return this.#used;
+  }
+
+  /**
+   * takes the bytes from the budget if they fit in what is left of it
+   */
+  reserve(bytes: number): boolean {
+    if (this.#used + bytes > this.bytes) return false;
+    this.#used += bytes;
+    return true;
+  }
+
+  release(bytes: number) {
+    this.#used -= bytes;
+  }
+}
+
+export type SpillingTableOptions = DuckDbTableOptions & { memoryBudget: MemoryBudget };
+
+/**
+ * an estimate of the heap an entity takes in an in-memory table. it is only meant to be in the right
+ * order of magnitude, so the budget bounds the records, not the heap: strings are counted as one byte per character.
+ */
+export function estimateEntityBytes(entity: Record<string, unknown>): number {
+  let bytes = ENTITY_BYTES;
+  for (const value of Object.values(entity)) bytes += FIELD_BYTES + estimateValueBytes(value);
+  return bytes;
+}
+
+function estimateValueBytes(value: unknown): number {
+  if (typeof value === 'string') return STRING_BYTES + value.length;
+  if (Array.isArray(value)) {
+    return ARRAY_BYTES + value.reduce((bytes: number, item) => bytes + FIELD_BYTES + estimateValueBytes(item), 0);
+  }
+  // numbers and booleans are stored in the field
+  return 0;
+}
+
+type Tiers<GtfsShape extends z.ZodRawShape, S extends GtfsShape> = {
+  memory: OneIndexTable<GtfsShape, S> | TwoIndexTable<GtfsShape, S>;
+  /** created with the duplicate key handler of the tiers */
+  disk: DuckDbOneIndexTable<GtfsShape, S>;
+  /** the entity with this key in the memory tier, with the key of the DuckDB table */
+  getFromMemory: (key: string) => Entity<S> | null;
+  duplicateKeys: SpillingDuplicateKeyHandler;
+};
+
+/**
+ * resolves the duplicate keys of a spilling table in the order they were added. the duplicates of the entities in
+ * memory are found as they are added, and those of the spilled entities when DuckDB merges them, so while spilled
+ * entities are staged, the duplicates found in memory wait for the merge, which rejects both in order.
+ */
+class SpillingDuplicateKeyHandler extends DuplicateKeyHandler {
+  readonly #deferred: [sequence: number, key: string, entity: Record<string, unknown>, location?: CsvLocation][] = [];
+
+  /**
+   * like replaces, but an entity that is dropped is only rejected once the entities staged before it are merged
+   *
+   * @param sequence the sequence the next spilled entity will be staged with
+   */
+  replacesAfterStaged(
+    sequence: number,
+    key: string,
+    entity: Record<string, unknown>,
+    getLocation?: () => CsvLocation,
+  ): boolean {
+    if (this.policy === DuplicateKeyPolicy.KEEP_LAST) return true;
+    if (this.policy !== DuplicateKeyPolicy.KEEP_FIRST) this.#deferred.push([sequence, key, entity, getLocation?.()]);
+    return false;
+  }
+
+  override rejectStaged(key: string, entity: Record<string, unknown>, sequence: number) {
+    this.#rejectDeferred(sequence);
+    super.rejectStaged(key, entity, sequence);
+  }
+
+  override merged() {
+    this.#rejectDeferred(Infinity);
+  }
+
+  #rejectDeferred(untilSequence: number) {
+    while (this.#deferred.length > 0 && this.#deferred[0][0] <= untilSequence) {
+      const [, key, entity, location] = this.#deferred.shift()!;
+      this.reject(key, entity, location && (() => location));
+    }
+  }
+}
+
+/**
+ * a table kept in a Map like OneIndexTable until its memory budget is used up, after which new entities spill to
+ * a DuckDB table, usually in an on-disk database. reads go through both, so the table is used like a DuckDB table:
+ * reads return promises, and the table is iterated with `for await`, the entities in memory first.
+ *
+ * once the table has spilled, entities with new keys always go to DuckDB, even if memory was freed since,
+ * so that a key is never in both. an entity replacing one in memory stays there if it fits.
+ * unique indexes are only enforced within each of them, and duplicate keys are resolved in memory as they are added,
+ * and in DuckDB when the spilled entities are merged, which is also when the duplicates found in memory in between
+ * are rejected, so that they are reported in the order they were added.
+ */
+export class SpillingOneIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape> {
+  readonly #tgtfs: ItineraryTgtfs;
+  readonly #config: OneIndexConfig<GtfsShape, S>;
+  readonly #foreignKeys: [EntityKey<S>, ForeignKeyTarget][];
+  readonly #zodFieldsSchema: z.ZodEffects<z.ZodObject<S>>;
+  readonly #memory: OneIndexTable<GtfsShape, S> | TwoIndexTable<GtfsShape, S>;
+  readonly #memoryExecutor: QueryExecutor;
+  readonly #disk: DuckDbOneIndexTable<GtfsShape, S>;
+  readonly #getFromMemory: (key: string) => Entity<S> | null;
+  readonly #budget: MemoryBudget;
+  readonly #flushEvery: number;
+  readonly #duplicateKeys: SpillingDuplicateKeyHandler;
+  #memoryBytes = 0;
+  #spilled = false;
+  #pendingSpills = 0;
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<Entity<S>> {
+    yield* this.#memory;
+    if (this.#spilled) yield* this.#disk;
+  }
+
+  readonly #getKey: (entity: Entity<S>) => string;
+  constructor(
+    schema: OneIndexConfig<GtfsShape, S>,
+    tgtfs: ItineraryTgtfs,
+    connection: DuckDBConnection,
+    options: SpillingTableOptions,
+    tiers?: Tiers<GtfsShape, S>,
+  ) {
+    this.#tgtfs = tgtfs;
+    this.#config = schema;
+    this.#foreignKeys = [...this.#config.foreignKeys.entries()].filter(
+      ([field]) => !(this.#config.interFeedKeys?.includes(field) && this.#tgtfs.allowInterFeedKeys),
+    );
+    this.#zodFieldsSchema = makeFieldsSchema(schema);
+    if (!tiers) {
+      const memory = new OneIndexTable(schema, tgtfs);
+      const duplicateKeys = new SpillingDuplicateKeyHandler(schema.tableName, schema.duplicateKeys);
+      tiers = {
+        memory,
+        disk: new DuckDbOneIndexTable(schema, tgtfs, connection, { ...options, duplicateKeys }),
+        getFromMemory: (key) => memory.getWithId(key),
+        duplicateKeys,
+      };
+    }
+    this.#memory = tiers.memory;
+    this.#disk = tiers.disk;
+    this.#getFromMemory = tiers.getFromMemory;
+    this.#duplicateKeys = tiers.duplicateKeys;
+    this.#memoryExecutor = makeMemoryQueryExecutor(() => this.#memory);
+    this.#budget = options.memoryBudget;
+    this.#flushEvery = options.flushEvery ?? 100_000;
+
+    this.#getKey =
+      this.#config.primaryKey.length === 0
+        ? (entity) =>
+            Object.values(entity)
+              .map((v) => String(v))
+              .join('␟')
+        : (entity) => this.#config.primaryKey.map((k) => String(entity[k])).join('␟');
+  }
+
+  /**
+   * whether entities went over the budget and were added to DuckDB
+   */
+  get hasSpilled() {
+    return this.#spilled;
+  }
+
+  /**
+   * Create the DuckDB table entities spill to.
+   * Has to be called before any entity is added.
+   */
+  async open(): Promise<this> {
+    await this.#disk.open();
+    return this;
+  }
+
+  async close(): Promise<void> {
+    await this.#disk.close();
+  }
+
+  /**
+   * Parse an entity and add it to the table.
+   * Sets defaults on the entity, and unless validateLinkedFields is false, checks that all foreign keys are valid.
+   */
+  async addEntity(preEntity: unknown, validateLinkedFields = true): Promise<Entity<S>> {
+    const entity = parseEntity(this.#zodFieldsSchema, this.#config.tableName, preEntity);
+
+    if (validateLinkedFields) {
+      for (const [foreignKey, target] of this.#foreignKeys) {
+        if (!(await checkForeignKey(this.#tgtfs, target, entity[foreignKey]))) {
+          throw new Error(
+            [
+              'Trying to create an entity with an invalid foreign key',
+              `Foreign field ${String(foreignKey)} does not exist in referenced table ${formatForeignKeyTarget(target)}`,
+              `Invalid value: ${entity[foreignKey]}`,
+            ].join('\n'),
+          );
+        }
+      }
+    }
+
+    return this.addParsedEntity(entity);
+  }
+
+  /**
+   * Add a parsed entity to the table, in memory if it fits in the budget, and in DuckDB otherwise.
+   * Does not parse or validate foreign keys.
+   * Returns the entity kept in the table, which is the stored one if the duplicate key policy drops the new one.
+   */
+  addParsedEntity(entity: Entity<S>): Entity<S> {
+    return this.#addParsedEntity(entity, this.#duplicateKeys);
+  }
+
+  #addParsedEntity(
+    entity: Entity<S>,
+    duplicateKeys: SpillingDuplicateKeyHandler,
+    getLocation?: () => CsvLocation,
+  ): Entity<S> {
+    const bytes = estimateEntityBytes(entity);
+    const key = this.#getKey(entity);
+    const stored = this.#getFromMemory(key);
+    if (stored) {
+      const replaces = this.#disk._hasStaged
+        ? duplicateKeys.replacesAfterStaged(this.#disk._nextSequence, key, entity, getLocation)
+        : duplicateKeys.replaces(key, entity, getLocation);
+      if (!replaces) return stored;
+      this.#release(estimateEntityBytes(stored));
+      if (this.#reserve(bytes)) return this.#memory._replaceEntity(entity);
+      this.#memory.deleteEntity(stored);
+    } else if (!this.#spilled && this.#reserve(bytes)) {
+      return this.#memory.addParsedEntity(entity);
+    }
+    this.#spilled = true;
+    this.#pendingSpills++;
+    return this.#disk.addParsedEntity(entity);
+  }
+
+  /**
+   * Parse multiple entities and add it to the table.
+   * Sets defaults on the entities, and unless validateLinkedFields is false, checks that all foreign keys are valid.
+   */
+  async addEntities(preEntities: Iterable<unknown>): Promise<Entity<S>[]> {
+    const toReturn: Entity<S>[] = [];
+    for (const entity of preEntities) {
+      toReturn.push(await this.addEntity(entity));
+    }
+    return toReturn;
+  }
+
+  /**
+   * Add multiple entities to the table.
+   * Does not parse or validate foreign keys.
+   */
+  addParsedEntities(entities: Iterable<Entity<S>>): Entity<S>[] {
+    const toReturn: Entity<S>[] = [];
+    for (const entity of entities) {
+      toReturn.push(this.addParsedEntity(entity));
+    }
+    return toReturn;
+  }
+
+  /**
+   * Merge the spilled entities into the DuckDB table.
+   * Called before every read, so there is no need to call it manually.
+   */
+  async flush(): Promise<void> {
+    await this.#disk.flush();
+    this.#pendingSpills = 0;
+  }
+
+  async getWithId(id: string): Promise<Entity<S> | null> {
+    return this.#getFromMemory(id) ?? (this.#spilled ? this.#disk.getWithId(id) : null);
+  }
+
+  /**
+   * the entities with these values in an index of the config, from memory and then from DuckDB.
+   * see OneIndexTable.getBy.
+   */
+  async getBy<K extends EntityKey<S>>(field: K, value: Entity<S>[K]): Promise<Entity<S>[]>;
+  async getBy(fields: EntityKey<S>[], values: unknown[]): Promise<Entity<S>[]>;
+  async getBy(fields: EntityKey<S> | EntityKey<S>[], values: unknown): Promise<Entity<S>[]> {
+    const [fieldList, valueList] = toIndexLookup(fields as string | string[], values) as [EntityKey<S>[], unknown[]];
+    const inMemory = this.#memory.getBy(fieldList, valueList);
+    return this.#spilled ? [...inMemory, ...(await this.#disk.getBy(fieldList, valueList))] : inMemory;
+  }
+
+  /**
+   * a query over the entities, run over the Map and compiled to SQL for DuckDB, with the rows of both merged.
+   * see OneIndexTable.query.
+   */
+  query(): Query<Entity<S>> {
+    return new Query(
+      concatQueryExecutors(() =>
+        this.#spilled ? [this.#memoryExecutor, this.#disk._queryExecutor()] : [this.#memoryExecutor],
+      ),
+    );
+  }
+
+  /**
+   * the memory each index takes in memory and in DuckDB together, for the benchmark. needs node --expose-gc.
+   */
+  async measureIndexes(): Promise<IndexMemory[]> {
+    const measured = this.#memory.measureIndexes();
+    if (!this.#spilled) return measured;
+    const spilled = await this.#disk.measureIndexes();
+    return measured.map((index, i) => ({ ...index, bytes: index.bytes + spilled[i].bytes }));
+  }
+
+  async deleteEntity(entity: Entity<S>): Promise<void> {
+    const stored = this.#getFromMemory(this.#getKey(entity));
+    if (stored) {
+      this.#memory.deleteEntity(stored);
+      this.#release(estimateEntityBytes(stored));
+    } else if (this.#spilled) {
+      await this.#disk.deleteEntity(entity);
+    }
+  }
+
+  async deleteEntities(entities: Iterable<Entity<S>>): Promise<void> {
+    for (const entity of entities) {
+      await this.deleteEntity(entity);
+    }
+  }
+
+  /**
+   * the keys of every entity are looked up, since the referenced tables can be in memory, in DuckDB, or both
+   */
+  async validateLinkedFields() {
+    for await (const entity of this) {
+      for (const [foreignKey, target] of this.#foreignKeys) {
+        if (!(await checkForeignKey(this.#tgtfs, target, entity[foreignKey]))) {
+          throw new Error(
+            [
+              `Entity with invalid foreign key in table ${this.#config.tableName}`,
+              `Foreign field ${String(foreignKey)} does not exist in referenced table ${formatForeignKeyTarget(target)}`,
+              `Invalid value: ${entity[foreignKey]} in entity:`,
+              JSON.stringify(entity, null, 2),
+            ].join('\n'),
+          );
+        }
+      }
+    }
+  }
+
+  async clear() {
+    this.#memory.clear();
+    this.#release(this.#memoryBytes);
+    await this.#disk.clear();
+    this.#spilled = false;
+    this.#pendingSpills = 0;
+  }
+
+  /**
+   * the entities spilled while importing are merged with the duplicate key policy of the import too
+   */
+  async importFromPath(path: string, options: ImportOptions = {}): Promise<void> {
+    const duplicateKeys = options.duplicateKeys
+      ? new SpillingDuplicateKeyHandler(this.#config.tableName, options.duplicateKeys, options.duplicates)
+      : this.#duplicateKeys;
+    await this.#disk._withDuplicateKeys(duplicateKeys, () => this.#importFromPath(path, options, duplicateKeys));
+  }
+
+  async #importFromPath(
+    path: string,
+    options: ImportOptions,
+    duplicateKeys: SpillingDuplicateKeyHandler,
+  ): Promise<void> {
+    const { report, dialect, format = importFormatOf(path), workers = 1 } = options;
+    if (workers > 1) {
+      if (report) throw new Error('Collecting errors is not supported when importing in parallel');
+      if (format !== ImportFormat.CSV) throw new Error('Importing in parallel is only supported for csv files');
+      await importInParallel<Entity<S>>(
+        path,
+        { tableName: this.#config.tableName, workers, dialect: resolveCsvDialect(dialect) },
+        async (entities) => {
+          for (const entity of entities) this.#addParsedEntity(entity, duplicateKeys);
+          await this.#flushSpills();
+        },
+      );
+      await this.flush();
+      if (!this.#tgtfs.transcodeMode) await this.validateLinkedFields();
+      return;
+    }
+    if (report) {
+      // foreign keys are checked while importing, which is the only time the location of the row is known.
+      // looking them up can be asynchronous, so the entities of a chunk are checked once it is parsed.
+      const checkForeignKeys = this.#foreignKeys.length > 0 && !this.#tgtfs.transcodeMode;
+      let toCheck: [getLocation: () => CsvLocation, entity: Entity<S>][] = [];
+      await importRows(
+        path,
+        this.#config,
+        options,
+        (preEntity, getLocation) => {
+          const entity = parseEntityIntoReport(this.#zodFieldsSchema, this.#config.tableName, preEntity, report, getLocation);
+          if (!entity) return;
+          if (checkForeignKeys) toCheck.push([getLocation, entity]);
+          this.#addParsedEntity(entity, duplicateKeys, getLocation);
+        },
+        async () => {
+          for (const [getLocation, entity] of toCheck) {
+            for (const [foreignKey, target] of this.#foreignKeys) {
+              if (!(await checkForeignKey(this.#tgtfs, target, entity[foreignKey]))) {
+                report.addForeignKeyError(
+                  this.#config.tableName,
+                  getLocation(),
+                  String(foreignKey),
+                  entity[foreignKey],
+                  formatForeignKeyTarget(target),
+                );
+              }
+            }
+          }
+          toCheck = [];
+          await this.#flushSpills();
+        },
+      );
+      await this.flush();
+      return;
+    }
+
+    await importRows(
+      path,
+      this.#config,
+      options,
+      (preEntity, getLocation) => {
+        const entity = parseEntity(this.#zodFieldsSchema, this.#config.tableName, preEntity, getLocation);
+        this.#addParsedEntity(entity, duplicateKeys, getLocation);
+      },
+      () => this.#flushSpills(),
+    );
+    await this.flush();
+
+    if (!this.#tgtfs.transcodeMode) await this.validateLinkedFields();
+  }
+
+  /**
+   * csv by default, or jsonl, parquet or arrow with the format option
+   */
+  async exportToPath(path: string, gtfsOnly = false, options: ExportOptions = {}): Promise<void> {
+    const shape = gtfsOnly && this.#config.gtfsFields ? this.#config.gtfsFields.shape : this.#config.fields.shape;
+    await exportEntities(path, shape, this[Symbol.asyncIterator](), options);
+  }
+
+  async exportToJsonlPath(path: string, gtfsOnly = false): Promise<void> {
+    await this.exportToPath(path, gtfsOnly, { format: ExportFormat.JSONL });
+  }
+
+  // the staging table of DuckDB lives in memory, so it is merged as often as while importing into DuckDB
+  async #flushSpills() {
+    if (this.#pendingSpills >= this.#flushEvery) await this.flush();
+  }
+
+  #reserve(bytes: number): boolean {
+    if (!this.#budget.reserve(bytes)) return false;
+    this.#memoryBytes += bytes;
+    return true;
+  }
+
+  #release(bytes: number) {
+    this.#budget.release(bytes);
+    this.#memoryBytes -= bytes;
+  }
+}
+
+/**
+ * the same table as TwoIndexTable while it fits in its budget, spilling like SpillingOneIndexTable,
+ * with the primary and secondary keys as the key of both tiers, as in DuckDbTwoIndexTable.
+ */
+export class SpillingTwoIndexTable<GtfsShape extends z.ZodRawShape, S extends GtfsShape> extends SpillingOneIndexTable<
+  GtfsShape,
+  S
+> {
+  readonly #memory: TwoIndexTable<GtfsShape, S>;
+  readonly #disk: DuckDbTwoIndexTable<GtfsShape, S>;
+
+  constructor(
+    schema: TwoIndexConfig<GtfsShape, S>,
+    tgtfs: ItineraryTgtfs,
+    connection: DuckDBConnection,
+    options: SpillingTableOptions,
+  ) {
+    const memory = new TwoIndexTable(schema, tgtfs);
+    const duplicateKeys = new SpillingDuplicateKeyHandler(schema.tableName, schema.duplicateKeys);
+    const disk = new DuckDbTwoIndexTable(schema, tgtfs, connection, { ...options, duplicateKeys });
+    const primaryKeyLength = schema.primaryKey.length;
+    super({ ...schema, primaryKey: [...schema.primaryKey, ...schema.secondaryKey] }, tgtfs, connection, options, {
+      memory,
+      disk,
+      getFromMemory: (key) => {
+        const values = key.split('␟');
+        return memory.getWithIds(values.slice(0, primaryKeyLength).join('␟'), values.slice(primaryKeyLength).join('␟'));
+      },
+      duplicateKeys,
+    });
+    this.#memory = memory;
+    this.#disk = disk;
+  }
+
+  async getWithIds(primaryKey: string, secondaryKey: string): Promise<Entity<S> | null> {
+    return this.getWithId(`${primaryKey}␟${secondaryKey}`);
+  }
+
+  /**
+   * the entities sharing the primary key can be split between memory and DuckDB, if the table spilled while adding them
+   */
+  async getWithFirstId(id: string): Promise<Entity<S>[]> {
+    const inMemory = this.#memory.getWithFirstId(id);
+    return this.hasSpilled ? [...inMemory, ...(await this.#disk.getWithFirstId(id))] : inMemory;
+  }
+}
@@ -0,0 +1,72 @@
+import { type CsvDialect, resolveCsvDialect } from '../helpers/parse-csv.ts';
+import { exportTable, writeCsvRow } from '../helpers/export.ts';
+import { TgtfsTableName, gtfsTimeReverseTransform } from '../tgtfs-types/common.ts';
+import { stopTimesSql } from '../../duckdb/stop-times.ts';
+import { DuckDbOneIndexTable } from './duckdb-table.ts';
+import { type DuckDbTripTable, type SpillingTripTable, type Trip, type TripTable } from './trips.ts';
+
+/**
+ * the columns of stop_times.txt that the trips hold.
+ * the stop ids are part of the itineraries, which are not loaded here, so stop_id is left empty.
+ */
+export const STOP_TIME_COLUMNS = [
+  'trip_id',
+  'arrival_time',
+  'departure_time',
+  'stop_id',
+  'stop_sequence',
+  'start_pickup_drop_off_window',
+  'end_pickup_drop_off_window',
+];
+
+/**
+ * one stop time per index of the time arrays of the trip, with the index as the stop sequence
+ */
+export function expandStopTimes(trip: Trip): unknown[][] {
+  const { arrival_times, departure_times, start_pickup_drop_off_windows, end_pickup_drop_off_windows } = trip;
+  const length = Math.max(
+    arrival_times.length,
+    departure_times.length,
+    start_pickup_drop_off_windows.length,
+    end_pickup_drop_off_windows.length,
+  );
+  return Array.from({ length }, (_, index) => [
+    trip.trip_id,
+    toGtfsTime(arrival_times[index]),
+    toGtfsTime(departure_times[index]),
+    null,
+    index,
+    toGtfsTime(start_pickup_drop_off_windows[index]),
+    toGtfsTime(end_pickup_drop_off_windows[index]),
+  ]);
+}
+
+/**
+ * write stop_times.txt from the trips. DuckDB tables expand the arrays in SQL, the others one trip at a time,
+ * including spilling tables, whose trips are partly in memory.
+ */
+export async function exportStopTimes(
+  path: string,
+  trips: TripTable | DuckDbTripTable | SpillingTripTable,
+  dialect?: Partial<CsvDialect>,
+): Promise<void> {
+  const csvDialect = resolveCsvDialect(dialect);
+  const rows =
+    trips instanceof DuckDbOneIndexTable ? trips.queryRows(stopTimesSql(TgtfsTableName.TRIPS)) : expandTrips(trips);
+  await exportTable(
+    path,
+    rows,
+    (row) => writeCsvRow(row, csvDialect),
+    writeCsvRow(STOP_TIME_COLUMNS, csvDialect),
+    csvDialect,
+  );
+}
+
+async function* expandTrips(trips: Iterable<Trip> | AsyncIterable<Trip>): AsyncGenerator<unknown[]> {
+  for await (const trip of trips) yield* expandStopTimes(trip);
+}
+
+// -1 is how the arrays mark a missing time
+function toGtfsTime(time: number | undefined) {
+  return time === undefined || time < 0 ? null : gtfsTimeReverseTransform(time);
+}
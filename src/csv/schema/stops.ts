@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+import { LOCATION_TYPE, stopFields } from '../tgtfs-types/stop.ts';
+import { type ForeignKeyTarget, TgtfsTableName } from '../tgtfs-types/common.ts';
+
+import { type OneIndexConfig, makeOneIndexTable } from './make-table.ts';
+import { type DuckDbOneIndexTable } from './duckdb-table.ts';
+import { type SpillingOneIndexTable } from './spilling-table.ts';
+
+export const stopParser = z.object(stopFields);
+
+export type Stop = z.infer<typeof stopParser>;
+
+const LOCATED_TYPES: Stop['location_type'][] = [LOCATION_TYPE.STOP, LOCATION_TYPE.STATION, LOCATION_TYPE.ENTRANCE_EXIT];
+
+export const stopsConfig: OneIndexConfig<z.ZodRawShape, typeof stopFields> = {
+  tableName: TgtfsTableName.STOPS,
+  fields: stopParser,
+  primaryKey: ['stop_id'],
+  // parent_station is not checked, since stations can come after their stops in stops.txt
+  foreignKeys: new Map<keyof Stop, ForeignKeyTarget>([]),
+  additionalValidation: [
+    [
+      'stop_name, stop_lat and stop_lon are required for stops, stations and entrances',
+      (stop) =>
+        !LOCATED_TYPES.includes(stop.location_type) ||
+        (stop.stop_name !== undefined && stop.stop_lat !== undefined && stop.stop_lon !== undefined),
+    ],
+  ],
+};
+
+export const Stops = makeOneIndexTable(stopsConfig);
+
+export type StopTable = ReturnType<typeof Stops>;
+export type DuckDbStopTable = DuckDbOneIndexTable<z.ZodRawShape, typeof stopFields>;
+export type SpillingStopTable = SpillingOneIndexTable<z.ZodRawShape, typeof stopFields>;
+
+export { stopFields } from '../tgtfs-types/stop.ts';
@@ -0,0 +1,21 @@
+import { TgtfsTableName } from '../tgtfs-types/common.ts';
+import { agenciesConfig } from './agencies.ts';
+import { calendarDatesConfig } from './calendar-dates.ts';
+import { calendarsConfig } from './calendars.ts';
+import { routesConfig } from './routes.ts';
+import { shapesConfig } from './shapes.ts';
+import { stopsConfig } from './stops.ts';
+import { tripsConfig } from './trips.ts';
+
+/**
+ * the config of every table, for code that only knows a table by its name, such as the parse workers
+ */
+export const TABLE_CONFIGS = {
+  [TgtfsTableName.AGENCY]: agenciesConfig,
+  [TgtfsTableName.ROUTES]: routesConfig,
+  [TgtfsTableName.STOPS]: stopsConfig,
+  [TgtfsTableName.CALENDAR]: calendarsConfig,
+  [TgtfsTableName.CALENDAR_DATES]: calendarDatesConfig,
+  [TgtfsTableName.SHAPES]: shapesConfig,
+  [TgtfsTableName.TRIPS]: tripsConfig,
+} as const satisfies Record<TgtfsTableName, unknown>;
@@ -1,21 +1,35 @@
 import { z } from 'zod';
 
-import { tripFields } from '../tgtfs-types/trip.ts';
-import { type ForeignKeyTable, TgtfsTableName } from '../tgtfs-types/common.ts';
+import { gtfsTripFields, tripFields } from '../tgtfs-types/trip.ts';
+import { type ForeignKeyTarget, TgtfsTableName } from '../tgtfs-types/common.ts';
 
-import { makeOneIndexTable } from './make-table.ts';
+import { type OneIndexConfig, makeOneIndexTable } from './make-table.ts';
+import { type DuckDbOneIndexTable } from './duckdb-table.ts';
+import { type SpillingOneIndexTable } from './spilling-table.ts';
 
 export const tripParser = z.object(tripFields);
 
 export type Trip = z.infer<typeof tripParser>;
 
-export const Trips = makeOneIndexTable({
+export const tripsConfig: OneIndexConfig<typeof gtfsTripFields, typeof tripFields> = {
   tableName: TgtfsTableName.TRIPS,
   fields: tripParser,
+  gtfsFields: z.object(gtfsTripFields),
   primaryKey: ['trip_id'],
-  foreignKeys: new Map<keyof Trip, ForeignKeyTable>([]),
-});
+  foreignKeys: new Map<keyof Trip, ForeignKeyTarget>([
+    ['route_id', TgtfsTableName.ROUTES],
+    ['service_id', [TgtfsTableName.CALENDAR, TgtfsTableName.CALENDAR_DATES]],
+    ['shape_id', TgtfsTableName.SHAPES],
+  ]),
+  // routes and shapes can be shared between feeds
+  interFeedKeys: ['route_id', 'shape_id'],
+  indexes: [{ fields: ['block_id'] }, { fields: ['route_id'] }],
+};
+
+export const Trips = makeOneIndexTable(tripsConfig);
 
 export type TripTable = ReturnType<typeof Trips>;
+export type DuckDbTripTable = DuckDbOneIndexTable<typeof gtfsTripFields, typeof tripFields>;
+export type SpillingTripTable = SpillingOneIndexTable<typeof gtfsTripFields, typeof tripFields>;
 
-export { tripFields } from '../tgtfs-types/trip.ts';
+export { gtfsTripFields, tripFields } from '../tgtfs-types/trip.ts';
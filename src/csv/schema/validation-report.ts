@@ -0,0 +1,132 @@
+import fs from 'fs-extra';
+
+import { writeCsvRows } from '../helpers/export.ts';
+import { type CsvLocation } from '../helpers/parse-csv.ts';
+import { type TgtfsParsingError } from './errors.ts';
+
+export type ValidationIssue = {
+  tableName: string;
+  /**
+   * 1-based number of the record in the imported file, not counting the header
+   */
+  rowNumber: number;
+  /**
+   * 1-based physical line the record starts on, which differs from the row number with multiline fields
+   */
+  line: number;
+  /**
+   * null for validations of the whole entity, such as additionalValidation
+   */
+  field: string | null;
+  value: unknown;
+  message: string;
+};
+
+const CSV_HEADER = ['table_name', 'row_number', 'line', 'field', 'value', 'message'];
+
+/**
+ * collects the errors of an import instead of failing on the first one.
+ * only the first maxIssues issues are kept, the rest are just counted.
+ */
+export class ValidationReport {
+  readonly issues: ValidationIssue[] = [];
+  readonly maxIssues: number;
+  omittedIssueCount = 0;
+
+  constructor(maxIssues = 1000) {
+    this.maxIssues = maxIssues;
+  }
+
+  get issueCount() {
+    return this.issues.length + this.omittedIssueCount;
+  }
+
+  add(issue: ValidationIssue) {
+    if (this.issues.length < this.maxIssues) {
+      this.issues.push(issue);
+    } else {
+      this.omittedIssueCount++;
+    }
+  }
+
+  /**
+   * add one issue per zod issue of the error, which covers both schema and additionalValidation failures
+   */
+  addParsingError(error: TgtfsParsingError, location: CsvLocation) {
+    for (const zodIssue of error.cause.errors) {
+      const [field] = zodIssue.path;
+      this.add({
+        tableName: error.tableName,
+        rowNumber: location.record,
+        line: location.line,
+        field: field === undefined ? null : String(field),
+        value: field === undefined ? null : (error.obj as Record<string | number, unknown>)?.[field],
+        message: zodIssue.message,
+      });
+    }
+  }
+
+  /**
+   * a line of the file that could not be read at all, so there is no field to point to
+   */
+  addSyntaxError(tableName: string, reason: string, location: CsvLocation) {
+    this.add({
+      tableName,
+      rowNumber: location.record,
+      line: location.line,
+      field: null,
+      value: location.snippet,
+      message: reason,
+    });
+  }
+
+  addForeignKeyError(
+    tableName: string,
+    location: CsvLocation,
+    field: string,
+    value: unknown,
+    referencedTable: string,
+  ) {
+    this.add({
+      tableName,
+      rowNumber: location.record,
+      line: location.line,
+      field,
+      value,
+      message: `Foreign field ${field} does not exist in referenced table ${referencedTable}`,
+    });
+  }
+
+  toJson() {
+    return {
+      issueCount: this.issueCount,
+      omittedIssueCount: this.omittedIssueCount,
+      issues: this.issues,
+    };
+  }
+
+  toCsv() {
+    return `${writeCsvRows([
+      CSV_HEADER,
+      ...this.issues.map((issue) => [
+        issue.tableName,
+        issue.rowNumber,
+        issue.line,
+        issue.field,
+        typeof issue.value === 'string' || issue.value == null ? issue.value : JSON.stringify(issue.value),
+        issue.message,
+      ]),
+    ])}\n`;
+  }
+
+  /**
+   * write the report as csv if the path ends with .csv, and as json otherwise
+   */
+  async writeToPath(path: string) {
+    if (path.endsWith('.csv')) {
+      await fs.outputFile(path, this.toCsv());
+    } else {
+      await fs.outputJson(path, this.toJson(), { spaces: 2 });
+    }
+  }
+}
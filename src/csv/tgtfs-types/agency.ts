@@ -0,0 +1,12 @@
+import { optionalString, requiredString } from '../helpers/zod-helpers.ts';
+
+export const agencyFields = {
+  agency_id: optionalString,
+  agency_name: requiredString,
+  agency_url: requiredString,
+  agency_timezone: requiredString,
+  agency_lang: optionalString,
+  agency_phone: optionalString,
+  agency_fare_url: optionalString,
+  agency_email: optionalString,
+};
@@ -0,0 +1,14 @@
+import z from 'zod';
+import { requiredRegexString, requiredString } from '../helpers/zod-helpers.ts';
+import { GTFS_DATE_REGEXP } from './common.ts';
+
+export const EXCEPTION_TYPE = {
+  ADDED: '1',
+  REMOVED: '2',
+} as const;
+
+export const calendarDateFields = {
+  service_id: requiredString,
+  date: requiredRegexString(GTFS_DATE_REGEXP),
+  exception_type: z.nativeEnum(EXCEPTION_TYPE),
+};
@@ -0,0 +1,21 @@
+import z from 'zod';
+import { requiredRegexString, requiredString } from '../helpers/zod-helpers.ts';
+import { GTFS_DATE_REGEXP } from './common.ts';
+
+export const SERVICE_AVAILABILITY = {
+  NOT_AVAILABLE: '0',
+  AVAILABLE: '1',
+} as const;
+
+export const calendarFields = {
+  service_id: requiredString,
+  monday: z.nativeEnum(SERVICE_AVAILABILITY),
+  tuesday: z.nativeEnum(SERVICE_AVAILABILITY),
+  wednesday: z.nativeEnum(SERVICE_AVAILABILITY),
+  thursday: z.nativeEnum(SERVICE_AVAILABILITY),
+  friday: z.nativeEnum(SERVICE_AVAILABILITY),
+  saturday: z.nativeEnum(SERVICE_AVAILABILITY),
+  sunday: z.nativeEnum(SERVICE_AVAILABILITY),
+  start_date: requiredRegexString(GTFS_DATE_REGEXP),
+  end_date: requiredRegexString(GTFS_DATE_REGEXP),
+};
@@ -45,6 +45,8 @@ export const TGTFS_IMAGE_ESCAPED_REGEX = /^<[a-z0-9-]+>$/;
 
 export const GTFS_TIME_REGEXP = /^(\d{1,2}):([012345]\d):([012345]\d)$/;
 
+export const GTFS_DATE_REGEXP = /^\d\d\d\d(0[123456789]|1[012])(0[123456789]|[12]\d|3[01])$/;
+
 export const DATE_AS_STRING_WITH_DASHES_REGEXP = /^\d\d\d\d-(0[123456789]|1[012])-(0[123456789]|[12]\d|3[01])$/;
 
 export const DATETIME_AS_STRING_REGEXP =
@@ -59,6 +61,12 @@ export const VERSION = {
 };
 
 export const TgtfsTableName = {
+  AGENCY: 'agency',
+  ROUTES: 'routes',
+  STOPS: 'stops',
+  CALENDAR: 'calendar',
+  CALENDAR_DATES: 'calendar_dates',
+  SHAPES: 'shapes',
   TRIPS: 'trips',
 } as const;
 export type TgtfsTableName = (typeof TgtfsTableName)[keyof typeof TgtfsTableName];
@@ -67,10 +75,37 @@ export type TgtfsTableName = (typeof TgtfsTableName)[keyof typeof TgtfsTableName
  * these are the tables that can be referenced by other tables via foreign key constraints.
  */
 export type ForeignKeyTable =
+  | typeof TgtfsTableName.AGENCY
+  | typeof TgtfsTableName.ROUTES
+  | typeof TgtfsTableName.CALENDAR
+  | typeof TgtfsTableName.CALENDAR_DATES
+  | typeof TgtfsTableName.SHAPES
   | typeof TgtfsTableName.TRIPS;
 
+/**
+ * a foreign key referencing several tables is valid if the value exists in any of them.
+ * i.e., a service_id can be defined in calendar.txt, calendar_dates.txt, or both.
+ */
+export type ForeignKeyTarget = ForeignKeyTable | ForeignKeyTable[];
+
 export const TGTFS_FILE_NAMES: Record<TgtfsTableName, string> = {
+  [TgtfsTableName.AGENCY]: 'agency.txt',
+  [TgtfsTableName.ROUTES]: 'routes.txt',
+  [TgtfsTableName.STOPS]: 'stops.txt',
+  [TgtfsTableName.CALENDAR]: 'calendar.txt',
+  [TgtfsTableName.CALENDAR_DATES]: 'calendar_dates.txt',
+  [TgtfsTableName.SHAPES]: 'shapes.txt',
   [TgtfsTableName.TRIPS]: 'trips.txt',
 };
 
+/**
+ * trips can be given as json lines instead of trips.txt, which keeps the time arrays as plain json
+ */
+export const ITINERARIES_FILE_NAME = 'itineraries.jsonl';
+
+/**
+ * only written by the GTFS export, which expands the time arrays of the trips into it
+ */
+export const STOP_TIMES_FILE_NAME = 'stop_times.txt';
+
 export const TDSN_CHAR_LIMIT = 5;
@@ -0,0 +1,49 @@
+import z from 'zod';
+import {
+  optionalNumber,
+  optionalRegexString,
+  optionalString,
+  requiredRegexString,
+  requiredString,
+} from '../helpers/zod-helpers.ts';
+
+/**
+ * the basic route types. feeds can also use the extended route types (100 to 1700), so any number is accepted.
+ */
+export const ROUTE_TYPE = {
+  TRAM: '0',
+  SUBWAY: '1',
+  RAIL: '2',
+  BUS: '3',
+  FERRY: '4',
+  CABLE_TRAM: '5',
+  AERIAL_LIFT: '6',
+  FUNICULAR: '7',
+  TROLLEYBUS: '11',
+  MONORAIL: '12',
+} as const;
+
+export const CONTINUOUS_PICKUP_DROP_OFF = {
+  CONTINUOUS: '0',
+  NONE: '1',
+  PHONE_AGENCY: '2',
+  COORDINATE_WITH_DRIVER: '3',
+} as const;
+
+const COLOR_REGEXP = /^[0-9A-Fa-f]{6}$/;
+
+export const routeFields = {
+  route_id: requiredString,
+  agency_id: optionalString,
+  route_short_name: optionalString,
+  route_long_name: optionalString,
+  route_desc: optionalString,
+  route_type: requiredRegexString(/^\d+$/),
+  route_url: optionalString,
+  route_color: optionalRegexString(COLOR_REGEXP),
+  route_text_color: optionalRegexString(COLOR_REGEXP),
+  route_sort_order: optionalNumber(z.number().int().nonnegative()),
+  continuous_pickup: z.nativeEnum(CONTINUOUS_PICKUP_DROP_OFF).optional(),
+  continuous_drop_off: z.nativeEnum(CONTINUOUS_PICKUP_DROP_OFF).optional(),
+  network_id: optionalString,
+};
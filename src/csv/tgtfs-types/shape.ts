@@ -0,0 +1,10 @@
+import z from 'zod';
+import { optionalNumber, requiredNumber, requiredString } from '../helpers/zod-helpers.ts';
+
+export const shapeFields = {
+  shape_id: requiredString,
+  shape_pt_lat: requiredNumber(z.number().gte(-90).lte(90)),
+  shape_pt_lon: requiredNumber(z.number().gte(-180).lte(180)),
+  shape_pt_sequence: requiredNumber(z.number().int().nonnegative()),
+  shape_dist_traveled: optionalNumber(z.number().nonnegative()),
+};
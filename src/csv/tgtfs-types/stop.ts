@@ -0,0 +1,34 @@
+import z from 'zod';
+import { optionalNumber, optionalString, requiredString } from '../helpers/zod-helpers.ts';
+
+export const LOCATION_TYPE = {
+  STOP: '0',
+  STATION: '1',
+  ENTRANCE_EXIT: '2',
+  GENERIC_NODE: '3',
+  BOARDING_AREA: '4',
+} as const;
+
+export const WHEELCHAIR_BOARDING = {
+  NO_INFORMATION: '0',
+  ACCESSIBLE: '1',
+  NOT_ACCESSIBLE: '2',
+} as const;
+
+export const stopFields = {
+  stop_id: requiredString,
+  stop_code: optionalString,
+  stop_name: optionalString,
+  tts_stop_name: optionalString,
+  stop_desc: optionalString,
+  stop_lat: optionalNumber(z.number().gte(-90).lte(90)),
+  stop_lon: optionalNumber(z.number().gte(-180).lte(180)),
+  zone_id: optionalString,
+  stop_url: optionalString,
+  location_type: z.nativeEnum(LOCATION_TYPE).default(LOCATION_TYPE.STOP),
+  parent_station: optionalString,
+  stop_timezone: optionalString,
+  wheelchair_boarding: z.nativeEnum(WHEELCHAIR_BOARDING).default(WHEELCHAIR_BOARDING.NO_INFORMATION),
+  level_id: optionalString,
+  platform_code: optionalString,
+};
@@ -68,3 +68,19 @@ export const tripFields = {
   end_pickup_drop_off_windows: z.preprocess((s) => (typeof s === 'string' ? JSON.parse(s) : s), timeArray),
   extra_value_by_key: optionalString.refine(toJsonObjectFromString),
 };
+
+/**
+ * the columns of a standard GTFS trips.txt, in the order of the spec
+ */
+export const gtfsTripFields = {
+  route_id: tripFields.route_id,
+  service_id: tripFields.service_id,
+  trip_id: tripFields.trip_id,
+  trip_headsign: tripFields.trip_headsign,
+  trip_short_name: tripFields.trip_short_name,
+  direction_id: tripFields.direction_id,
+  block_id: tripFields.block_id,
+  shape_id: tripFields.shape_id,
+  wheelchair_accessible: tripFields.wheelchair_accessible,
+  bikes_allowed: tripFields.bikes_allowed,
+};
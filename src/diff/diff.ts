@@ -0,0 +1,197 @@
+import { isDeepStrictEqual } from 'util';
+import { type DuckDBConnection, DuckDBInstance, DuckDBListValue } from '@duckdb/node-api';
+import { z } from 'zod';
+
+import { ItineraryTgtfs, findTableFile } from '../csv/itinerary-tgtfs.ts';
+import { assertNever } from '../csv/helpers/js-tools.ts';
+import { type Entity, type OneIndexConfig } from '../csv/schema/make-table.ts';
+import { SortDirection, makeComparator } from '../csv/schema/query.ts';
+import { Trips, tripsConfig } from '../csv/schema/trips.ts';
+import { TgtfsTableName } from '../csv/tgtfs-types/common.ts';
+import { DuckDbRowDecoder } from '../duckdb/decoder.ts';
+import { CHANGE_COLUMN, CHANGED_FIELDS_COLUMN, tableDiffSql } from '../duckdb/diff.ts';
+import { zodTableDefToDuckdbColumnDefs } from '../duckdb/schema-gen.ts';
+import { quoteIdentifier, quoteLiteral } from '../duckdb/sql.ts';
+import { DUCKDB_INSTANCE_OPTIONS } from '../storage/duckdb.ts';
+import { ChangeKind, DiffReport, type EntityChange } from './report.ts';
+
+export const DiffEngine = {
+  MEMORY: 'memory',
+  DUCKDB: 'duckdb',
+} as const;
+export type DiffEngine = (typeof DiffEngine)[keyof typeof DiffEngine];
+
+export type DiffOptions = {
+  /**
+   * memory loads both versions into Maps and compares them entity by entity,
+   * duckdb compares them with a full outer join. defaults to duckdb if either version is a .duckdb file, memory otherwise.
+   */
+  engine?: DiffEngine;
+  /** number of changes kept in the report, the rest is only counted. defaults to 1000. */
+  maxChanges?: number;
+};
+
+type DiffableTable<S extends z.ZodRawShape> = Iterable<Entity<S>> & { getWithId(id: string): Entity<S> | null };
+
+/**
+ * the trips added, removed and modified between two versions of a feed, matched on trip_id.
+ * each version is a feed directory, a zip archive of one, or a .duckdb file such as the one the DuckDB backends export.
+ * only the trips are loaded, so their foreign keys are not checked.
+ */
+export async function diffTrips(oldPath: string, newPath: string, options: DiffOptions = {}): Promise<DiffReport> {
+  const hasDatabase = isDuckDbPath(oldPath) || isDuckDbPath(newPath);
+  const engine = options.engine ?? (hasDatabase ? DiffEngine.DUCKDB : DiffEngine.MEMORY);
+  const report = new DiffReport(TgtfsTableName.TRIPS, options.maxChanges);
+  switch (engine) {
+    case DiffEngine.MEMORY: {
+      await diffMemoryTables(tripsConfig, await loadMemoryTrips(oldPath), await loadMemoryTrips(newPath), report);
+      return report;
+    }
+    case DiffEngine.DUCKDB: {
+      // without a limit on the temp directory, so that the join of large feeds can spill to disk
+      const instance = await DuckDBInstance.create(':memory:', { threads: DUCKDB_INSTANCE_OPTIONS.threads });
+      const connection = await instance.connect();
+      try {
+        await attachTrips(connection, 'old_feed', oldPath);
+        await attachTrips(connection, 'new_feed', newPath);
+        const table = quoteIdentifier(TgtfsTableName.TRIPS);
+        await diffDuckDbTables(connection, tripsConfig, `old_feed.${table}`, `new_feed.${table}`, report);
+      } finally {
+        connection.closeSync();
+        instance.closeSync();
+      }
+      return report;
+    }
+    default:
+      return assertNever(engine);
+  }
+}
+
+/**
+ * compares the entities of both tables by key, and adds the changes to the report ordered by their key fields
+ */
+export function diffMemoryTables<S extends z.ZodRawShape>(
+  config: OneIndexConfig<z.ZodRawShape, S>,
+  oldTable: DiffableTable<S>,
+  newTable: DiffableTable<S>,
+  report: DiffReport,
+) {
+  const fields = Object.keys(config.fields.shape);
+  const keyFields = getKeyFields(config);
+  const getKey = (entity: Entity<S>) => keyFields.map((field) => String(entity[field])).join('␟');
+  const changes: [entity: Entity<S>, change: EntityChange][] = [];
+
+  for (const oldEntity of oldTable) {
+    report.oldCount++;
+    const key = getKey(oldEntity);
+    const newEntity = newTable.getWithId(key);
+    if (!newEntity) {
+      changes.push([oldEntity, { kind: ChangeKind.REMOVED, key, entity: oldEntity }]);
+      continue;
+    }
+    const changed = fields.filter((field) => !isDeepStrictEqual(oldEntity[field], newEntity[field]));
+    if (changed.length > 0) {
+      const fieldChanges = changed.map((field) => ({ field, old: oldEntity[field] ?? null, new: newEntity[field] ?? null }));
+      changes.push([newEntity, { kind: ChangeKind.MODIFIED, key, fields: fieldChanges }]);
+    }
+  }
+  for (const newEntity of newTable) {
+    report.newCount++;
+    const key = getKey(newEntity);
+    if (!oldTable.getWithId(key)) changes.push([newEntity, { kind: ChangeKind.ADDED, key, entity: newEntity }]);
+  }
+
+  // the order of the SQL diff, with missing values last
+  const compare = makeComparator(keyFields.map((field) => ({ field, direction: SortDirection.ASC })));
+  changes.sort(([a], [b]) => compare(a, b));
+  for (const [, change] of changes) report.add(change);
+}
+
+/**
+ * compares two tables of the same schema in DuckDB, streaming only the rows that differ
+ *
+ * @param oldTable the quoted, and possibly qualified, name of the table
+ */
+export async function diffDuckDbTables<S extends z.ZodRawShape>(
+  connection: DuckDBConnection,
+  config: OneIndexConfig<z.ZodRawShape, S>,
+  oldTable: string,
+  newTable: string,
+  report: DiffReport,
+) {
+  const columns = zodTableDefToDuckdbColumnDefs(config.fields.shape);
+  const keyFields = getKeyFields(config);
+  report.oldCount = await countRows(connection, oldTable);
+  report.newCount = await countRows(connection, newTable);
+
+  const decoder = new DuckDbRowDecoder(config.fields.shape);
+  const result = await connection.stream(tableDiffSql(oldTable, newTable, columns, keyFields));
+  const [changeIndex, changedFieldsIndex] = [CHANGE_COLUMN, CHANGED_FIELDS_COLUMN].map((name) =>
+    result.columnNames().indexOf(name),
+  );
+  for (let chunk = await result.fetchChunk(); chunk && chunk.rowCount > 0; chunk = await result.fetchChunk()) {
+    const kinds = chunk.getColumnValues(changeIndex) as ChangeKind[];
+    const changedFields = chunk.getColumnValues(changedFieldsIndex) as DuckDBListValue[];
+    const oldEntities = decoder.decodeChunk(chunk, 2);
+    const newEntities = decoder.decodeChunk(chunk, 2 + columns.length);
+    kinds.forEach((kind, i) => {
+      const entity = kind === ChangeKind.REMOVED ? oldEntities[i] : newEntities[i];
+      const key = keyFields.map((field) => String(entity[field])).join('␟');
+      if (kind !== ChangeKind.MODIFIED) {
+        report.add({ kind, key, entity });
+        return;
+      }
+      const fields = (changedFields[i].items as string[]).map((field) => ({
+        field,
+        old: oldEntities[i][field] ?? null,
+        new: newEntities[i][field] ?? null,
+      }));
+      report.add({ kind, key, fields });
+    });
+  }
+}
+
+export function isDuckDbPath(feedPath: string) {
+  return feedPath.endsWith('.duckdb');
+}
+
+/**
+ * the fields entities are matched on, which are all of them for a table without a primary key
+ */
+function getKeyFields<S extends z.ZodRawShape>(config: OneIndexConfig<z.ZodRawShape, S>): string[] {
+  return config.primaryKey.length > 0 ? config.primaryKey.map(String) : Object.keys(config.fields.shape);
+}
+
+function tripsOnlyTgtfs(): ItineraryTgtfs {
+  const tgtfs = new ItineraryTgtfs({ onPhase: () => {} });
+  tgtfs.transcodeMode = true;
+  return tgtfs;
+}
+
+async function loadMemoryTrips(feedPath: string) {
+  const file = await findTableFile(feedPath, TgtfsTableName.TRIPS);
+  const trips = Trips(tripsOnlyTgtfs());
+  await trips.importFromPath(file.path, { format: file.format });
+  return trips;
+}
+
+/**
+ * a .duckdb file is attached as it is, a feed is imported into an in-memory database of its own
+ */
+async function attachTrips(connection: DuckDBConnection, alias: string, feedPath: string) {
+  if (isDuckDbPath(feedPath)) {
+    await connection.run(`ATTACH ${quoteLiteral(feedPath)} AS ${alias} (READ_ONLY);`);
+    return;
+  }
+  await connection.run(`ATTACH ':memory:' AS ${alias};`);
+  await connection.run(`USE ${alias};`);
+  const file = await findTableFile(feedPath, TgtfsTableName.TRIPS);
+  const trips = await Trips(tripsOnlyTgtfs(), connection).open();
+  await trips.importFromPath(file.path, { format: file.format });
+  await trips.close();
+}
+
+async function countRows(connection: DuckDBConnection, table: string): Promise<number> {
+  const result = await connection.runAndReadAll(`SELECT count(*) FROM ${table};`);
+  return Number(result.getRows()[0][0]);
+}
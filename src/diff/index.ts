@@ -0,0 +1,36 @@
+import { DiffEngine, diffTrips } from './diff.ts';
+
+/**
+ * usage: node ./src/diff/index.ts <old feed> <new feed> [--engine=memory|duckdb] [--json=<path>] [--max-changes=<n>]
+ *
+ * each feed is a feed directory, a zip archive of one, or a .duckdb file.
+ * prints a summary of the trips added, removed and modified, and --json writes every kept change to the path.
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const option = (name: string) => args.find((arg) => arg.startsWith(`--${name}=`))?.split('=')[1];
+  const [oldPath, newPath] = args.filter((arg) => !arg.startsWith('--'));
+  if (!oldPath || !newPath) {
+    throw new Error('Expected the paths of the old and the new feed');
+  }
+
+  const engine = option('engine');
+  if (engine !== undefined && !Object.values<string>(DiffEngine).includes(engine)) {
+    throw new Error(`Unknown engine ${engine}, expected one of ${Object.values(DiffEngine).join(', ')}`);
+  }
+
+  const maxChanges = option('max-changes');
+  if (maxChanges !== undefined && !(Number.isInteger(Number(maxChanges)) && Number(maxChanges) >= 0)) {
+    throw new Error('The maximum number of changes must be a non-negative integer');
+  }
+
+  const report = await diffTrips(oldPath, newPath, {
+    engine: engine as DiffEngine | undefined,
+    maxChanges: maxChanges !== undefined ? Number(maxChanges) : undefined,
+  });
+  console.log(report.toSummary());
+
+  const jsonPath = option('json');
+  if (jsonPath) await report.writeToPath(jsonPath);
+}
+void main();
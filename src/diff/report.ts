@@ -0,0 +1,84 @@
+import fs from 'fs-extra';
+
+export const ChangeKind = {
+  ADDED: 'added',
+  REMOVED: 'removed',
+  MODIFIED: 'modified',
+} as const;
+export type ChangeKind = (typeof ChangeKind)[keyof typeof ChangeKind];
+
+/**
+ * missing values are null, so that they are kept in the json report
+ */
+export type FieldChange = { field: string; old: unknown; new: unknown };
+
+export type EntityChange =
+  | { kind: typeof ChangeKind.ADDED | typeof ChangeKind.REMOVED; key: string; entity: Record<string, unknown> }
+  | { kind: typeof ChangeKind.MODIFIED; key: string; fields: FieldChange[] };
+
+/**
+ * the changes between two versions of a table, matched on its primary key.
+ * every change is counted, but only the first maxChanges are kept, like the issues of a ValidationReport.
+ */
+export class DiffReport {
+  readonly tableName: string;
+  readonly changes: EntityChange[] = [];
+  readonly maxChanges: number;
+  readonly counts: Record<ChangeKind, number> = { added: 0, removed: 0, modified: 0 };
+  /** the number of modified entities each field changed in */
+  readonly fieldCounts = new Map<string, number>();
+  omittedChangeCount = 0;
+  oldCount = 0;
+  newCount = 0;
+
+  constructor(tableName: string, maxChanges = 1000) {
+    this.tableName = tableName;
+    this.maxChanges = maxChanges;
+  }
+
+  get unchangedCount() {
+    return this.oldCount - this.counts.removed - this.counts.modified;
+  }
+
+  add(change: EntityChange) {
+    this.counts[change.kind]++;
+    if (change.kind === ChangeKind.MODIFIED) {
+      for (const { field } of change.fields) this.fieldCounts.set(field, (this.fieldCounts.get(field) ?? 0) + 1);
+    }
+    if (this.changes.length < this.maxChanges) {
+      this.changes.push(change);
+    } else {
+      this.omittedChangeCount++;
+    }
+  }
+
+  toJson() {
+    return {
+      tableName: this.tableName,
+      oldCount: this.oldCount,
+      newCount: this.newCount,
+      ...this.counts,
+      unchanged: this.unchangedCount,
+      changedFields: Object.fromEntries(this.fieldCounts),
+      omittedChangeCount: this.omittedChangeCount,
+      changes: this.changes,
+    };
+  }
+
+  /**
+   * the counts, with the fields that changed most first
+   */
+  toSummary() {
+    const { added, removed, modified } = this.counts;
+    const fields = [...this.fieldCounts].sort(([, a], [, b]) => b - a);
+    return [
+      `${this.tableName}: ${this.oldCount} → ${this.newCount} entities`,
+      `  added ${added}, removed ${removed}, modified ${modified}, unchanged ${this.unchangedCount}`,
+      ...(fields.length > 0 ? [`  changed fields: ${fields.map(([field, count]) => `${field} ${count}`).join(', ')}`] : []),
+    ].join('\n');
+  }
+
+  async writeToPath(path: string) {
+    await fs.outputJson(path, this.toJson(), { spaces: 2 });
+  }
+}
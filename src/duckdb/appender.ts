@@ -0,0 +1,78 @@
+import { type DuckDBAppender, type DuckDBListType } from '@duckdb/node-api';
+import { z } from 'zod';
+
+import { assertNever } from '../csv/helpers/js-tools.ts';
+import { type DuckDbColumn, toDuckDbType, zodTableDefToDuckdbColumnDefs } from './schema-gen.ts';
+
+type AppendValue = (appender: DuckDBAppender, value: unknown) => void;
+
+/**
+ * appends entities of a zod schema to a DuckDB appender, calling the typed append of every column
+ * (integer lists for the time arrays, enums, real NULLs) instead of stringifying every value.
+ *
+ * the columns are appended in the order of the schema, so the table has to be created from the same schema.
+ */
+export class DuckDbRowAppender<S extends z.ZodRawShape> {
+  readonly #columns: [name: keyof S & string, append: AppendValue][];
+
+  constructor(shape: S) {
+    this.#columns = zodTableDefToDuckdbColumnDefs(shape).map((column) => [column.name, makeAppendValue(column)]);
+  }
+
+  /**
+   * append the columns of the entity, without ending the row, so that callers can append extra columns
+   */
+  appendColumns(appender: DuckDBAppender, entity: z.output<z.ZodObject<S>>) {
+    for (const [name, append] of this.#columns) {
+      append(appender, entity[name]);
+    }
+  }
+
+  appendRow(appender: DuckDBAppender, entity: z.output<z.ZodObject<S>>) {
+    this.appendColumns(appender, entity);
+    appender.endRow();
+  }
+}
+
+function makeAppendValue(column: DuckDbColumn): AppendValue {
+  const appendDefined = makeAppendDefinedValue(column);
+  return (appender, value) => {
+    // same as zod: the default only replaces undefined
+    const withDefault = value === undefined ? column.defaultValue : value;
+    if (withDefault == null) {
+      if (column.notNull) {
+        throw new Error(`Column ${column.name} cannot be null`);
+      }
+      appender.appendNull();
+      return;
+    }
+    appendDefined(appender, withDefault);
+  };
+}
+
+function makeAppendDefinedValue(column: DuckDbColumn): AppendValue {
+  const { type } = column;
+  switch (type.kind) {
+    case 'VARCHAR':
+      return (appender, value) => appender.appendVarchar(String(value));
+    case 'INT':
+      return (appender, value) => appender.appendInteger(Number(value));
+    case 'DOUBLE':
+      return (appender, value) => appender.appendDouble(Number(value));
+    case 'ENUM':
+      // DuckDB converts the string to the enum natively.
+      // appendEnum would build the enum's logical type again for every value, which is twice as slow.
+      return (appender, value) => appender.appendVarchar(String(value));
+    case 'LIST': {
+      const listType = toDuckDbType(type) as DuckDBListType;
+      return (appender, value) => {
+        if (!Array.isArray(value)) {
+          throw new Error(`Column ${column.name} expects an array, received ${JSON.stringify(value)}`);
+        }
+        appender.appendList(value, listType);
+      };
+    }
+    default:
+      return assertNever(type);
+  }
+}
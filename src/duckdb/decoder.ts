@@ -0,0 +1,66 @@
+import { type DuckDBDataChunk, DuckDBListValue, type DuckDBValue } from '@duckdb/node-api';
+import { z } from 'zod';
+
+import { assertNever } from '../csv/helpers/js-tools.ts';
+import { type DuckDbColumn, zodTableDefToDuckdbColumnDefs } from './schema-gen.ts';
+
+type DecodeValue = (value: DuckDBValue) => unknown;
+
+export type DuckDbRowDecoderOptions<S extends z.ZodRawShape> = {
+  /**
+   * run every decoded row through this, e.g. the zod schema of the table, to validate what was read.
+   * rows are validated when they are written, so this is only needed for databases written by something else.
+   */
+  validate?: (row: Record<string, unknown>) => z.output<z.ZodObject<S>>;
+};
+
+/**
+ * decodes DuckDB data chunks into the same entities that parsing a csv row with the zod schema gives:
+ * numbers as numbers, lists as arrays, and NULL as undefined.
+ *
+ * the chunks have to contain the columns of the schema, in the order of the schema.
+ */
+export class DuckDbRowDecoder<S extends z.ZodRawShape> {
+  readonly #columns: [name: keyof S & string, decode: DecodeValue][];
+  readonly #validate?: (row: Record<string, unknown>) => z.output<z.ZodObject<S>>;
+
+  constructor(shape: S, options: DuckDbRowDecoderOptions<S> = {}) {
+    this.#columns = zodTableDefToDuckdbColumnDefs(shape).map((column) => [column.name, makeDecodeValue(column)]);
+    this.#validate = options.validate;
+  }
+
+  /**
+   * @param columnOffset the index of the first column of the schema, for chunks with other columns before them
+   */
+  decodeChunk(chunk: DuckDBDataChunk, columnOffset = 0): z.output<z.ZodObject<S>>[] {
+    const rows: Record<string, unknown>[] = Array.from({ length: chunk.rowCount }, () => ({}));
+    this.#columns.forEach(([name, decode], columnIndex) => {
+      const values = chunk.getColumnValues(columnOffset + columnIndex);
+      for (let rowIndex = 0; rowIndex < values.length; rowIndex++) {
+        rows[rowIndex][name] = decode(values[rowIndex]);
+      }
+    });
+    return this.#validate ? rows.map(this.#validate) : (rows as z.output<z.ZodObject<S>>[]);
+  }
+}
+
+function makeDecodeValue(column: DuckDbColumn): DecodeValue {
+  const { type } = column;
+  switch (type.kind) {
+    case 'VARCHAR':
+    case 'ENUM':
+    case 'INT':
+    case 'DOUBLE':
+      return (value) => value ?? undefined;
+    case 'LIST':
+      return (value) => {
+        if (value === null) return undefined;
+        if (!(value instanceof DuckDBListValue)) {
+          throw new Error(`Column ${column.name} is not a list in DuckDB`);
+        }
+        return value.items;
+      };
+    default:
+      return assertNever(type);
+  }
+}
@@ -0,0 +1,51 @@
+import { type DuckDbColumn } from './schema-gen.ts';
+import { quoteIdentifier, quoteLiteral } from './sql.ts';
+
+/**
+ * name of the column holding added, removed or modified, before the columns of both versions of the row
+ */
+export const CHANGE_COLUMN = '_change';
+
+/**
+ * name of the column holding the names of the columns that differ between both versions, in the order of the table
+ */
+export const CHANGED_FIELDS_COLUMN = '_changed_fields';
+
+const OLD = 'old_rows';
+const NEW = 'new_rows';
+
+/**
+ * the rows that differ between two versions of a table, matched on the key fields with a full outer join:
+ * the change, the changed columns, then every column of the old row and every column of the new row,
+ * which are NULL for an added or a removed row. ordered by the key fields.
+ *
+ * missing values are compared as equal, and enums as text, so that tables created by other databases can be compared.
+ *
+ * @param oldTable the quoted, and possibly qualified, name of the table, such as "old"."trips"
+ */
+export function tableDiffSql(oldTable: string, newTable: string, columns: DuckDbColumn[], keyFields: string[]): string {
+  // the key fields can be missing, so rows are told apart from the NULLs of the outer join by a column of their own
+  const present = quoteIdentifier('_present');
+  const value = (side: string, column: DuckDbColumn) =>
+    `${side}.${quoteIdentifier(column.name)}${column.type.kind === 'ENUM' ? '::VARCHAR' : ''}`;
+  const changedFields = columns.map(
+    (column) => `CASE WHEN ${value(OLD, column)} IS DISTINCT FROM ${value(NEW, column)} THEN ${quoteLiteral(column.name)} END`,
+  );
+  const keys = keyFields.map((field) => columns.find((column) => column.name === field)!);
+  return [
+    `SELECT CASE WHEN ${OLD}.${present} IS NULL THEN 'added' WHEN ${NEW}.${present} IS NULL THEN 'removed'`,
+    `ELSE 'modified' END AS ${CHANGE_COLUMN},`,
+    `list_filter([${changedFields.join(', ')}], field -> field IS NOT NULL) AS ${CHANGED_FIELDS_COLUMN},`,
+    `${selectColumns(OLD, columns)}, ${selectColumns(NEW, columns)}`,
+    `FROM (SELECT *, TRUE AS ${present} FROM ${oldTable}) AS ${OLD}`,
+    `FULL OUTER JOIN (SELECT *, TRUE AS ${present} FROM ${newTable}) AS ${NEW}`,
+    `ON ${keys.map((key) => `${value(OLD, key)} IS NOT DISTINCT FROM ${value(NEW, key)}`).join(' AND ')}`,
+    `WHERE ${OLD}.${present} IS NULL OR ${NEW}.${present} IS NULL`,
+    `OR ${columns.map((column) => `${value(OLD, column)} IS DISTINCT FROM ${value(NEW, column)}`).join(' OR ')}`,
+    `ORDER BY ${keys.map((key) => `coalesce(${value(NEW, key)}, ${value(OLD, key)})`).join(', ')}`,
+  ].join(' ');
+}
+
+function selectColumns(side: string, columns: DuckDbColumn[]) {
+  return columns.map((column) => `${side}.${quoteIdentifier(column.name)}`).join(', ');
+}
@@ -0,0 +1,100 @@
+import { DuckDBInstance } from '@duckdb/node-api';
+import { z } from 'zod';
+
+import { type CsvLocation, SNIPPET_LENGTH } from '../csv/helpers/parse-csv.ts';
+import { pathExists, splitZipPath } from '../csv/helpers/zip.ts';
+import { type QueryFilter } from '../csv/schema/query.ts';
+import { DuckDbRowDecoder } from './decoder.ts';
+import { DuckDbQueryCompiler } from './query.ts';
+import { formatDuckDbType, zodTableDefToDuckdbColumnDefs } from './schema-gen.ts';
+import { quoteIdentifier, quoteLiteral } from './sql.ts';
+
+export type DuckDbSource =
+  | { kind: 'parquet'; path: string }
+  /** a table of a database, such as the tgtfs.duckdb exported by the DuckDB backends */
+  | { kind: 'duckdb'; path: string; tableName: string };
+
+// the name the source is read under, so that the filters compile like a query over a table
+const SOURCE_VIEW = 'import_source';
+
+/**
+ * read the rows of a parquet file or of a DuckDB table, one chunk at a time, as the records a csv or jsonl file gives:
+ * every column of the shape that the source has, decoded to numbers, strings and arrays, and undefined for NULL.
+ * the columns the source doesn't have are left out, like the missing columns of a csv file, so the zod schema
+ * applies its defaults and requires the required ones. the columns it has are cast to the types of the shape,
+ * except enums, which are read as text so that the schema reports the values outside of them row by row.
+ *
+ * the filters are pushed down to DuckDB, which skips the parquet row groups that can't match them.
+ * the location of a row is its 1-based row number, as both its line and its record, and its values as the snippet.
+ */
+export async function importFromDuckDbSource(
+  source: DuckDbSource,
+  shape: z.ZodRawShape,
+  addEntity: (preEntity: Record<string, unknown>, getLocation: () => CsvLocation) => void,
+  afterChunk?: () => Promise<void> | void,
+  filters: QueryFilter[] = [],
+): Promise<void> {
+  if (await splitZipPath(source.path)) {
+    throw new Error(`${source.path} can't be read from a zip archive, DuckDB only reads files on disk`);
+  }
+  if (!(await pathExists(source.path))) {
+    return;
+  }
+
+  const instance = await DuckDBInstance.create(':memory:', { threads: '1' });
+  const connection = await instance.connect();
+  try {
+    let relation: string;
+    if (source.kind === 'parquet') {
+      relation = `read_parquet(${quoteLiteral(source.path)})`;
+    } else {
+      await connection.run(`ATTACH ${quoteLiteral(source.path)} AS source (READ_ONLY);`);
+      const tables = await connection.runAndReadAll(
+        "SELECT 1 FROM duckdb_tables() WHERE database_name = 'source' AND table_name = $1;",
+        [source.tableName],
+      );
+      // like a missing csv file, a missing table has nothing to import
+      if (tables.currentRowCount === 0) return;
+      relation = `source.${quoteIdentifier(source.tableName)}`;
+    }
+
+    const described = await connection.runAndReadAll(`DESCRIBE SELECT * FROM ${relation};`);
+    const sourceColumns = new Set(described.getRowObjects().map((row) => String(row.column_name)));
+    const columns = zodTableDefToDuckdbColumnDefs(shape).filter((column) => sourceColumns.has(column.name));
+    const selected = columns.map(({ name, type }) => {
+      const castType =
+        type.kind === 'ENUM' ? 'VARCHAR' : type.kind === 'LIST' && type.element.kind === 'ENUM' ? 'VARCHAR[]' : null;
+      return `CAST(${quoteIdentifier(name)} AS ${castType ?? formatDuckDbType(type)}) AS ${quoteIdentifier(name)}`;
+    });
+    if (selected.length === 0) {
+      throw new Error(`${source.path} has none of the columns of the table`);
+    }
+    await connection.run(`CREATE TEMP VIEW ${SOURCE_VIEW} AS SELECT ${selected.join(', ')} FROM ${relation};`);
+
+    const sourceShape = Object.fromEntries(columns.map(({ name }) => [name, shape[name]]));
+    const { sql, values } = new DuckDbQueryCompiler(SOURCE_VIEW, sourceShape).select(
+      { filters, fields: null, orderBy: [], limit: null },
+      Object.keys(sourceShape),
+    );
+    const decoder = new DuckDbRowDecoder(sourceShape);
+    const result = await connection.stream(sql, values);
+    let record = 0;
+    for (let chunk = await result.fetchChunk(); chunk && chunk.rowCount > 0; chunk = await result.fetchChunk()) {
+      for (const row of decoder.decodeChunk(chunk)) {
+        const location = { line: ++record, record };
+        addEntity(row, () => {
+          const snippet = JSON.stringify(row);
+          return {
+            ...location,
+            offset: 0,
+            snippet: snippet.length > SNIPPET_LENGTH ? `${snippet.slice(0, SNIPPET_LENGTH)}…` : snippet,
+          };
+        });
+      }
+      await afterChunk?.();
+    }
+  } finally {
+    connection.closeSync();
+    instance.closeSync();
+  }
+}
@@ -0,0 +1,101 @@
+import os from 'os';
+import nodePath from 'path';
+import fs from 'fs-extra';
+import { type DuckDBConnection, DuckDBInstance } from '@duckdb/node-api';
+import { z } from 'zod';
+
+import { DuckDbRowAppender } from './appender.ts';
+import { zodTableDefToDuckdbColumns } from './schema-gen.ts';
+import { quoteLiteral } from './sql.ts';
+
+// how much of the temporary database of exportParquet DuckDB keeps in memory, the rest is spilled to its file
+const EXPORT_MEMORY_LIMIT = '256MB';
+
+/**
+ * the codecs of the DuckDB parquet writer
+ */
+export const ParquetCompression = {
+  UNCOMPRESSED: 'uncompressed',
+  SNAPPY: 'snappy',
+  GZIP: 'gzip',
+  ZSTD: 'zstd',
+  LZ4: 'lz4',
+  BROTLI: 'brotli',
+} as const;
+export type ParquetCompression = (typeof ParquetCompression)[keyof typeof ParquetCompression];
+
+export type ParquetExportOptions = {
+  /** defaults to zstd */
+  compression?: ParquetCompression;
+  /** only for zstd, defaults to the DuckDB default of 3 */
+  compressionLevel?: number;
+  /** number of rows of every row group, defaults to the DuckDB default of 122880 */
+  rowGroupSize?: number;
+};
+
+/**
+ * the options of a COPY TO statement writing parquet
+ */
+export function parquetCopyOptions(options: ParquetExportOptions = {}): string {
+  const { compression = ParquetCompression.ZSTD, compressionLevel, rowGroupSize } = options;
+  return [
+    'FORMAT PARQUET',
+    `COMPRESSION ${compression}`,
+    ...(compressionLevel !== undefined ? [`COMPRESSION_LEVEL ${compressionLevel}`] : []),
+    ...(rowGroupSize !== undefined ? [`ROW_GROUP_SIZE ${rowGroupSize}`] : []),
+  ].join(', ');
+}
+
+/**
+ * write the result of a query to a parquet file.
+ * written to a temp file first, so that the file at path is either the previous one or complete, like exportTable
+ */
+export async function copyToParquet(
+  connection: DuckDBConnection,
+  query: string,
+  path: string,
+  options: ParquetExportOptions = {},
+): Promise<void> {
+  const tempPath = `${path}.temp`;
+  await connection.run(`COPY (${query}) TO ${quoteLiteral(tempPath)} (${parquetCopyOptions(options)});`);
+  await fs.move(tempPath, path, { overwrite: true });
+}
+
+/**
+ * write entries that aren't in DuckDB to a parquet file, with a column per field of the shape.
+ * they are appended to a temporary on-disk database first, so that entries from a stream are never all held at once.
+ */
+export async function exportParquet<T extends Record<string, unknown>>(
+  path: string,
+  shape: z.ZodRawShape,
+  entries: Iterable<T> | AsyncIterable<T>,
+  options: ParquetExportOptions = {},
+): Promise<void> {
+  const tempPath = await fs.mkdtemp(nodePath.join(os.tmpdir(), 'tgtfs-parquet-'));
+  const instance = await DuckDBInstance.create(nodePath.join(tempPath, 'rows.duckdb'), {
+    threads: '1',
+    memory_limit: EXPORT_MEMORY_LIMIT,
+  });
+  const connection = await instance.connect();
+  try {
+    await connection.run(`CREATE TABLE parquet_rows (${zodTableDefToDuckdbColumns(shape)});`);
+    const rowAppender = new DuckDbRowAppender(shape);
+    const appender = await connection.createAppender('parquet_rows');
+    let count = 0;
+    try {
+      for await (const entry of entries) {
+        rowAppender.appendRow(appender, entry);
+        // the appender buffers the rows in memory until it is flushed
+        if (++count % 100_000 === 0) appender.flushSync();
+      }
+      appender.flushSync();
+    } finally {
+      appender.closeSync();
+    }
+    await copyToParquet(connection, 'SELECT * FROM parquet_rows', path, options);
+  } finally {
+    connection.closeSync();
+    instance.closeSync();
+    await fs.remove(tempPath);
+  }
+}
@@ -0,0 +1,104 @@
+import { type DuckDBValue } from '@duckdb/node-api';
+import { z } from 'zod';
+
+import { type QueryFilter, type QuerySpec, SortDirection } from '../csv/schema/query.ts';
+import { zodTableDefToDuckdbColumnDefs } from './schema-gen.ts';
+import { quoteIdentifier } from './sql.ts';
+
+/**
+ * name of the column holding the number of rows of each group
+ */
+const GROUP_COUNT_COLUMN = 'count';
+
+export type ParameterizedSql = { sql: string; values: DuckDBValue[] };
+
+/**
+ * compiles queries over one table to SQL, with every value passed as a parameter.
+ * enums are compared and ordered as text, like the strings of the in-memory entities,
+ * where DuckDB would order them by their position in the enum.
+ */
+export class DuckDbQueryCompiler {
+  readonly #tableName: string;
+  readonly #columns: Map<string, string>;
+
+  constructor(tableName: string, shape: z.ZodRawShape) {
+    this.#tableName = quoteIdentifier(tableName);
+    this.#columns = new Map(
+      zodTableDefToDuckdbColumnDefs(shape).map(({ name, type }) => [
+        name,
+        type.kind === 'ENUM' ? `${quoteIdentifier(name)}::VARCHAR` : quoteIdentifier(name),
+      ]),
+    );
+  }
+
+  /**
+   * the selected fields of the matching rows, or every column of the table, in the order of the shape
+   */
+  select(spec: QuerySpec, allColumns: string[]): ParameterizedSql {
+    const fields = spec.fields ?? allColumns;
+    return this.#matching(spec, fields.map(quoteIdentifier).join(', '));
+  }
+
+  count(spec: QuerySpec): ParameterizedSql {
+    const { sql, values } = this.#matching(spec, '1');
+    return { sql: `SELECT count(*) FROM (${sql})`, values };
+  }
+
+  groupCount(spec: QuerySpec, fields: string[]): ParameterizedSql {
+    const columns = fields.map(quoteIdentifier).join(', ');
+    const { sql, values } = this.#matching(spec, columns);
+    return {
+      sql: `SELECT ${columns}, count(*) AS ${quoteIdentifier(GROUP_COUNT_COLUMN)} FROM (${sql}) GROUP BY ALL`,
+      values,
+    };
+  }
+
+  // filtered, ordered and limited, as the in-memory executor does it
+  #matching(spec: QuerySpec, columns: string): ParameterizedSql {
+    const values: DuckDBValue[] = [];
+    const parameter = (value: unknown) => {
+      values.push(value as DuckDBValue);
+      return `$${values.length}`;
+    };
+    const conditions = spec.filters.map((filter) => this.#condition(filter, parameter));
+    const orderBy = spec.orderBy.map(
+      ({ field, direction }) =>
+        `${this.#column(field)} ${direction === SortDirection.DESC ? 'DESC' : 'ASC'} NULLS LAST`,
+    );
+    const sql = [
+      `SELECT ${columns} FROM ${this.#tableName}`,
+      ...(conditions.length > 0 ? [`WHERE ${conditions.join(' AND ')}`] : []),
+      ...(orderBy.length > 0 ? [`ORDER BY ${orderBy.join(', ')}`] : []),
+      ...(spec.limit !== null ? [`LIMIT ${spec.limit}`] : []),
+    ].join(' ');
+    return { sql, values };
+  }
+
+  #condition(filter: QueryFilter, parameter: (value: unknown) => string): string {
+    const column = this.#column(filter.field);
+    switch (filter.kind) {
+      case 'eq':
+        return filter.value == null ? `${column} IS NULL` : `${column} = ${parameter(filter.value)}`;
+      case 'in':
+        // IN () is not valid SQL, and matches nothing in memory
+        return filter.values.length === 0 ? 'FALSE' : `${column} IN (${filter.values.map(parameter).join(', ')})`;
+      case 'range': {
+        const { gt, gte, lt, lte } = filter.bounds;
+        const bounds = [
+          ...(gt !== undefined ? [`${column} > ${parameter(gt)}`] : []),
+          ...(gte !== undefined ? [`${column} >= ${parameter(gte)}`] : []),
+          ...(lt !== undefined ? [`${column} < ${parameter(lt)}`] : []),
+          ...(lte !== undefined ? [`${column} <= ${parameter(lte)}`] : []),
+        ];
+        // an unbounded range still leaves out the missing values
+        return bounds.length === 0 ? `${column} IS NOT NULL` : bounds.join(' AND ');
+      }
+    }
+  }
+
+  #column(field: string): string {
+    const column = this.#columns.get(field);
+    if (!column) throw new Error(`Unknown field in query: ${field}`);
+    return column;
+  }
+}
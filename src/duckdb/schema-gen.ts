@@ -0,0 +1,126 @@
+import { z } from 'zod';
+import { type DuckDBType, DOUBLE, ENUM, INTEGER, LIST, VARCHAR } from '@duckdb/node-api';
+import { assertNever } from '../csv/helpers/js-tools.ts';
+import { quoteIdentifier, quoteLiteral } from './sql.ts';
+
+export type DuckDbScalarType =
+  | { kind: 'VARCHAR' }
+  | { kind: 'INT' }
+  | { kind: 'DOUBLE' }
+  | { kind: 'ENUM'; values: string[] };
+
+export type DuckDbColumnType = DuckDbScalarType | { kind: 'LIST'; element: DuckDbScalarType };
+
+/**
+ * everything about a column that can be derived from its zod schema
+ */
+export type DuckDbColumn = {
+  name: string;
+  type: DuckDbColumnType;
+  notNull: boolean;
+  defaultValue?: unknown;
+};
+
+/**
+ * map a zod field of a tGTFS schema to its DuckDB column.
+ * preprocessing and refinements are looked through, since only the output type matters for storage.
+ */
+export function zodTypeToDuckDbColumn(name: string, schema: z.ZodTypeAny): DuckDbColumn {
+  return { name, ...zodTypeToDuckDbType(schema) };
+}
+
+export function zodTypeToDuckDbType(
+  schema: z.ZodTypeAny,
+  optional = false,
+  defaultValue?: unknown,
+): Omit<DuckDbColumn, 'name'> {
+  const column = (type: DuckDbColumnType) => ({
+    type,
+    notNull: !optional,
+    ...(defaultValue !== undefined ? { defaultValue } : {}),
+  });
+  if (schema instanceof z.ZodString) {
+    return column({ kind: 'VARCHAR' });
+  }
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return zodTypeToDuckDbType(schema.unwrap(), true, defaultValue);
+  }
+  if (schema instanceof z.ZodDefault) {
+    return zodTypeToDuckDbType(schema.removeDefault(), optional, schema._def.defaultValue());
+  }
+  if (schema instanceof z.ZodEffects) {
+    return zodTypeToDuckDbType(schema.innerType(), optional, defaultValue);
+  }
+  if (schema instanceof z.ZodNumber) {
+    // doubles, since coordinates need more digits than a FLOAT keeps
+    return column({ kind: schema.isInt ? 'INT' : 'DOUBLE' });
+  }
+  if (schema instanceof z.ZodEnum) {
+    return column({ kind: 'ENUM', values: [...schema.options] });
+  }
+  if (schema instanceof z.ZodNativeEnum) {
+    return column({ kind: 'ENUM', values: Object.values(schema.enum) });
+  }
+  if (schema instanceof z.ZodArray) {
+    // Only support one-nested arrays for GTFS purposes.
+    const element = zodTypeToDuckDbType(schema.element).type;
+    if (element.kind === 'LIST') {
+      throw new Error('Only string or number arrays are supported.');
+    }
+    return column({ kind: 'LIST', element });
+  }
+  throw new Error('Unsupported zod type found in tGTFS schema.');
+}
+
+export function formatDuckDbType(type: DuckDbColumnType): string {
+  switch (type.kind) {
+    case 'ENUM':
+      return `ENUM (${type.values.map(quoteLiteral).join(', ')})`;
+    case 'LIST':
+      return `${formatDuckDbType(type.element)}[]`;
+    default:
+      return type.kind;
+  }
+}
+
+/**
+ * the node-api type of a column, as needed for typed appends and reads
+ */
+export function toDuckDbType(type: DuckDbColumnType): DuckDBType {
+  switch (type.kind) {
+    case 'VARCHAR':
+      return VARCHAR;
+    case 'INT':
+      return INTEGER;
+    case 'DOUBLE':
+      return DOUBLE;
+    case 'ENUM':
+      return ENUM(type.values);
+    case 'LIST':
+      return LIST(toDuckDbType(type.element));
+    default:
+      return assertNever(type);
+  }
+}
+
+export function formatDuckDbColumnType(column: Omit<DuckDbColumn, 'name'>): string {
+  return [
+    formatDuckDbType(column.type),
+    ...(column.notNull ? ['NOT NULL'] : []),
+    ...(column.defaultValue !== undefined ? [`DEFAULT ${formatDefault(column.defaultValue)}`] : []),
+  ].join(' ');
+}
+
+export function zodTableDefToDuckdbColumnDefs(shape: z.ZodRawShape): DuckDbColumn[] {
+  return Object.entries(shape).map(([name, schema]) => zodTypeToDuckDbColumn(name, schema));
+}
+
+export function zodTableDefToDuckdbColumns(shape: z.ZodRawShape): string {
+  return zodTableDefToDuckdbColumnDefs(shape)
+    .map((column) => `${quoteIdentifier(column.name)} ${formatDuckDbColumnType(column)}`)
+    .join(',\n');
+}
+
+function formatDefault(defaultValue: unknown) {
+  return typeof defaultValue === 'number' ? `${defaultValue}` : quoteLiteral(String(defaultValue));
+}
@@ -0,0 +1,7 @@
+export function quoteIdentifier(identifier: string) {
+  return `"${identifier.replaceAll('"', '""')}"`;
+}
+
+export function quoteLiteral(literal: string) {
+  return `'${literal.replaceAll("'", "''")}'`;
+}
@@ -0,0 +1,27 @@
+import { quoteIdentifier } from './sql.ts';
+
+/**
+ * one row per trip and index of its time arrays, with the columns of stop_times.txt.
+ * the arrays are unnested side by side, so a shorter array gives nulls, and negative times are left empty.
+ */
+export function stopTimesSql(tableName: string): string {
+  const table = quoteIdentifier(tableName);
+  const arrays = ['arrival_times', 'departure_times', 'start_pickup_drop_off_windows', 'end_pickup_drop_off_windows'];
+  const longest = `greatest(${arrays.map((array) => `len(${quoteIdentifier(array)})`).join(', ')})`;
+  return [
+    `SELECT trip_id, ${gtfsTime('arrival_time')} AS arrival_time, ${gtfsTime('departure_time')} AS departure_time,`,
+    `NULL::VARCHAR AS stop_id, stop_sequence::INTEGER AS stop_sequence,`,
+    `${gtfsTime('start_window')} AS start_pickup_drop_off_window, ${gtfsTime('end_window')} AS end_pickup_drop_off_window`,
+    `FROM (SELECT ${quoteIdentifier('trip_id')} AS trip_id, UNNEST(range(${longest})) AS stop_sequence,`,
+    `UNNEST(${quoteIdentifier('arrival_times')}) AS arrival_time, UNNEST(${quoteIdentifier('departure_times')}) AS departure_time,`,
+    `UNNEST(${quoteIdentifier('start_pickup_drop_off_windows')}) AS start_window,`,
+    `UNNEST(${quoteIdentifier('end_pickup_drop_off_windows')}) AS end_window FROM ${table})`,
+  ].join(' ');
+}
+
+/**
+ * the same format as gtfsTimeReverseTransform: hours are not wrapped, and padded to at least 2 digits
+ */
+function gtfsTime(column: string) {
+  return `CASE WHEN ${column} >= 0 THEN printf('%02d:%02d:%02d', ${column} // 3600, ${column} // 60 % 60, ${column} % 60) END`;
+}
@@ -0,0 +1,123 @@
+import { quoteIdentifier } from './sql.ts';
+
+/**
+ * name of the column holding the sequence of the offending row, after the columns of the table.
+ * violations are ordered by it, so that the first one is the one iterating the table would find first.
+ */
+export const VIOLATION_ROW_COLUMN = '_violation_row';
+
+/**
+ * name of the column holding the number of rows sharing the duplicated key
+ */
+export const DUPLICATE_COUNT_COLUMN = '_duplicate_count';
+
+/**
+ * the rows of the table whose field is set, but is not one of the referenced keys, as an anti-join.
+ *
+ * @param referencedKeys queries returning the keys of the referenced tables, as a single `key` column.
+ * a value only has to exist in one of them.
+ * @param sequenceColumn the column holding the order the rows were added in
+ */
+export function foreignKeyViolationsSql(
+  tableName: string,
+  columns: string[],
+  field: string,
+  referencedKeys: string[],
+  sequenceColumn: string,
+  limit?: number,
+): string {
+  return antiJoinSql(quoteIdentifier(tableName), columns, field, referencedKeys, sequenceColumn, [], limit);
+}
+
+/**
+ * the staged rows from a sequence on whose field is set, but is not one of the referenced keys, without a limit.
+ * these are the rows added since then, as long as the staging table was not merged in between.
+ *
+ * @param stagingTable the quoted, and possibly qualified, name of the staging table
+ */
+export function stagedForeignKeyViolationsSql(
+  stagingTable: string,
+  columns: string[],
+  field: string,
+  referencedKeys: string[],
+  sequenceColumn: string,
+  fromSequence: number,
+): string {
+  return antiJoinSql(stagingTable, columns, field, referencedKeys, sequenceColumn, [
+    `checked.${sequenceColumn} >= ${fromSequence}`,
+  ]);
+}
+
+/**
+ * the rows of the table whose key fields are shared with another row, with the number of rows sharing them.
+ * missing values are compared as equal, like the keys of the in-memory tables.
+ */
+export function duplicateKeysSql(
+  tableName: string,
+  columns: string[],
+  keyFields: string[],
+  sequenceColumn: string,
+  limit?: number,
+): string {
+  const table = quoteIdentifier(tableName);
+  const keys = keyFields.map(quoteIdentifier);
+  return [
+    `SELECT ${selectColumns(table, columns)}, duplicates.count AS ${DUPLICATE_COUNT_COLUMN},`,
+    `${table}.${sequenceColumn} AS ${VIOLATION_ROW_COLUMN} FROM ${table}`,
+    `JOIN (SELECT ${keys.join(', ')}, count(*) AS count FROM ${table} GROUP BY ALL HAVING count(*) > 1) AS duplicates`,
+    `ON ${keys.map((key) => `${table}.${key} IS NOT DISTINCT FROM duplicates.${key}`).join(' AND ')}`,
+    `ORDER BY ${VIOLATION_ROW_COLUMN}`,
+    ...(limit !== undefined ? [`LIMIT ${limit}`] : []),
+  ].join(' ');
+}
+
+/**
+ * the staged rows whose key is already in the table, or in a row staged before them, followed by their key
+ * and their sequence. ordered like they were staged, so that the first one is the first duplicate that was added.
+ *
+ * @param stagingTable the quoted, and possibly qualified, name of the staging table
+ */
+export function stagedDuplicatesSql(
+  stagingTable: string,
+  tableName: string,
+  columns: string[],
+  keyColumn: string,
+  sequenceColumn: string,
+  limit?: number,
+): string {
+  return [
+    `SELECT ${columns.map(quoteIdentifier).join(', ')}, ${keyColumn}, ${VIOLATION_ROW_COLUMN} FROM (`,
+    `SELECT *, ${sequenceColumn} AS ${VIOLATION_ROW_COLUMN},`,
+    `row_number() OVER (PARTITION BY ${keyColumn} ORDER BY ${sequenceColumn}) AS staged FROM ${stagingTable})`,
+    `WHERE staged > 1 OR ${keyColumn} IN (SELECT ${keyColumn} FROM ${quoteIdentifier(tableName)})`,
+    `ORDER BY ${VIOLATION_ROW_COLUMN}`,
+    ...(limit !== undefined ? [`LIMIT ${limit}`] : []),
+  ].join(' ');
+}
+
+/**
+ * @param table the quoted, and possibly qualified, name of the table
+ */
+function antiJoinSql(
+  table: string,
+  columns: string[],
+  field: string,
+  referencedKeys: string[],
+  sequenceColumn: string,
+  conditions: string[],
+  limit?: number,
+) {
+  const column = `checked.${quoteIdentifier(field)}`;
+  return [
+    `SELECT ${selectColumns('checked', columns)}, checked.${sequenceColumn} AS ${VIOLATION_ROW_COLUMN}`,
+    `FROM ${table} AS checked`,
+    `ANTI JOIN (${referencedKeys.join(' UNION ALL ')}) AS referenced ON ${column} = referenced.key`,
+    `WHERE ${[`${column} IS NOT NULL`, ...conditions].join(' AND ')}`,
+    `ORDER BY ${VIOLATION_ROW_COLUMN}`,
+    ...(limit !== undefined ? [`LIMIT ${limit}`] : []),
+  ].join(' ');
+}
+
+function selectColumns(table: string, columns: string[]) {
+  return columns.map((column) => `${table}.${quoteIdentifier(column)}`).join(', ');
+}
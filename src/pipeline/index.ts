@@ -0,0 +1,66 @@
+import path from 'path';
+import { type z } from 'zod';
+import { DuckDBInstance } from '@duckdb/node-api';
+
+import { TABLE_CONFIGS } from '../csv/schema/table-configs.ts';
+import { TgtfsTableName } from '../csv/tgtfs-types/common.ts';
+import { DUCKDB_INSTANCE_OPTIONS } from '../storage/duckdb.ts';
+import { Pipeline, type PipelineConfig } from './pipeline.ts';
+
+/**
+ * usage: node ./src/pipeline/index.ts <table name> <input file> <output file> [--gtfs-only]
+ *
+ * streams one table from a csv, jsonl, .parquet or .duckdb file into a csv (.txt or .csv), .jsonl, .parquet, .arrow
+ * or .duckdb file, without ever holding the whole table in memory. every row is validated with the zod schema.
+ * --gtfs-only only writes the GTFS columns, except to .duckdb.
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const [tableName, inputPath, outputPath] = args.filter((arg) => !arg.startsWith('--'));
+  if (!Object.values<string>(TgtfsTableName).includes(tableName)) {
+    throw new Error(`Unknown table ${tableName}, expected one of ${Object.values(TgtfsTableName).join(', ')}`);
+  }
+  if (!inputPath || !outputPath) {
+    throw new Error('Expected the paths of the input and the output file');
+  }
+  const config = TABLE_CONFIGS[tableName as TgtfsTableName] as PipelineConfig<z.ZodRawShape>;
+  const gtfsOnly = args.includes('--gtfs-only');
+
+  const outputInstance = outputPath.endsWith('.duckdb')
+    ? await DuckDBInstance.create(outputPath, DUCKDB_INSTANCE_OPTIONS)
+    : undefined;
+  const outputConnection = await outputInstance?.connect();
+  try {
+    // read in the format of its extension
+    const pipeline = Pipeline.fromFile(config, inputPath);
+
+    let count: number;
+    switch (path.extname(outputPath)) {
+      case '.txt':
+      case '.csv':
+        count = await pipeline.toCsv(outputPath, { gtfsOnly });
+        break;
+      case '.jsonl':
+        count = await pipeline.toJsonl(outputPath, { gtfsOnly });
+        break;
+      case '.parquet':
+        count = await pipeline.toParquet(outputPath, { gtfsOnly });
+        break;
+      case '.arrow':
+        count = await pipeline.toArrow(outputPath, { gtfsOnly });
+        break;
+      case '.duckdb':
+        count = await pipeline.toDuckDb(outputConnection!);
+        break;
+      default:
+        throw new Error(
+          `Unknown output format ${outputPath}, expected a .txt, .csv, .jsonl, .parquet, .arrow or .duckdb file`,
+        );
+    }
+    console.log(`Wrote ${count} rows of ${tableName} to ${outputPath}`, process.memoryUsage());
+  } finally {
+    outputConnection?.closeSync();
+    outputInstance?.closeSync();
+  }
+}
+void main();
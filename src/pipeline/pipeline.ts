@@ -0,0 +1,183 @@
+import { type DuckDBConnection } from '@duckdb/node-api';
+import { z } from 'zod';
+
+import { type ArrowExportOptions } from '../arrow/ipc.ts';
+import { ExportFormat, type ExportOptions, exportEntities } from '../csv/helpers/export.ts';
+import { type CsvDialect } from '../csv/helpers/parse-csv.ts';
+import { type Entity, type OneIndexConfig } from '../csv/schema/make-table.ts';
+import { DuckDbRowAppender } from '../duckdb/appender.ts';
+import { type ParquetExportOptions } from '../duckdb/parquet.ts';
+import { zodTableDefToDuckdbColumns } from '../duckdb/schema-gen.ts';
+import { quoteIdentifier } from '../duckdb/sql.ts';
+import { type FileSourceOptions, readDuckDbEntities, readFileEntities } from './sources.ts';
+
+/**
+ * what a pipeline needs to know of a table: its fields to parse and write the rows with
+ */
+export type PipelineConfig<S extends z.ZodRawShape> = Pick<
+  OneIndexConfig<z.ZodRawShape, S>,
+  'tableName' | 'fields' | 'gtfsFields' | 'additionalValidation' | 'transformHeader'
+>;
+
+export type FileSinkOptions = {
+  /** only write the GTFS fields of the config */
+  gtfsOnly?: boolean;
+};
+
+export type DuckDbSinkOptions = {
+  /** defaults to the table name of the config */
+  tableName?: string;
+  /** number of rows after which the appender is flushed into the table. defaults to 100K. */
+  flushEvery?: number;
+};
+
+/**
+ * a row-by-row transform of one table, from a source to a sink, through any number of map and filter stages.
+ *
+ * every stage is an async iterator pulling rows from the one before it, so a row is only read once the sink is ready
+ * for it: files are parsed one chunk at a time, DuckDB results are fetched one chunk at a time, and the sinks wait for
+ * their file stream to drain. memory stays bounded by a chunk of rows, however large the table, as long as the stages
+ * don't keep the rows. nothing ever holds the whole table, so foreign and duplicate keys are not checked.
+ */
+export class Pipeline<S extends z.ZodRawShape> implements AsyncIterable<Entity<S>> {
+  readonly config: PipelineConfig<S>;
+  readonly #rows: Iterable<Entity<S>> | AsyncIterable<Entity<S>>;
+
+  /**
+   * @param rows already parsed, such as an in-memory or a DuckDB table
+   */
+  constructor(config: PipelineConfig<S>, rows: Iterable<Entity<S>> | AsyncIterable<Entity<S>>) {
+    this.config = config;
+    this.#rows = rows;
+  }
+
+  /**
+   * the rows of a csv or jsonl file, which can be inside a zip archive, or of a parquet file or a DuckDB database,
+   * parsed with the fields of the config
+   */
+  static fromFile<S extends z.ZodRawShape>(
+    config: PipelineConfig<S>,
+    path: string,
+    options: FileSourceOptions = {},
+  ): Pipeline<S> {
+    return new Pipeline(config, readFileEntities(config, path, options));
+  }
+
+  /**
+   * the rows of a DuckDB table, such as one of the database exported by the DuckDB backends
+   */
+  static fromDuckDb<S extends z.ZodRawShape>(
+    config: PipelineConfig<S>,
+    connection: DuckDBConnection,
+    tableName?: string,
+  ): Pipeline<S> {
+    return new Pipeline(config, readDuckDbEntities(config, connection, tableName));
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<Entity<S>> {
+    yield* this.#rows;
+  }
+
+  /**
+   * transform every row, into a row of the same table, or of the table of another config
+   */
+  map(transform: (row: Entity<S>) => Entity<S> | Promise<Entity<S>>): Pipeline<S>;
+  map<T extends z.ZodRawShape>(
+    transform: (row: Entity<S>) => Entity<T> | Promise<Entity<T>>,
+    config: PipelineConfig<T>,
+  ): Pipeline<T>;
+  map(
+    transform: (row: Entity<S>) => Entity<z.ZodRawShape> | Promise<Entity<z.ZodRawShape>>,
+    config: PipelineConfig<S> | PipelineConfig<z.ZodRawShape> = this.config,
+  ): Pipeline<S> | Pipeline<z.ZodRawShape> {
+    const rows = this;
+    // the validators of a config take its own entities, so no config is assignable to another
+    return new Pipeline(config as PipelineConfig<z.ZodRawShape>, {
+      async *[Symbol.asyncIterator]() {
+        for await (const row of rows) yield await transform(row);
+      },
+    });
+  }
+
+  filter(predicate: (row: Entity<S>) => boolean | Promise<boolean>): Pipeline<S> {
+    const rows = this;
+    return new Pipeline(this.config, {
+      async *[Symbol.asyncIterator]() {
+        for await (const row of rows) {
+          if (await predicate(row)) yield row;
+        }
+      },
+    });
+  }
+
+  /**
+   * write the rows as csv, with the fields of the config as columns. returns the number of rows written.
+   */
+  async toCsv(path: string, options: FileSinkOptions & { dialect?: Partial<CsvDialect> } = {}): Promise<number> {
+    return this.#export(path, options.gtfsOnly, { format: ExportFormat.CSV, dialect: options.dialect });
+  }
+
+  /**
+   * write the rows as json lines, with the fields of the config. returns the number of rows written.
+   */
+  async toJsonl(path: string, options: FileSinkOptions = {}): Promise<number> {
+    return this.#export(path, options.gtfsOnly, { format: ExportFormat.JSONL });
+  }
+
+  /**
+   * append the rows to a DuckDB table with the fields of the config as columns, which is created if it doesn't exist.
+   * returns the number of rows written.
+   */
+  async toDuckDb(connection: DuckDBConnection, options: DuckDbSinkOptions = {}): Promise<number> {
+    const { tableName = this.config.tableName, flushEvery = 100_000 } = options;
+    const { shape } = this.config.fields;
+    const columns = zodTableDefToDuckdbColumns(shape);
+    await connection.run(`CREATE TABLE IF NOT EXISTS ${quoteIdentifier(tableName)} (${columns});`);
+    const rowAppender = new DuckDbRowAppender(shape);
+    const appender = await connection.createAppender(tableName);
+    let count = 0;
+    try {
+      for await (const row of this) {
+        rowAppender.appendRow(appender, row);
+        // the appender buffers the rows in memory until it is flushed
+        if (++count % flushEvery === 0) appender.flushSync();
+      }
+      appender.flushSync();
+    } finally {
+      appender.closeSync();
+    }
+    return count;
+  }
+
+  /**
+   * write the rows to a parquet file, through a temporary on-disk DuckDB database. returns the number of rows written.
+   */
+  async toParquet(path: string, options: FileSinkOptions & ParquetExportOptions = {}): Promise<number> {
+    const { gtfsOnly, ...parquetOptions } = options;
+    return this.#export(path, gtfsOnly, { format: ExportFormat.PARQUET, ...parquetOptions });
+  }
+
+  /**
+   * write the rows to an Arrow IPC file, a record batch at a time. returns the number of rows written.
+   */
+  async toArrow(path: string, options: FileSinkOptions & ArrowExportOptions = {}): Promise<number> {
+    const { gtfsOnly, ...arrowOptions } = options;
+    return this.#export(path, gtfsOnly, { format: ExportFormat.ARROW, ...arrowOptions });
+  }
+
+  async #export(path: string, gtfsOnly = false, options: ExportOptions): Promise<number> {
+    const { fields, gtfsFields } = this.config;
+    let count = 0;
+    const rows = this;
+    const counted = {
+      async *[Symbol.asyncIterator]() {
+        for await (const row of rows) {
+          count++;
+          yield row;
+        }
+      },
+    };
+    await exportEntities(path, gtfsOnly && gtfsFields ? gtfsFields.shape : fields.shape, counted, options);
+    return count;
+  }
+}
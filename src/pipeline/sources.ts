@@ -0,0 +1,108 @@
+import { type DuckDBConnection } from '@duckdb/node-api';
+import { z } from 'zod';
+
+import { type CsvLocation } from '../csv/helpers/parse-csv.ts';
+import {
+  type Entity,
+  type ImportOptions,
+  importRows,
+  makeFieldsSchema,
+  parseEntity,
+  parseEntityIntoReport,
+} from '../csv/schema/make-table.ts';
+import { DuckDbRowDecoder } from '../duckdb/decoder.ts';
+import { quoteIdentifier } from '../duckdb/sql.ts';
+import { type PipelineConfig } from './pipeline.ts';
+
+export type FileSourceOptions = Pick<ImportOptions, 'report' | 'dialect' | 'format' | 'sourceTable' | 'filters'>;
+
+// thrown into the parser to stop it, when the records are no longer consumed
+const STOP = Symbol('stop');
+
+/**
+ * the entities of a csv, jsonl or parquet file or of a DuckDB database, parsed one chunk at a time as they are consumed.
+ * with a report, the records that fail parsing are added to it and skipped, like when importing.
+ */
+export async function* readFileEntities<S extends z.ZodRawShape>(
+  config: PipelineConfig<S>,
+  path: string,
+  options: FileSourceOptions = {},
+): AsyncGenerator<Entity<S>> {
+  const schema = makeFieldsSchema(config);
+  const { report } = options;
+  const records = pullRecords<[Record<string, unknown>, () => CsvLocation]>((push, afterChunk) =>
+    importRows(path, config, options, (record, getLocation) => push([record, getLocation]), afterChunk),
+  );
+  for await (const [record, getLocation] of records) {
+    if (!report) {
+      yield parseEntity(schema, config.tableName, record, getLocation);
+      continue;
+    }
+    const entity = parseEntityIntoReport(schema, config.tableName, record, report, getLocation);
+    if (entity) yield entity;
+  }
+}
+
+/**
+ * the rows of a DuckDB table with the fields of the config, such as one written by a DuckDB backend,
+ * fetched one chunk at a time as they are consumed
+ */
+export async function* readDuckDbEntities<S extends z.ZodRawShape>(
+  config: PipelineConfig<S>,
+  connection: DuckDBConnection,
+  tableName: string = config.tableName,
+): AsyncGenerator<Entity<S>> {
+  const decoder = new DuckDbRowDecoder(config.fields.shape);
+  const columns = Object.keys(config.fields.shape).map(quoteIdentifier).join(', ');
+  const result = await connection.stream(`SELECT ${columns} FROM ${quoteIdentifier(tableName)};`);
+  for (let chunk = await result.fetchChunk(); chunk && chunk.rowCount > 0; chunk = await result.fetchChunk()) {
+    yield* decoder.decodeChunk(chunk);
+  }
+}
+
+/**
+ * turns a parser that pushes its records, and awaits afterChunk after every chunk of the file, into an async iterator.
+ * the parser waits in afterChunk until the records of the chunk are consumed, so that only one chunk of records is
+ * in memory at a time, however large the file. if the consumer stops early, the parser is stopped with it.
+ */
+async function* pullRecords<T>(
+  parse: (push: (record: T) => void, afterChunk: () => Promise<void>) => Promise<void>,
+): AsyncGenerator<T> {
+  let batch: T[] = [];
+  let next = Promise.withResolvers<T[]>();
+  let resume: (stop: boolean) => void = () => {};
+  let done = false;
+  const parsing = parse(
+    (record) => batch.push(record),
+    async () => {
+      if (batch.length === 0) return;
+      const resumed = new Promise<boolean>((resolve) => (resume = resolve));
+      next.resolve(batch);
+      batch = [];
+      if (await resumed) throw STOP;
+    },
+  ).then(
+    () => {
+      done = true;
+      // the records after the last afterChunk, if the parser has any
+      next.resolve(batch);
+    },
+    (err: unknown) => {
+      done = true;
+      if (err !== STOP) next.reject(err);
+    },
+  );
+
+  try {
+    while (true) {
+      const records = await next.promise;
+      next = Promise.withResolvers();
+      yield* records;
+      if (done) return;
+      resume(false);
+    }
+  } finally {
+    resume(true);
+    await parsing;
+  }
+}
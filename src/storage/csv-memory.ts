@@ -0,0 +1,88 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs-extra';
+import { type DuckDBConnection, DuckDBInstance } from '@duckdb/node-api';
+
+import { type ItineraryTgtfs } from '../csv/itinerary-tgtfs.ts';
+import { Agencies } from '../csv/schema/agencies.ts';
+import { CalendarDates } from '../csv/schema/calendar-dates.ts';
+import { Calendars } from '../csv/schema/calendars.ts';
+import { Routes } from '../csv/schema/routes.ts';
+import { Shapes } from '../csv/schema/shapes.ts';
+import { Stops } from '../csv/schema/stops.ts';
+import { Trips } from '../csv/schema/trips.ts';
+import { MemoryBudget, type SpillingTableOptions } from '../csv/schema/spilling-table.ts';
+import { TGTFS_FILE_NAMES, TgtfsTableName } from '../csv/tgtfs-types/common.ts';
+import { DUCKDB_INSTANCE_OPTIONS } from './duckdb.ts';
+import { type MemoryBudgetOptions, type MemoryFeedTables, type SpillingFeedTables, type StorageBackend } from './types.ts';
+
+/**
+ * name of the database file the entities over the memory budget spill to, in a directory of its own
+ */
+const SPILL_FILE_NAME = 'spill.duckdb';
+
+/**
+ * keeps every table in a Map, and exports them as csv files.
+ * with a memory budget, what doesn't fit in it is kept in an on-disk DuckDB database until it is exported.
+ */
+export class CsvMemoryStorage implements StorageBackend<MemoryFeedTables | SpillingFeedTables> {
+  readonly #memoryBudget: MemoryBudgetOptions | undefined;
+  #spillPath: string | null = null;
+  #instance: DuckDBInstance | null = null;
+  #connection: DuckDBConnection | null = null;
+
+  constructor(memoryBudget?: MemoryBudgetOptions) {
+    this.#memoryBudget = memoryBudget;
+  }
+
+  async open(tgtfs: ItineraryTgtfs): Promise<MemoryFeedTables | SpillingFeedTables> {
+    if (this.#memoryBudget) return this.#openSpillingTables(tgtfs, this.#memoryBudget);
+    return {
+      agency: Agencies(tgtfs),
+      routes: Routes(tgtfs),
+      stops: Stops(tgtfs),
+      calendar: Calendars(tgtfs),
+      calendar_dates: CalendarDates(tgtfs),
+      shapes: Shapes(tgtfs),
+      trips: Trips(tgtfs),
+    };
+  }
+
+  async export(tables: MemoryFeedTables | SpillingFeedTables, exportPath: string): Promise<void> {
+    for (const tableName of Object.values(TgtfsTableName)) {
+      await tables[tableName].exportToPath(path.join(exportPath, TGTFS_FILE_NAMES[tableName]));
+    }
+  }
+
+  async close(): Promise<void> {
+    this.#connection?.closeSync();
+    this.#instance?.closeSync();
+    this.#connection = null;
+    this.#instance = null;
+    if (this.#spillPath) await fs.remove(this.#spillPath);
+    this.#spillPath = null;
+  }
+
+  async #openSpillingTables(tgtfs: ItineraryTgtfs, memoryBudget: MemoryBudgetOptions): Promise<SpillingFeedTables> {
+    const { bytes = Infinity, tables = {}, spillDirectory = os.tmpdir() } = memoryBudget;
+    await fs.mkdirp(spillDirectory);
+    this.#spillPath = await fs.mkdtemp(path.join(spillDirectory, 'tgtfs-spill-'));
+    this.#instance = await DuckDBInstance.create(path.join(this.#spillPath, SPILL_FILE_NAME), DUCKDB_INSTANCE_OPTIONS);
+    const connection = (this.#connection = await this.#instance.connect());
+
+    const shared = new MemoryBudget(bytes);
+    const options = (tableName: TgtfsTableName): SpillingTableOptions => {
+      const tableBytes = tables[tableName];
+      return { memoryBudget: tableBytes === undefined ? shared : new MemoryBudget(tableBytes) };
+    };
+    return {
+      agency: await Agencies(tgtfs, connection, options(TgtfsTableName.AGENCY)).open(),
+      routes: await Routes(tgtfs, connection, options(TgtfsTableName.ROUTES)).open(),
+      stops: await Stops(tgtfs, connection, options(TgtfsTableName.STOPS)).open(),
+      calendar: await Calendars(tgtfs, connection, options(TgtfsTableName.CALENDAR)).open(),
+      calendar_dates: await CalendarDates(tgtfs, connection, options(TgtfsTableName.CALENDAR_DATES)).open(),
+      shapes: await Shapes(tgtfs, connection, options(TgtfsTableName.SHAPES)).open(),
+      trips: await Trips(tgtfs, connection, options(TgtfsTableName.TRIPS)).open(),
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { type DuckDBConnection, DuckDBInstance } from '@duckdb/node-api';
+
+import { type ItineraryTgtfs } from '../csv/itinerary-tgtfs.ts';
+import { quoteLiteral } from '../duckdb/sql.ts';
+import {
+  DUCKDB_ATTACH_OPTIONS,
+  DUCKDB_EXPORT_FILE_NAME,
+  DUCKDB_INSTANCE_OPTIONS,
+  closeDuckDbTables,
+  openDuckDbTables,
+} from './duckdb.ts';
+import { type DuckDbFeedTables, type StorageBackend } from './types.ts';
+
+/**
+ * writes the tables straight into the exported database file, committing every time the tables flush.
+ * the export path has to be known when opening, and exporting only checkpoints what was already written.
+ */
+export class DuckDbDiskStorage implements StorageBackend<DuckDbFeedTables> {
+  #instance: DuckDBInstance | null = null;
+  #connection: DuckDBConnection | null = null;
+
+  async open(tgtfs: ItineraryTgtfs, exportPath: string): Promise<DuckDbFeedTables> {
+    this.#instance = await DuckDBInstance.create(':memory:', {
+      ...DUCKDB_INSTANCE_OPTIONS,
+      preserve_insertion_order: 'false', // Optimizing bulk-loading
+      max_vacuum_tasks: '0', // Disabling vacuuming / cleanup (NO POINT)
+      wal_autocheckpoint: '1MB', // Preventing WAL from growing (Just checkpointing straight to DB)
+    });
+    this.#connection = await this.#instance.connect();
+
+    const outputFile = path.join(exportPath, DUCKDB_EXPORT_FILE_NAME);
+    await fs.remove(outputFile);
+    // Note: Cannot set COMPRESS (auto-enabled for on-disk DBs)
+    await this.#connection.run(`ATTACH ${quoteLiteral(outputFile)} AS db (${DUCKDB_ATTACH_OPTIONS});`);
+    await this.#connection.run('USE db;');
+
+    return openDuckDbTables(tgtfs, this.#connection);
+  }
+
+  async export(tables: DuckDbFeedTables): Promise<void> {
+    if (!this.#connection) throw new Error('DuckDB storage has to be opened before exporting');
+    await closeDuckDbTables(tables);
+    await this.#connection.run('CHECKPOINT db;');
+  }
+
+  async close(): Promise<void> {
+    this.#connection?.closeSync();
+    this.#instance?.closeSync();
+    this.#connection = null;
+    this.#instance = null;
+  }
+}
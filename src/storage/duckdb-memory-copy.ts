@@ -0,0 +1,50 @@
+import path from 'path';
+import fs from 'fs-extra';
+import { type DuckDBConnection, DuckDBInstance } from '@duckdb/node-api';
+
+import { type ItineraryTgtfs } from '../csv/itinerary-tgtfs.ts';
+import { quoteLiteral } from '../duckdb/sql.ts';
+import {
+  DUCKDB_ATTACH_OPTIONS,
+  DUCKDB_EXPORT_FILE_NAME,
+  DUCKDB_INSTANCE_OPTIONS,
+  closeDuckDbTables,
+  openDuckDbTables,
+} from './duckdb.ts';
+import { type DuckDbFeedTables, type StorageBackend } from './types.ts';
+
+/**
+ * buffers the tables in a compressed in-memory database, and copies it to disk in one operation on export.
+ */
+export class DuckDbMemoryCopyStorage implements StorageBackend<DuckDbFeedTables> {
+  #instance: DuckDBInstance | null = null;
+  #connection: DuckDBConnection | null = null;
+
+  async open(tgtfs: ItineraryTgtfs): Promise<DuckDbFeedTables> {
+    this.#instance = await DuckDBInstance.create(':memory:', DUCKDB_INSTANCE_OPTIONS);
+    this.#connection = await this.#instance.connect();
+
+    await this.#connection.run(`ATTACH ':memory:' AS db (${DUCKDB_ATTACH_OPTIONS}, COMPRESS TRUE);`);
+    await this.#connection.run('USE db;');
+
+    return openDuckDbTables(tgtfs, this.#connection);
+  }
+
+  async export(tables: DuckDbFeedTables, exportPath: string): Promise<void> {
+    if (!this.#connection) throw new Error('DuckDB storage has to be opened before exporting');
+    await closeDuckDbTables(tables);
+
+    const outputFile = path.join(exportPath, DUCKDB_EXPORT_FILE_NAME);
+    await fs.remove(outputFile);
+    await this.#connection.run(`ATTACH ${quoteLiteral(outputFile)} AS out_db;`);
+    await this.#connection.run('COPY FROM DATABASE db TO out_db;');
+    await this.#connection.run('DETACH out_db;');
+  }
+
+  async close(): Promise<void> {
+    this.#connection?.closeSync();
+    this.#instance?.closeSync();
+    this.#connection = null;
+    this.#instance = null;
+  }
+}
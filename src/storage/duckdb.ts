@@ -0,0 +1,52 @@
+import { type DuckDBConnection } from '@duckdb/node-api';
+
+import { type ItineraryTgtfs } from '../csv/itinerary-tgtfs.ts';
+import { Agencies } from '../csv/schema/agencies.ts';
+import { CalendarDates } from '../csv/schema/calendar-dates.ts';
+import { Calendars } from '../csv/schema/calendars.ts';
+import { Routes } from '../csv/schema/routes.ts';
+import { Shapes } from '../csv/schema/shapes.ts';
+import { Stops } from '../csv/schema/stops.ts';
+import { Trips } from '../csv/schema/trips.ts';
+import { TgtfsTableName } from '../csv/tgtfs-types/common.ts';
+import { type DuckDbFeedTables } from './types.ts';
+
+/**
+ * name of the database file written by the DuckDB strategies in the export directory
+ */
+export const DUCKDB_EXPORT_FILE_NAME = 'tgtfs.duckdb';
+
+/**
+ * settings shared by every strategy: a single thread (we compare against single-threaded csv parsing),
+ * and no spilling to disk, so that the memory numbers show what the records actually take.
+ */
+export const DUCKDB_INSTANCE_OPTIONS = {
+  threads: '1',
+  max_temp_directory_size: '0MB',
+};
+
+/**
+ * options for ATTACH: large row groups and blocks compress best for a write-once feed
+ */
+export const DUCKDB_ATTACH_OPTIONS = `STORAGE_VERSION 'v1.4.4', ROW_GROUP_SIZE 1228800000, BLOCK_SIZE 262144`;
+
+export async function openDuckDbTables(tgtfs: ItineraryTgtfs, connection: DuckDBConnection): Promise<DuckDbFeedTables> {
+  return {
+    agency: await Agencies(tgtfs, connection).open(),
+    routes: await Routes(tgtfs, connection).open(),
+    stops: await Stops(tgtfs, connection).open(),
+    calendar: await Calendars(tgtfs, connection).open(),
+    calendar_dates: await CalendarDates(tgtfs, connection).open(),
+    shapes: await Shapes(tgtfs, connection).open(),
+    trips: await Trips(tgtfs, connection).open(),
+  };
+}
+
+/**
+ * merges whatever is still staged, and drops the staging tables, so that only the feed is left to export
+ */
+export async function closeDuckDbTables(tables: DuckDbFeedTables): Promise<void> {
+  for (const tableName of Object.values(TgtfsTableName)) {
+    await tables[tableName].close();
+  }
+}
@@ -0,0 +1,16 @@
+import path from 'path';
+
+import { exportStopTimes } from '../csv/schema/stop-times.ts';
+import { STOP_TIMES_FILE_NAME, TGTFS_FILE_NAMES, TgtfsTableName } from '../csv/tgtfs-types/common.ts';
+import { type FeedTables } from './types.ts';
+
+/**
+ * export the feed as standard GTFS csv files, whatever the backend stores it in:
+ * only the GTFS columns of every table, and stop_times.txt expanded from the time arrays of the trips.
+ */
+export async function exportGtfs(tables: FeedTables, exportPath: string): Promise<void> {
+  for (const tableName of Object.values(TgtfsTableName)) {
+    await tables[tableName].exportToPath(path.join(exportPath, TGTFS_FILE_NAMES[tableName]), true);
+  }
+  await exportStopTimes(path.join(exportPath, STOP_TIMES_FILE_NAME), tables.trips);
+}
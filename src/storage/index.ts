@@ -0,0 +1,33 @@
+import { assertNever } from '../csv/helpers/js-tools.ts';
+import { CsvMemoryStorage } from './csv-memory.ts';
+import { DuckDbDiskStorage } from './duckdb-disk.ts';
+import { DuckDbMemoryCopyStorage } from './duckdb-memory-copy.ts';
+import { ParquetStorage } from './parquet.ts';
+import { type MemoryBudgetOptions, type StorageBackend, StorageBackendName } from './types.ts';
+
+export * from './types.ts';
+
+/**
+ * @param memoryBudget only csv-memory keeps the tables in the heap, the DuckDB backends are bounded by DuckDB
+ */
+export function createStorageBackend(name: StorageBackendName, memoryBudget?: MemoryBudgetOptions): StorageBackend {
+  if (memoryBudget && name !== StorageBackendName.CSV_MEMORY) {
+    throw new Error(`A memory budget only applies to the ${StorageBackendName.CSV_MEMORY} backend, not to ${name}`);
+  }
+  switch (name) {
+    case StorageBackendName.CSV_MEMORY:
+      return new CsvMemoryStorage(memoryBudget);
+    case StorageBackendName.DUCKDB_MEMORY_COPY:
+      return new DuckDbMemoryCopyStorage();
+    case StorageBackendName.DUCKDB_DISK:
+      return new DuckDbDiskStorage();
+    case StorageBackendName.PARQUET:
+      return new ParquetStorage();
+    default:
+      return assertNever(name);
+  }
+}
+
+export function isStorageBackendName(name: string): name is StorageBackendName {
+  return (Object.values(StorageBackendName) as string[]).includes(name);
+}
@@ -0,0 +1,250 @@
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
+import * as stream from 'stream';
+import fs from 'fs-extra';
+import { z } from 'zod';
+
+import { ImportFormat } from '../csv/helpers/import.ts';
+import { type ZipEntry, listFiles, openZipEntry, readZipEntries } from '../csv/helpers/zip.ts';
+import { importRows } from '../csv/schema/make-table.ts';
+import { TABLE_CONFIGS } from '../csv/schema/table-configs.ts';
+import { TGTFS_FILE_NAMES, TgtfsTableName, VERSION, VERSION_NUMBER_REGEXP } from '../csv/tgtfs-types/common.ts';
+import { DUCKDB_EXPORT_FILE_NAME } from './duckdb.ts';
+import { StorageBackendName } from './types.ts';
+
+/**
+ * name of the manifest written at the root of every export
+ */
+export const MANIFEST_FILE_NAME = 'manifest.json';
+
+/**
+ * the format of the manifest of a standard GTFS export, instead of the name of the backend
+ */
+export const GTFS_EXPORT_FORMAT = 'gtfs';
+
+const fileDigestSchema = z.object({
+  bytes: z.number().int().nonnegative(),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/),
+});
+export type FileDigest = z.infer<typeof fileDigestSchema>;
+
+const feedManifestSchema = z.object({
+  /** the VERSION of the tgtfs types the feed was exported with */
+  version: z.string().regex(VERSION_NUMBER_REGEXP),
+  /** ISO 8601 */
+  createdAt: z.string().datetime(),
+  /** the storage backend, or gtfs for a standard GTFS export */
+  format: z.string(),
+  /** the number of rows of every table, whatever files they were exported to */
+  tables: z.record(z.nativeEnum(TgtfsTableName), z.number().int().nonnegative()),
+  /** every other file of the export, by its path relative to the export, with / as the separator */
+  files: z.record(z.string(), fileDigestSchema),
+});
+export type FeedManifest = z.infer<typeof feedManifestSchema>;
+
+export type ManifestIssue = {
+  /** the file of the export, or the manifest itself */
+  file: string;
+  message: string;
+};
+
+export function formatVersion(version: typeof VERSION = VERSION): string {
+  return `${version.MAJOR}.${version.MINOR}.${version.PATCH}`;
+}
+
+/**
+ * hash every file of the export, and write the manifest listing them next to them
+ */
+export async function writeManifest(
+  exportPath: string,
+  format: string,
+  tables: FeedManifest['tables'],
+): Promise<FeedManifest> {
+  const files: FeedManifest['files'] = {};
+  for (const filePath of await listFiles(exportPath)) {
+    const name = exportFileName(exportPath, filePath);
+    if (name !== MANIFEST_FILE_NAME) files[name] = await digest(fs.createReadStream(filePath));
+  }
+  const manifest: FeedManifest = {
+    version: formatVersion(),
+    createdAt: new Date().toISOString(),
+    format,
+    tables,
+    files,
+  };
+  await fs.outputJson(path.join(exportPath, MANIFEST_FILE_NAME), manifest, { spaces: 2 });
+  return manifest;
+}
+
+/**
+ * check an export directory, or its zip archive, against its manifest: every file it lists has to be there,
+ * with the same size and checksum, no other file can be, every table has to have the rows it lists,
+ * and the major version has to be the current one.
+ */
+export async function verifyExport(exportPath: string): Promise<ManifestIssue[]> {
+  const isZip = exportPath.toLowerCase().endsWith('.zip');
+  const zipEntries = isZip ? await readZipEntries(exportPath) : null;
+  const openFile = async (name: string): Promise<stream.Readable | null> => {
+    if (zipEntries) {
+      const entry = zipEntries.get(name);
+      return entry ? openZipEntry(exportPath, entry) : null;
+    }
+    const filePath = path.join(exportPath, ...name.split('/'));
+    return (await fs.pathExists(filePath)) ? fs.createReadStream(filePath) : null;
+  };
+
+  const manifestStream = await openFile(MANIFEST_FILE_NAME);
+  if (!manifestStream) {
+    return [{ file: MANIFEST_FILE_NAME, message: `${exportPath} has no manifest` }];
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of manifestStream) chunks.push(chunk);
+  let parsed: z.SafeParseReturnType<unknown, FeedManifest>;
+  try {
+    parsed = feedManifestSchema.safeParse(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+  } catch (error) {
+    return [{ file: MANIFEST_FILE_NAME, message: `The manifest is not valid JSON: ${(error as Error).message}` }];
+  }
+  if (!parsed.success) {
+    const message = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+    return [{ file: MANIFEST_FILE_NAME, message: `The manifest is invalid: ${message}` }];
+  }
+  const manifest = parsed.data;
+
+  const issues: ManifestIssue[] = [];
+  if (Number(manifest.version.split('.')[0]) !== VERSION.MAJOR) {
+    issues.push({
+      file: MANIFEST_FILE_NAME,
+      message: `The feed was exported with version ${manifest.version}, which is not compatible with ${formatVersion()}`,
+    });
+  }
+  for (const [name, expected] of Object.entries(manifest.files)) {
+    const fileStream = await openFile(name);
+    if (!fileStream) {
+      issues.push({ file: name, message: 'The file is missing' });
+      continue;
+    }
+    const actual = await digest(fileStream);
+    if (actual.bytes !== expected.bytes) {
+      issues.push({ file: name, message: `The file has ${actual.bytes} bytes instead of ${expected.bytes}` });
+    } else if (actual.sha256 !== expected.sha256) {
+      issues.push({ file: name, message: `The SHA-256 checksum is ${actual.sha256} instead of ${expected.sha256}` });
+    }
+  }
+  const names = zipEntries
+    ? [...zipEntries.keys()]
+    : (await listFiles(exportPath)).map((filePath) => exportFileName(exportPath, filePath));
+  for (const name of names) {
+    if (name !== MANIFEST_FILE_NAME && !Object.hasOwn(manifest.files, name)) {
+      issues.push({ file: name, message: 'The file is not listed in the manifest' });
+    }
+  }
+  issues.push(...(await verifyRowCounts(exportPath, zipEntries, manifest)));
+  return issues;
+}
+
+/**
+ * count the rows of every table in the file the format of the export keeps it in, and compare them with the manifest.
+ * DuckDB only reads files on disk, so parquet files and databases are extracted from a zip archive first.
+ */
+async function verifyRowCounts(
+  exportPath: string,
+  zipEntries: Map<string, ZipEntry> | null,
+  manifest: FeedManifest,
+): Promise<ManifestIssue[]> {
+  const tableNames = Object.keys(manifest.tables) as TgtfsTableName[];
+  if (tableNames.length === 0) return [];
+  if (!tableFile(manifest.format, tableNames[0])) {
+    return [{ file: MANIFEST_FILE_NAME, message: `The rows of a ${manifest.format} export cannot be counted` }];
+  }
+
+  const issues: ManifestIssue[] = [];
+  const extractPath = zipEntries ? await fs.mkdtemp(path.join(os.tmpdir(), 'tgtfs-verify-')) : null;
+  try {
+    for (const tableName of tableNames) {
+      const file = tableFile(manifest.format, tableName)!;
+      let filePath = path.join(exportPath, ...file.name.split('/'));
+      if (zipEntries && extractPath && file.format !== ImportFormat.CSV) {
+        const entry = zipEntries.get(file.name);
+        filePath = path.join(extractPath, ...file.name.split('/'));
+        if (entry && !(await fs.pathExists(filePath))) {
+          await fs.mkdirp(path.dirname(filePath));
+          await stream.promises.pipeline(await openZipEntry(exportPath, entry), fs.createWriteStream(filePath));
+        }
+      }
+      // a missing file is already reported
+      if (zipEntries ? !zipEntries.has(file.name) : !(await fs.pathExists(filePath))) continue;
+
+      let rowCount = 0;
+      try {
+        await importRows(filePath, TABLE_CONFIGS[tableName], { format: file.format }, () => {
+          rowCount++;
+        });
+      } catch (error) {
+        const message = `The rows of ${tableName} cannot be read: ${(error as Error).message}`;
+        issues.push({ file: file.name, message });
+        continue;
+      }
+      const expected = manifest.tables[tableName];
+      if (rowCount !== expected) {
+        issues.push({ file: file.name, message: `The table ${tableName} has ${rowCount} rows instead of ${expected}` });
+      }
+    }
+  } finally {
+    if (extractPath) await fs.remove(extractPath);
+  }
+  return issues;
+}
+
+/**
+ * the file of the export a table is kept in, by the format of the export, or null for a format that is not known
+ */
+function tableFile(format: string, tableName: TgtfsTableName): { name: string; format: ImportFormat } | null {
+  switch (format) {
+    case StorageBackendName.CSV_MEMORY:
+    case GTFS_EXPORT_FORMAT:
+      return { name: TGTFS_FILE_NAMES[tableName], format: ImportFormat.CSV };
+    case StorageBackendName.PARQUET:
+      return { name: `${tableName}.parquet`, format: ImportFormat.PARQUET };
+    case StorageBackendName.DUCKDB_MEMORY_COPY:
+    case StorageBackendName.DUCKDB_DISK:
+      return { name: DUCKDB_EXPORT_FILE_NAME, format: ImportFormat.DUCKDB };
+    default:
+      return null;
+  }
+}
+
+/**
+ * replace the export directory with the staging directory, which has to be on the same file system.
+ * the two renames leave no moment where the export path holds a mix of both, only a short one where it is missing.
+ */
+export async function swapDirectory(stagingPath: string, exportPath: string): Promise<void> {
+  const previousPath = `${stagingPath}-previous`;
+  const hasPrevious = await fs.pathExists(exportPath);
+  if (hasPrevious) await fs.rename(exportPath, previousPath);
+  try {
+    await fs.rename(stagingPath, exportPath);
+  } catch (error) {
+    if (hasPrevious) await fs.rename(previousPath, exportPath);
+    throw error;
+  }
+  await fs.remove(previousPath);
+}
+
+/**
+ * the path of a file relative to the export, with / as the separator, as the manifest lists it
+ */
+function exportFileName(exportPath: string, filePath: string): string {
+  return path.relative(exportPath, filePath).split(path.sep).join('/');
+}
+
+async function digest(input: stream.Readable): Promise<FileDigest> {
+  const hash = crypto.createHash('sha256');
+  let bytes = 0;
+  for await (const chunk of input) {
+    hash.update(chunk);
+    bytes += chunk.length;
+  }
+  return { bytes, sha256: hash.digest('hex') };
+}
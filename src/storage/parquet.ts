@@ -0,0 +1,58 @@
+import path from 'path';
+import { type DuckDBConnection, DuckDBInstance } from '@duckdb/node-api';
+
+import { type ItineraryTgtfs } from '../csv/itinerary-tgtfs.ts';
+import { KEY_COLUMN, SEQUENCE_COLUMN } from '../csv/schema/duckdb-table.ts';
+import { TgtfsTableName } from '../csv/tgtfs-types/common.ts';
+import { ParquetCompression, type ParquetExportOptions, parquetCopyOptions } from '../duckdb/parquet.ts';
+import { quoteIdentifier, quoteLiteral } from '../duckdb/sql.ts';
+import { DUCKDB_ATTACH_OPTIONS, DUCKDB_INSTANCE_OPTIONS, closeDuckDbTables, openDuckDbTables } from './duckdb.ts';
+import { type DuckDbFeedTables, type StorageBackend } from './types.ts';
+
+// one row group per table for most feeds, since the files are written once and read whole
+const PARQUET_EXPORT_OPTIONS: ParquetExportOptions = {
+  compression: ParquetCompression.ZSTD,
+  compressionLevel: 3,
+  rowGroupSize: 10_000_000,
+};
+
+/**
+ * buffers the tables in a compressed in-memory database, and copies every table to its own parquet file on export.
+ */
+export class ParquetStorage implements StorageBackend<DuckDbFeedTables> {
+  #instance: DuckDBInstance | null = null;
+  #connection: DuckDBConnection | null = null;
+
+  async open(tgtfs: ItineraryTgtfs): Promise<DuckDbFeedTables> {
+    this.#instance = await DuckDBInstance.create(':memory:', DUCKDB_INSTANCE_OPTIONS);
+    this.#connection = await this.#instance.connect();
+
+    await this.#connection.run(`ATTACH ':memory:' AS db (${DUCKDB_ATTACH_OPTIONS}, COMPRESS TRUE);`);
+    await this.#connection.run('USE db;');
+
+    return openDuckDbTables(tgtfs, this.#connection);
+  }
+
+  async export(tables: DuckDbFeedTables, exportPath: string): Promise<void> {
+    if (!this.#connection) throw new Error('DuckDB storage has to be opened before exporting');
+    await closeDuckDbTables(tables);
+
+    for (const tableName of Object.values(TgtfsTableName)) {
+      const outputFile = path.join(exportPath, `${tableName}.parquet`);
+      await this.#connection.run(
+        [
+          `COPY (SELECT * EXCLUDE (${KEY_COLUMN}, ${SEQUENCE_COLUMN}) FROM ${quoteIdentifier(tableName)}`,
+          `ORDER BY ${SEQUENCE_COLUMN})`,
+          `TO ${quoteLiteral(outputFile)} (${parquetCopyOptions(PARQUET_EXPORT_OPTIONS)});`,
+        ].join(' '),
+      );
+    }
+  }
+
+  async close(): Promise<void> {
+    this.#connection?.closeSync();
+    this.#instance?.closeSync();
+    this.#connection = null;
+    this.#instance = null;
+  }
+}
@@ -0,0 +1,77 @@
+import { type ItineraryTgtfs } from '../csv/itinerary-tgtfs.ts';
+import { type TgtfsTableName } from '../csv/tgtfs-types/common.ts';
+import { type AgencyTable, type DuckDbAgencyTable, type SpillingAgencyTable } from '../csv/schema/agencies.ts';
+import {
+  type CalendarDateTable,
+  type DuckDbCalendarDateTable,
+  type SpillingCalendarDateTable,
+} from '../csv/schema/calendar-dates.ts';
+import { type CalendarTable, type DuckDbCalendarTable, type SpillingCalendarTable } from '../csv/schema/calendars.ts';
+import { type DuckDbRouteTable, type RouteTable, type SpillingRouteTable } from '../csv/schema/routes.ts';
+import { type DuckDbShapeTable, type ShapeTable, type SpillingShapeTable } from '../csv/schema/shapes.ts';
+import { type DuckDbStopTable, type SpillingStopTable, type StopTable } from '../csv/schema/stops.ts';
+import { type DuckDbTripTable, type SpillingTripTable, type TripTable } from '../csv/schema/trips.ts';
+
+export const StorageBackendName = {
+  CSV_MEMORY: 'csv-memory',
+  DUCKDB_MEMORY_COPY: 'duckdb-memory-copy',
+  DUCKDB_DISK: 'duckdb-disk',
+  PARQUET: 'parquet',
+} as const;
+export type StorageBackendName = (typeof StorageBackendName)[keyof typeof StorageBackendName];
+
+export type MemoryFeedTables = {
+  agency: AgencyTable;
+  routes: RouteTable;
+  stops: StopTable;
+  calendar: CalendarTable;
+  calendar_dates: CalendarDateTable;
+  shapes: ShapeTable;
+  trips: TripTable;
+};
+export type DuckDbFeedTables = {
+  agency: DuckDbAgencyTable;
+  routes: DuckDbRouteTable;
+  stops: DuckDbStopTable;
+  calendar: DuckDbCalendarTable;
+  calendar_dates: DuckDbCalendarDateTable;
+  shapes: DuckDbShapeTable;
+  trips: DuckDbTripTable;
+};
+/**
+ * the in-memory tables of a memory budget, which spill what doesn't fit in it to DuckDB
+ */
+export type SpillingFeedTables = {
+  agency: SpillingAgencyTable;
+  routes: SpillingRouteTable;
+  stops: SpillingStopTable;
+  calendar: SpillingCalendarTable;
+  calendar_dates: SpillingCalendarDateTable;
+  shapes: SpillingShapeTable;
+  trips: SpillingTripTable;
+};
+export type FeedTables = MemoryFeedTables | DuckDbFeedTables | SpillingFeedTables;
+
+/**
+ * how much of the tables csv-memory keeps in memory, in bytes of entities as estimated by estimateEntityBytes.
+ * once a table goes over its budget, its new entities spill to an on-disk DuckDB database.
+ */
+export type MemoryBudgetOptions = {
+  /** shared by the tables without a budget of their own. defaults to no limit. */
+  bytes?: number;
+  /** budgets of single tables, which they don't share with the others */
+  tables?: Partial<Record<TgtfsTableName, number>>;
+  /** where the database of the spilled entities is created, and removed once closed. defaults to the os temp directory. */
+  spillDirectory?: string;
+};
+
+/**
+ * the lifecycle every storage strategy goes through:
+ * open creates the (empty) tables, which the caller imports into and processes,
+ * export writes them to the export directory, and close releases whatever the storage holds.
+ */
+export type StorageBackend<Tables extends FeedTables = FeedTables> = {
+  open(tgtfs: ItineraryTgtfs, exportPath: string): Promise<Tables>;
+  export(tables: Tables, exportPath: string): Promise<void>;
+  close(): Promise<void>;
+};
@@ -0,0 +1,25 @@
+import { verifyExport } from '../storage/manifest.ts';
+
+/**
+ * usage: node ./src/verify/index.ts <export path>
+ *
+ * checks an export directory, or its zip archive, against its manifest.json: every file it lists has to be there
+ * with the same size and SHA-256 checksum, no other file can be, and every table has to have the rows it lists.
+ * prints what doesn't match, and exits with 1 if anything doesn't.
+ */
+async function main() {
+  const [exportPath] = process.argv.slice(2);
+  if (!exportPath) {
+    throw new Error('Expected the path of an export');
+  }
+
+  const issues = await verifyExport(exportPath);
+  for (const issue of issues) console.log(`${issue.file}: ${issue.message}`);
+  if (issues.length > 0) {
+    console.log(`${exportPath} does not match its manifest, ${issues.length} issues`);
+    process.exitCode = 1;
+  } else {
+    console.log(`${exportPath} matches its manifest`);
+  }
+}
+void main();